@@ -15,6 +15,26 @@
  *   roll <name>                  Roll without state change (dry run)
  *   reset <name>                 Reset accumulator
  *   clear <name>                 Clear state
+ *   pause <name> [--for <time> | --session]
+ *   resume <name>
+ *
+ * Randomness:
+ *   rng [math|crypto|seeded]     Show or set the RNG provider
+ *   explain [--depth <n>] [--session <id>]
+ *
+ * History:
+ *   history [--slot <name>] [--session <id>] [--json]
+ *                                Show recorded rolls
+ *   stats [--slot <name>] [--session <id>] [--json]
+ *                                Observed vs theoretical trigger rates
+ *
+ * Odds:
+ *   odds <name> [--turns <n>] [--json]
+ *                                Exact per-turn odds from a fresh session
+ *
+ * Simulation:
+ *   simulate [slots...] [--turns <n>] [--runs <n>] [--seed <s>] [--json]
+ *                                Monte Carlo over the real engine
  *
  * Session:
  */
@@ -29,8 +49,48 @@ import {
   clearSlot,
   previewSlot,
   getTranscriptPath,
+  parseTarget,
+  formatTarget,
+  slotConfigError,
+  formatRolls,
+  isSumMode,
+  parseFaces,
+  parseFaceTarget,
+  defaultFaceTarget,
+  parseExpression,
+  formatExpressionRoll,
+  parseCurve,
+  formatCurve,
+  parseDepthList,
+  formatSchedule,
+  cooldownError,
+  defaultCooldown,
+  chainError,
+  pauseSlot,
+  resumeSlot,
+  slotPause,
+  formatPause,
+  parseDuration,
+  conditionError,
+  formatCondition,
+  activationError,
+  formatActivation,
+  poolError,
+  poolLabel,
+  poolMates,
+  explainCheck,
+  readRollHistory,
+  formatRecord,
+  slotStats,
+  faceStats,
+  simulate,
+  slotOdds,
+  resolveRngProvider,
+  saveRngProvider,
+  parseRngProvider,
+  getBaseDir,
 } from "../src/index";
-import type { CheckContext } from "../src/types";
+import type { ActivationWindow, Advantage, CheckContext, CooldownSpec, DiceSlotConfig, SlotCondition, SlotScope, TargetMode } from "../src/types";
 
 const args = process.argv.slice(2);
 const command = args[0];
@@ -48,16 +108,83 @@ Per-Slot Operations:
   roll <name>                  Roll without state change (dry run)
   reset <name>                 Reset accumulator
   clear <name>                 Clear state
+  pause <name> [--for <time> | --session]
+                               Silence a slot: until resumed, for a time (30m, 2h, 1d),
+                               or for this session
+  resume <name>                Undo pause
+
+Randomness:
+  rng [math|crypto|seeded]     Show or set the RNG provider (AGENT_DICE_RNG overrides)
+  explain [--depth <n>] [--session <id>]
+                               Replay a stop with the seeded provider: every slot's
+                               dice and why it did or didn't trigger (no state change)
+
+History:
+  history [--slot <name>] [--session <id>] [--limit <n>] [--json]
+                               Recorded rolls, oldest first (default: every session,
+                               last 50); --json prints one record per line
+  stats [--slot <name>] [--session <id>] [--json]
+                               Observed vs theoretical trigger rates per slot, and a
+                               chi-square fairness test of faces per die size
+
+Odds:
+  odds <name> [--turns <n>] [--json]
+                               Exact per-turn odds from a fresh session (default 50 turns):
+                               dice, chance, chance of at least one trigger, median and p90
+
+Simulation:
+  simulate [slots...] [--turns <n>] [--runs <n>] [--seed <s>] [--json]
+                               Monte Carlo over the real engine (default: every slot,
+                               100 turns, 10000 runs): trigger curves, mean first
+                               trigger turn, and how often slots trigger together
 
 Register Options:
-  --die <n>                    Die size (default: 20)
-  --target <n>                 Target number (default: 20)
-  --target-mode <mode>         exact|gte|lte (default: exact)
-  --type <type>                accumulator|fixed|single (default: accumulator)
+  --die <n>                    Die size, at least 2 (default: 20)
+  --target <t>                 Target face, face list (1,20) or range (12..14) (default: 20)
+  --target-mode <mode>         exact|gte|lte|sum-exact|sum-gte|sum-lte (default: exact)
+  --type <type>                accumulator|fixed|single|expression|deck|scheduled (default: accumulator)
   --accumulation-rate <n>      Turns per +1 die (default: 7)
   --max-dice <n>               Max dice cap (default: 100)
+  --curve <spec>               Accumulator chance curve instead of dice, e.g. linear:slope=2,ceiling=60,
+                               exponential:floor=1,growth=1.15, logistic:midpoint=20,steepness=0.25
+  --curve-marks <p,p,...>      Percent levels status reports crossing depths for (default: 25,50,75)
   --fixed-count <n>            Dice count for fixed type (default: 1)
-  --cooldown <mode>            per-session|none (default: per-session)
+  --expression <notation>      Dice notation for expression type (e.g. 2d6+1, 4d6kh3)
+  --deck-size <n>              Cards in the bag for deck type (default: 20)
+  --deck-hits <k>              Hit cards in the bag for deck type (default: 1)
+  --every <n>                  Fire every n turns (scheduled type)
+  --at-depths <d,d,...>        Fire at these depths (scheduled type)
+  --advantage <mode>           none|advantage|disadvantage (default: none)
+  --advantage-dice <n>         Rolls per die under (dis)advantage (default: 2)
+  --explode                    A max face rolls again and adds on
+  --explode-depth <n>          Cap on extra rolls per die, 1-20 (default: 5)
+  --min-hits <k>               Trigger only when k or more dice match (fixed/accumulator)
+  --faces <f,f,...>            Custom die faces: numbers (-1,0,0,1) or labels (refactor,test,docs)
+  --weights <w,w,...>          Relative weight per face (default: equal)
+  --face-message <face>=<msg>  Message for one face (repeatable; default --message)
+  --guarantee-after <n>        Force a trigger after n turns without one (accumulator/single)
+  --cooldown <mode>            per-session|none|turns:N|duration:<time>|max:N
+                               (default: per-session; none for scheduled, deck, veto,
+                               or with --refractory)
+  --group <name>               Exclusion group: at most one slot per group triggers per stop
+  --priority <n>               Higher wins within a group and prints first (default: 0)
+  --pool <name|independent>    Share a base roll only with slots in this pool, or with none
+                               (default: every slot with the same die)
+  --requires <slot,slot,...>   Dormant (0 dice) until these slots have triggered
+  --requires-within <n>        ...each within the last n turns
+  --when-assistant <regex>     Roll only when the last assistant message matches
+  --when-tool-failed <tool>    ...when a call to this tool failed in the last turn (* = any)
+  --when-file-touched <glob>   ...when an edit/write in the last turn touched a matching file
+  --days <days>                Roll only on these days: weekdays|weekends|daily|mon-fri|sat,sun
+  --hours <range>              ...only in these local hours, end exclusive: 9-18, 09:30-22:00, 22-6
+  --skip-ci                    ...not when CI is set
+  --interactive-only           ...not in non-interactive runs (claude -p)
+  --term-program <regex>       ...only when TERM_PROGRAM matches (e.g. vscode)
+  --veto                       A hit cancels every other trigger that stop (never shown to Claude)
+  --scope <scope>              session|project|global: what state and cooldown are
+                               shared across (default: session)
+  --refractory <curve>         Soften odds after a trigger instead of a lockout:
+                               percent of normal odds by turns since (e.g. linear:slope=10)
   --no-clear-on-start          Don't clear on session start
   --no-reset-on-trigger        Don't reset accumulator on trigger
   --no-flavor                  Don't prepend dice emoji + roll lingo
@@ -70,10 +197,35 @@ function parseArg(flag: string): string | undefined {
   return undefined;
 }
 
+/** Every value of a repeatable flag, in order. */
+function parseArgs(flag: string): string[] {
+  const values: string[] = [];
+  args.forEach((a, i) => {
+    if (a === flag && i + 1 < args.length) values.push(args[i + 1]);
+  });
+  return values;
+}
+
 function hasFlag(flag: string): boolean {
   return args.includes(flag);
 }
 
+/**
+ * `d20`, `d6!` (exploding), `d20 advantage`, `d[-1,0,0,1]` — or the notation for
+ * expression slots, `deck 1/20` for decks, `every 10` for scheduled slots.
+ */
+function diceLabel(config: DiceSlotConfig): string {
+  if (config.type === "expression") return String(config.expression);
+  if (config.type === "scheduled") return formatSchedule(config);
+  if (config.type === "deck") return `deck ${config.deckHits ?? 1}/${config.deckSize ?? 20}`;
+  if (config.curve) return `curve ${formatCurve(config.curve)}`;
+  if (config.faces?.length) return `d[${config.faces.join(",")}]`;
+  const label = `d${config.die}${config.explode ? "!" : ""}`;
+  if (!config.advantage || config.advantage === "none") return label;
+  const fold = config.advantageDice ?? 2;
+  return `${label} ${config.advantage}${fold !== 2 ? ` x${fold}` : ""}`;
+}
+
 function buildContext(): CheckContext {
   const transcriptPath = getTranscriptPath() ?? undefined;
   return { transcriptPath };
@@ -93,18 +245,266 @@ async function main(): Promise<void> {
         process.exit(1);
       }
 
-      const die = Number(parseArg("--die") ?? "20");
-      const target = Number(parseArg("--target") ?? "20");
-      const targetMode = (parseArg("--target-mode") ?? "exact") as "exact" | "gte" | "lte";
-      const type = (parseArg("--type") ?? "accumulator") as "accumulator" | "fixed" | "single";
+      const rawFaces = parseArg("--faces");
+      const faces = rawFaces === undefined ? undefined : parseFaces(rawFaces);
+      if (faces === null) {
+        console.error("Error: --faces must be a comma-separated list (e.g. -1,0,0,1 or refactor,test,docs)");
+        process.exit(1);
+      }
+      const targetMode = (parseArg("--target-mode") ?? "exact") as TargetMode;
+      const type = (parseArg("--type") ?? "accumulator") as DiceSlotConfig["type"];
+      const die = faces ? faces.length : Number(parseArg("--die") ?? "20");
+      const rawTarget = parseArg("--target");
+      const target = faces
+        ? rawTarget === undefined
+          ? defaultFaceTarget(faces)
+          : parseFaceTarget(rawTarget, faces)
+        : parseTarget(rawTarget ?? "20");
+      if (target === null) {
+        console.error(
+          faces
+            ? `Error: --target must name faces of the die (${faces.join(",")})`
+            : "Error: --target must be a number, a face list (1,20) or a range (12..14)"
+        );
+        process.exit(1);
+      }
+      const configProblem = slotConfigError({ type, targetMode, die, target, faces });
+      if (configProblem) {
+        console.error(`Error: invalid ${configProblem}`);
+        process.exit(1);
+      }
+      const weights = parseArg("--weights")?.split(",").map(Number);
+      if (weights && (!faces || weights.length !== faces.length || weights.some((w) => !Number.isFinite(w) || w <= 0))) {
+        console.error("Error: --weights needs --faces and one positive weight per face");
+        process.exit(1);
+      }
+      const faceMessages: Record<string, string> = {};
+      for (const entry of parseArgs("--face-message")) {
+        const eq = entry.indexOf("=");
+        const label = eq > 0 ? entry.slice(0, eq) : "";
+        if (!faces || !faces.some((f) => String(f) === label)) {
+          console.error(`Error: --face-message must be <face>=<message> for a face in --faces (got "${entry}")`);
+          process.exit(1);
+        }
+        faceMessages[label] = entry.slice(eq + 1);
+      }
       const accumulationRate = Number(parseArg("--accumulation-rate") ?? "7");
       const maxDice = Number(parseArg("--max-dice") ?? "100");
       const fixedCount = Number(parseArg("--fixed-count") ?? "1");
-      const cooldown = (parseArg("--cooldown") ?? "per-session") as "per-session" | "none";
+      const veto = hasFlag("--veto");
+      const cooldown = (parseArg("--cooldown") ?? defaultCooldown({ type, veto, refractory: parseArg("--refractory") })) as CooldownSpec;
+      const badCooldown = cooldownError(cooldown);
+      if (badCooldown) {
+        console.error(`Error: ${badCooldown}`);
+        process.exit(1);
+      }
+      const scope = (parseArg("--scope") ?? "session") as SlotScope;
+      if (!["session", "project", "global"].includes(scope)) {
+        console.error(`Error: invalid --scope "${scope}" (session|project|global)`);
+        process.exit(1);
+      }
+      const group = parseArg("--group");
+      const rawPriority = parseArg("--priority");
+      const priority = rawPriority === undefined ? undefined : Number(rawPriority);
+      if (group !== undefined && group.trim() === "") {
+        console.error("Error: --group needs a name");
+        process.exit(1);
+      }
+      if (priority !== undefined && !Number.isInteger(priority)) {
+        console.error("Error: --priority must be an integer");
+        process.exit(1);
+      }
+      const requires = parseArg("--requires")?.split(",").map((s) => s.trim()).filter(Boolean);
+      const rawWithin = parseArg("--requires-within");
+      const requiresWithin = rawWithin === undefined ? undefined : Number(rawWithin);
+      const badChain = chainError({ name, requires, requiresWithin });
+      if (badChain) {
+        console.error(`Error: invalid chain: ${badChain}`);
+        process.exit(1);
+      }
+      const registered = new Set((await listSlots()).map((s) => s.name));
+      const unknown = (requires ?? []).filter((r) => !registered.has(r));
+      if (unknown.length > 0) {
+        console.error(`Error: --requires: no slot named ${unknown.join(", ")}`);
+        process.exit(1);
+      }
+      const assistantMatches = parseArg("--when-assistant");
+      const toolFailed = parseArg("--when-tool-failed");
+      const fileTouched = parseArg("--when-file-touched");
+      const when: SlotCondition | undefined =
+        assistantMatches === undefined && toolFailed === undefined && fileTouched === undefined
+          ? undefined
+          : {
+              ...(assistantMatches !== undefined ? { assistantMatches } : {}),
+              ...(toolFailed !== undefined ? { toolFailed } : {}),
+              ...(fileTouched !== undefined ? { fileTouched } : {}),
+            };
+      const badCondition = when ? conditionError(when) : null;
+      if (badCondition) {
+        console.error(`Error: invalid condition: ${badCondition}`);
+        process.exit(1);
+      }
+      const days = parseArg("--days");
+      const hours = parseArg("--hours");
+      const termProgram = parseArg("--term-program");
+      const skipCi = hasFlag("--skip-ci");
+      const interactiveOnly = hasFlag("--interactive-only");
+      const active: ActivationWindow | undefined =
+        days === undefined && hours === undefined && termProgram === undefined && !skipCi && !interactiveOnly
+          ? undefined
+          : {
+              ...(days !== undefined ? { days } : {}),
+              ...(hours !== undefined ? { hours } : {}),
+              ...(skipCi ? { skipCi } : {}),
+              ...(interactiveOnly ? { interactiveOnly } : {}),
+              ...(termProgram !== undefined ? { termProgram } : {}),
+            };
+      const badActivation = active ? activationError(active) : null;
+      if (badActivation) {
+        console.error(`Error: invalid activation window: ${badActivation}`);
+        process.exit(1);
+      }
       const clearOnSessionStart = !hasFlag("--no-clear-on-start");
       const resetOnTrigger = !hasFlag("--no-reset-on-trigger");
       const flavor = !hasFlag("--no-flavor");
       const message = parseArg("--message") ?? `Dice trigger: ${name}`;
+      const expression = parseArg("--expression");
+      if (type === "expression") {
+        if (!expression) {
+          console.error("Error: --expression required for type expression");
+          process.exit(1);
+        }
+        parseExpression(expression); // throws a readable error on bad notation
+      }
+      const advantage = (parseArg("--advantage") ?? "none") as Advantage;
+      if (!["none", "advantage", "disadvantage"].includes(advantage)) {
+        console.error("Error: --advantage must be none, advantage, or disadvantage");
+        process.exit(1);
+      }
+      const advantageDice = Number(parseArg("--advantage-dice") ?? "2");
+      if (!Number.isInteger(advantageDice) || advantageDice < 2) {
+        console.error("Error: --advantage-dice must be an integer >= 2");
+        process.exit(1);
+      }
+      if (type === "expression" && advantage !== "none") {
+        console.error("Error: --advantage does not apply to expression slots (use kh/kl in the notation)");
+        process.exit(1);
+      }
+      const explode = hasFlag("--explode");
+      const explodeDepth = Number(parseArg("--explode-depth") ?? "5");
+      if (!Number.isInteger(explodeDepth) || explodeDepth < 1 || explodeDepth > 20) {
+        console.error("Error: --explode-depth must be an integer from 1 to 20");
+        process.exit(1);
+      }
+      if (type === "expression" && explode) {
+        console.error("Error: --explode does not apply to expression slots");
+        process.exit(1);
+      }
+      if (faces && (type === "expression" || advantage !== "none" || explode)) {
+        console.error("Error: --faces cannot be combined with expression slots, --advantage, or --explode");
+        process.exit(1);
+      }
+      const deckSize = Number(parseArg("--deck-size") ?? "20");
+      const deckHits = Number(parseArg("--deck-hits") ?? "1");
+      if (type === "deck") {
+        if (!Number.isInteger(deckSize) || deckSize < 1) {
+          console.error("Error: --deck-size must be an integer >= 1");
+          process.exit(1);
+        }
+        if (!Number.isInteger(deckHits) || deckHits < 1 || deckHits > deckSize) {
+          console.error("Error: --deck-hits must be an integer from 1 to --deck-size");
+          process.exit(1);
+        }
+      } else if (hasFlag("--deck-size") || hasFlag("--deck-hits")) {
+        console.error("Error: --deck-size and --deck-hits need --type deck");
+        process.exit(1);
+      }
+      const rawEvery = parseArg("--every");
+      const every = rawEvery === undefined ? undefined : Number(rawEvery);
+      const rawAtDepths = parseArg("--at-depths");
+      const atDepths = rawAtDepths === undefined ? undefined : parseDepthList(rawAtDepths);
+      if (type === "scheduled") {
+        if (every === undefined && atDepths === undefined) {
+          console.error("Error: --type scheduled needs --every or --at-depths");
+          process.exit(1);
+        }
+        if (every !== undefined && (!Number.isInteger(every) || every < 1)) {
+          console.error("Error: --every must be an integer >= 1");
+          process.exit(1);
+        }
+        if (atDepths === null) {
+          console.error("Error: --at-depths must be a list of integers >= 1 (e.g. 10,25,50)");
+          process.exit(1);
+        }
+        if (advantage !== "none" || explode || faces) {
+          console.error("Error: scheduled slots roll no dice, so they cannot take --advantage, --explode, or --faces");
+          process.exit(1);
+        }
+      } else if (rawEvery !== undefined || rawAtDepths !== undefined) {
+        console.error("Error: --every and --at-depths need --type scheduled");
+        process.exit(1);
+      }
+      const rawCurve = parseArg("--curve");
+      const curve = rawCurve === undefined ? undefined : parseCurve(rawCurve); // throws a readable error on a bad spec
+      const curveMarks = parseArg("--curve-marks")?.split(",").map(Number);
+      if (curve && type !== "accumulator") {
+        console.error("Error: --curve applies to accumulator slots only");
+        process.exit(1);
+      }
+      if (curveMarks && (!curve || curveMarks.some((m) => !Number.isFinite(m) || m <= 0 || m > 100))) {
+        console.error("Error: --curve-marks needs --curve and percents in (0, 100]");
+        process.exit(1);
+      }
+      if (curve && (advantage !== "none" || explode || faces || hasFlag("--min-hits"))) {
+        console.error("Error: --curve replaces dice, so it cannot be combined with --advantage, --explode, --faces, or --min-hits");
+        process.exit(1);
+      }
+      const rawMinHits = parseArg("--min-hits");
+      const minHits = rawMinHits === undefined ? undefined : Number(rawMinHits);
+      if (minHits !== undefined) {
+        if (!Number.isInteger(minHits) || minHits < 1) {
+          console.error("Error: --min-hits must be an integer >= 1");
+          process.exit(1);
+        }
+        if (type !== "fixed" && type !== "accumulator") {
+          console.error("Error: --min-hits needs a fixed or accumulator pool");
+          process.exit(1);
+        }
+        if (isSumMode(targetMode)) {
+          console.error("Error: --min-hits counts dice, so it cannot be combined with a sum mode");
+          process.exit(1);
+        }
+      }
+
+      const rawRefractory = parseArg("--refractory");
+      const refractory = rawRefractory === undefined ? undefined : parseCurve(rawRefractory); // throws a readable error on a bad spec
+
+      const rawGuarantee = parseArg("--guarantee-after");
+      const guaranteeAfter = rawGuarantee === undefined ? undefined : Number(rawGuarantee);
+      if (guaranteeAfter !== undefined) {
+        if (!Number.isInteger(guaranteeAfter) || guaranteeAfter < 1) {
+          console.error("Error: --guarantee-after must be an integer >= 1");
+          process.exit(1);
+        }
+        if (type !== "accumulator" && type !== "single") {
+          console.error("Error: --guarantee-after needs an accumulator or single slot");
+          process.exit(1);
+        }
+        if (type === "accumulator" && !resetOnTrigger) {
+          console.error("Error: --guarantee-after counts from the last trigger, so it cannot be combined with --no-reset-on-trigger");
+          process.exit(1);
+        }
+      }
+
+      const pool = parseArg("--pool");
+      if (pool !== undefined) {
+        const candidate = { name, type, die, ...(faces ? { faces, ...(weights ? { weights } : {}) } : {}), ...(curve ? { curve } : {}), pool };
+        const badPool = poolError(candidate as DiceSlotConfig, await listSlots());
+        if (badPool) {
+          console.error(`Error: invalid --pool: ${badPool}`);
+          process.exit(1);
+        }
+      }
 
       const config = await registerSlot({
         name,
@@ -115,14 +515,34 @@ async function main(): Promise<void> {
         accumulationRate,
         maxDice,
         fixedCount,
+        ...(type === "expression" ? { expression } : {}),
+        ...(type === "deck" ? { deckSize, deckHits } : {}),
+        ...(every !== undefined ? { every } : {}),
+        ...(atDepths ? { atDepths } : {}),
+        ...(curve ? { curve, ...(curveMarks ? { curveMarks } : {}) } : {}),
+        ...(advantage !== "none" ? { advantage, ...(advantageDice !== 2 ? { advantageDice } : {}) } : {}),
+        ...(explode ? { explode, ...(explodeDepth !== 5 ? { explodeDepth } : {}) } : {}),
+        ...(minHits !== undefined ? { minHits } : {}),
+        ...(faces ? { faces, ...(weights ? { weights } : {}) } : {}),
+        ...(Object.keys(faceMessages).length > 0 ? { faceMessages } : {}),
+        ...(guaranteeAfter !== undefined ? { guaranteeAfter } : {}),
         cooldown,
+        ...(scope !== "session" ? { scope } : {}),
+        ...(group !== undefined ? { group } : {}),
+        ...(priority !== undefined ? { priority } : {}),
+        ...(pool !== undefined ? { pool } : {}),
+        ...(requires ? { requires, ...(requiresWithin !== undefined ? { requiresWithin } : {}) } : {}),
+        ...(when ? { when } : {}),
+        ...(active ? { active } : {}),
+        ...(veto ? { veto } : {}),
+        ...(refractory ? { refractory } : {}),
         clearOnSessionStart,
         resetOnTrigger,
         flavor,
         onTrigger: { message },
       });
 
-      console.log(`Registered: ${config.name} (${config.type}, d${config.die}, target=${config.target} ${config.targetMode})`);
+      console.log(`Registered: ${config.name} (${config.type}, ${diceLabel(config)}, target=${formatTarget(config.target)} ${config.targetMode})`);
       break;
     }
 
@@ -147,8 +567,16 @@ async function main(): Promise<void> {
       if (slots.length === 0) {
         console.log("No slots registered.");
       } else {
+        const ctx = buildContext();
+        const mates = poolMates(slots);
         for (const slot of slots) {
-          console.log(`  ${slot.name} (${slot.type}, ${slot.die}-sided, target=${slot.target} ${slot.targetMode})`);
+          const rolls = ["expression", "deck", "scheduled"].includes(slot.type) || slot.curve ? diceLabel(slot) : `${slot.die}-sided`;
+          const pause = slotPause(slot, ctx);
+          const shared = mates.get(slot.name) ?? [];
+          const pool = slot.pool !== undefined || shared.length > 0 ? `, pool ${poolLabel(slot)}${shared.length > 0 ? ` with ${shared.join(", ")}` : ""}` : "";
+          console.log(
+            `  ${slot.name} (${slot.type}, ${rolls}, target=${formatTarget(slot.target)} ${slot.targetMode}${pool})${pause ? ` — ${formatPause(pause)}` : ""}`
+          );
         }
       }
       break;
@@ -167,13 +595,68 @@ async function main(): Promise<void> {
         process.exit(1);
       }
       console.log(`Slot: ${status.name} (${status.type})`);
+      if (status.expression) {
+        console.log(`  Expression:      ${status.expression}`);
+      }
       console.log(`  Dice count:      ${status.diceCount}`);
+      if (status.deck) {
+        console.log(`  Cards left:      ${status.deck.remaining} (${status.deck.hits} hits)`);
+      }
+      if (status.minHits !== undefined) {
+        console.log(`  Min hits:        ${status.minHits} of ${status.diceCount} dice`);
+      }
+      if (status.scope) {
+        console.log(`  Scope:           ${status.scope} (depths count across sessions)`);
+      }
+      if (status.group) {
+        console.log(`  Group:           ${status.group.name} (priority ${status.group.priority})`);
+      }
+      if (status.paused) {
+        console.log(`  Paused:          ${formatPause(status.paused)}`);
+      }
+      if (status.veto) {
+        console.log(`  Veto:            a hit cancels every other trigger`);
+      }
+      const config = status.condition || status.active ? await getSlot(name) : null;
+      if (status.condition && config?.when) {
+        console.log(`  Condition:       ${status.condition.met ? "met" : "not met"} (${formatCondition(config.when)})`);
+      }
+      if (status.active && config?.active) {
+        console.log(`  Active:          ${status.active.open ? "now" : "not now"} (${formatActivation(config.active)})`);
+      }
+      if (status.chain) {
+        const { armed, waitingOn, until } = status.chain;
+        console.log(
+          `  Chain:           ${armed ? `armed${until !== undefined ? ` until depth ${until}` : ""}` : `dormant (waiting on ${waitingOn.join(", ")})`}`
+        );
+      }
       console.log(`  Current depth:   ${status.currentDepth}`);
       console.log(`  Since trigger:   ${status.depthSinceTrigger}`);
       console.log(`  Probability:     ${status.probability}%`);
-      if (status.type === "accumulator") {
+      if (status.curve) {
+        console.log(`  Curve:           ${status.curve.spec}`);
+        for (const { percent, depth } of status.curve.crossings) {
+          console.log(`  Reaches ${`${percent}%:`.padEnd(8)} ${depth === null ? "never (ceiling below)" : `depth ${depth}`}`);
+        }
+      } else if (status.type === "accumulator") {
         console.log(`  Next die at:     depth ${status.nextDiceAt}`);
       }
+      if (status.guaranteeAt !== undefined) {
+        console.log(`  Guaranteed at:   depth ${status.guaranteeAt}`);
+      }
+      if (status.schedule) {
+        console.log(`  Schedule:        ${status.schedule.spec}`);
+        console.log(`  Next at:         ${status.schedule.nextAt === null ? "never (schedule finished)" : `depth ${status.schedule.nextAt}`}`);
+      }
+      if (status.cooldown) {
+        const { active, triggers, untilDepth, until } = status.cooldown;
+        const ends = untilDepth !== undefined ? ` until depth ${untilDepth}` : until ? ` until ${until}` : "";
+        console.log(`  Cooldown:        ${active ? `active${ends}` : "ready"} (${triggers} trigger${triggers === 1 ? "" : "s"} this session)`);
+      }
+      if (status.refractory) {
+        const { percent, fullAt } = status.refractory;
+        console.log(`  Refractory:      ${percent}% of normal odds${fullAt === null ? "" : `, full at depth ${fullAt}`}`);
+      }
       break;
     }
 
@@ -195,13 +678,52 @@ async function main(): Promise<void> {
         return; // unreachable, satisfies TS
       }
       const diceCount = status.diceCount;
+      // Dry-run preview via the engine (no shared pool, no side effects) — D8.
+      const preview = previewSlot(config, diceCount, undefined, {
+        deck: status.deck,
+        currentDepth: status.currentDepth,
+        depthSinceTrigger: status.depthSinceTrigger,
+      });
+      const outcome = preview.forced === "pity" ? " TRIGGERED! (pity timer)" : preview.triggered ? " TRIGGERED!" : "";
+      if (status.schedule) {
+        const next = preview.triggered
+          ? "due now"
+          : status.schedule.nextAt === null
+            ? "schedule finished"
+            : `next at depth ${status.schedule.nextAt}`;
+        console.log(`${name}: scheduled ${status.schedule.spec} at depth ${status.currentDepth}, ${next}${outcome}`);
+        break;
+      }
       if (diceCount <= 0) {
-        console.log(`${name}: 0 dice (no roll)`);
+        console.log(`${name}: 0 dice (no roll)${outcome}`);
         break;
       }
-      // Dry-run preview via the engine (no shared pool, no side effects) — D8.
-      const preview = previewSlot(config, diceCount);
-      console.log(`${name}: ${diceCount}d${config.die} = [${preview.rolls.join(", ")}] (best: ${preview.best}, ${preview.probability}%)${preview.triggered ? " TRIGGERED!" : ""}`);
+      if (preview.percentile !== undefined) {
+        console.log(`${name}: drew ${preview.percentile} (needed under ${preview.probability}%)${outcome}`);
+        break;
+      }
+      if (config.type === "deck" && preview.deck) {
+        const card = preview.triggered ? "hit" : "miss";
+        console.log(`${name}: drew a ${card}, ${preview.deck.remaining} cards left (${preview.probability}%)${outcome}`);
+        break;
+      }
+      if (config.type === "expression" && preview.total !== undefined) {
+        const shown = formatExpressionRoll({ rolls: preview.rolls, dropped: preview.dropped ?? [], total: preview.total });
+        console.log(`${name}: ${config.expression} = ${shown} (${preview.probability}%)${outcome}`);
+        break;
+      }
+      const summary =
+        preview.total !== undefined
+          ? `sum: ${preview.total}`
+          : preview.hits !== undefined
+            ? `hits: ${preview.hits}/${config.minHits}`
+            : preview.labels
+              ? `face: ${preview.face ?? "none"}`
+              : `best: ${preview.best}`;
+      const dieText = config.faces?.length ? `d[${config.faces.join(",")}]` : `d${config.die}`;
+      const shown = preview.labels?.join(", ") ?? formatRolls(preview.rolls, preview.exploded);
+      const kept = preview.advantageRolls ? ` kept from [${preview.advantageRolls.map((set) => set.join("|")).join(", ")}]` : "";
+      console.log(`${name}: ${diceCount}${dieText} = [${shown}]${kept} (${summary}, ${preview.probability}%)${outcome}`);
       break;
     }
 
@@ -237,6 +759,258 @@ async function main(): Promise<void> {
       break;
     }
 
+    case "pause": {
+      const name = args[1];
+      if (!name) {
+        console.error("Error: slot name required");
+        process.exit(1);
+      }
+      const rawFor = parseArg("--for");
+      const ms = rawFor === undefined ? undefined : parseDuration(rawFor);
+      if (ms === null || (ms !== undefined && hasFlag("--session"))) {
+        console.error("Error: pause takes --for <time> (s, m, h, d; e.g. 2h) or --session, not both");
+        process.exit(1);
+      }
+      const ctx = buildContext();
+      const spec = ms !== undefined ? { kind: "for" as const, ms } : hasFlag("--session") ? { kind: "session" as const } : { kind: "off" as const };
+      const config = await pauseSlot(name, spec, ctx);
+      if (!config) {
+        console.error(`Slot not found: ${name}`);
+        process.exit(1);
+      }
+      const pause = slotPause(config, ctx);
+      console.log(`Paused slot: ${name} (${pause ? formatPause(pause) : "paused"})`);
+      break;
+    }
+
+    case "resume": {
+      const name = args[1];
+      if (!name) {
+        console.error("Error: slot name required");
+        process.exit(1);
+      }
+      if (!(await resumeSlot(name))) {
+        console.error(`Slot not found: ${name}`);
+        process.exit(1);
+      }
+      console.log(`Resumed slot: ${name}`);
+      break;
+    }
+
+    case "rng": {
+      const raw = args[1];
+      if (raw === undefined) {
+        const { provider, source } = resolveRngProvider(getBaseDir());
+        const from = source === "env" ? "from AGENT_DICE_RNG" : source === "config" ? "from config.json" : "default";
+        console.log(`RNG provider: ${provider} (${from})`);
+        break;
+      }
+      const provider = parseRngProvider(raw);
+      if (!provider) {
+        console.error(`Error: unknown RNG provider "${raw}" (math|crypto|seeded)`);
+        process.exit(1);
+      }
+      saveRngProvider(getBaseDir(), provider);
+      console.log(`RNG provider: ${provider}`);
+      if (process.env.AGENT_DICE_RNG !== undefined) {
+        console.log(`Note: AGENT_DICE_RNG=${process.env.AGENT_DICE_RNG} overrides it in this shell`);
+      }
+      break;
+    }
+
+    case "explain": {
+      const rawDepth = parseArg("--depth");
+      const depth = rawDepth === undefined ? undefined : Number(rawDepth);
+      if (depth !== undefined && (!Number.isInteger(depth) || depth < 0)) {
+        console.error("Error: --depth must be an integer >= 0");
+        process.exit(1);
+      }
+      const sessionId = parseArg("--session");
+      const ctx: CheckContext = { ...buildContext(), ...(sessionId ? { sessionId } : {}) };
+      const replay = await explainCheck({ ...ctx, ...(depth !== undefined ? { depth } : {}) });
+      console.log(`Replay: session ${replay.sessionId}, depth ${replay.depth} (seeded; nothing saved)`);
+      for (const r of replay.results) {
+        const dice =
+          r.percentile !== undefined
+            ? `drew ${r.percentile} (needed under ${r.probability}%)`
+            : r.diceCount > 0
+              ? `${r.diceCount} ${r.diceCount === 1 ? "die" : "dice"} [${(r.labels ?? r.rolls).join(", ")}] (${r.probability}%)`
+              : "0 dice";
+        const outcome = r.triggered
+          ? r.vetoed !== undefined
+            ? `veto, held back ${r.vetoed.join(", ") || "nothing"}`
+            : `TRIGGERED${r.forced === "pity" ? " (pity timer)" : ""}`
+          : r.vetoedBy
+            ? `hit, vetoed by ${r.vetoedBy}`
+            : r.suppressedBy
+              ? `hit, suppressed by ${r.suppressedBy}`
+              : r.diceCount > 0 || r.percentile !== undefined
+                ? "miss"
+                : `no roll (${r.skipped ?? "nothing to roll"})`;
+        console.log(`  ${r.slotName}: ${dice} → ${outcome}`);
+      }
+      break;
+    }
+
+    case "history": {
+      const rawLimit = parseArg("--limit");
+      const limit = rawLimit === undefined ? 50 : Number(rawLimit);
+      if (!Number.isInteger(limit) || limit < 1) {
+        console.error("Error: --limit must be an integer >= 1");
+        process.exit(1);
+      }
+      const slot = parseArg("--slot");
+      const session = parseArg("--session");
+      const records = readRollHistory(getBaseDir(), { ...(slot ? { slot } : {}), ...(session ? { session } : {}), limit });
+      if (hasFlag("--json")) {
+        for (const r of records) console.log(JSON.stringify(r));
+        break;
+      }
+      if (records.length === 0) {
+        console.log("No rolls recorded.");
+        break;
+      }
+      for (const r of records) console.log(session ? formatRecord(r) : `[${r.session}] ${formatRecord(r)}`);
+      break;
+    }
+
+    case "stats": {
+      const slot = parseArg("--slot");
+      const session = parseArg("--session");
+      const records = readRollHistory(getBaseDir(), { ...(slot ? { slot } : {}), ...(session ? { session } : {}) });
+      const slots = slotStats(records);
+      const faces = faceStats(records, await listSlots());
+      if (hasFlag("--json")) {
+        console.log(JSON.stringify({ slots, faces }, null, 2));
+        break;
+      }
+      if (records.length === 0) {
+        console.log("No rolls recorded.");
+        break;
+      }
+      const pct = (n: number | null) => (n === null ? "-" : `${n.toFixed(1)}%`);
+      const num = (n: number | null, digits = 1) => (n === null ? "-" : n.toFixed(digits));
+      const rows = [
+        ["Slot", "Checks", "Hits", "Expected", "Observed", "Theory", "z", "Trig/session", "Avg trig depth"],
+        ...slots.map((s) => [
+          s.slot,
+          String(s.checks),
+          String(s.hits),
+          num(s.expectedHits),
+          pct(s.observedRate),
+          pct(s.expectedRate),
+          `${num(s.z, 2)}${s.z !== null && Math.abs(s.z) >= 3 ? " !" : ""}`,
+          num(s.triggersPerSession, 2),
+          num(s.avgTriggerDepth),
+        ]),
+      ];
+      const widths = rows[0].map((_, i) => Math.max(...rows.map((r) => r[i].length)));
+      for (const row of rows) console.log(row.map((cell, i) => cell.padEnd(widths[i])).join("  ").trimEnd());
+      if (slots.some((s) => s.z !== null && Math.abs(s.z) >= 3)) {
+        console.log("! more than 3 standard deviations from its odds");
+      }
+      if (faces.length > 0) {
+        console.log("\nFace fairness (chi-square against a fair die):");
+        for (const f of faces) {
+          const fit = `${f.rolls} rolls, chi-square ${f.chiSquare.toFixed(2)} (df ${f.df}), p = ${f.p < 0.0001 ? f.p.toExponential(1) : f.p.toFixed(4)}`;
+          const verdict = !f.enough ? `too few rolls to judge (need ${f.die * 5})` : f.p < 0.001 ? "SUSPICIOUS" : "ok";
+          console.log(`  d${f.die}: ${fit} — ${verdict}`);
+        }
+      }
+      break;
+    }
+
+    case "odds": {
+      const name = args[1];
+      if (!name || name.startsWith("--")) {
+        console.error("Error: slot name required");
+        process.exit(1);
+      }
+      const turns = Number(parseArg("--turns") ?? 50);
+      if (!Number.isInteger(turns) || turns < 1) {
+        console.error("Error: --turns must be an integer >= 1");
+        process.exit(1);
+      }
+      const config = await getSlot(name);
+      if (!config) {
+        console.error(`Slot not found: ${name}`);
+        process.exit(1);
+      }
+      const odds = slotOdds(config, turns);
+      if (hasFlag("--json")) {
+        console.log(JSON.stringify(odds, null, 2));
+        break;
+      }
+      const pct = (n: number) => `${n.toFixed(2)}%`;
+      const rows = [
+        ["Depth", "Dice", "First trigger", "Any trigger", "By now"],
+        ...odds.rows.map((r) => [String(r.depth), String(r.dice), pct(r.chance), pct(r.turnChance), pct(r.cumulative)]),
+      ];
+      const widths = rows[0].map((_, i) => Math.max(...rows.map((r) => r[i].length)));
+      for (const row of rows) console.log(row.map((cell, i) => cell.padEnd(widths[i])).join("  ").trimEnd());
+      const at = (depth: number | null) => (depth === null ? `beyond turn ${turns}` : `turn ${depth}`);
+      console.log(`\nMedian first trigger: ${at(odds.median)}; 90th percentile: ${at(odds.p90)}`);
+      console.log(`Expected triggers in ${turns} turns: ${odds.expectedTriggers.toFixed(2)}`);
+      console.log("First trigger: chance at that depth if none yet. Any trigger: chance after resets and cooldowns.");
+      break;
+    }
+
+    case "simulate": {
+      const turns = Number(parseArg("--turns") ?? 100);
+      const runs = Number(parseArg("--runs") ?? 10000);
+      if (!Number.isInteger(turns) || turns < 1 || !Number.isInteger(runs) || runs < 1) {
+        console.error("Error: --turns and --runs must be integers >= 1");
+        process.exit(1);
+      }
+      const seed = parseArg("--seed");
+      const valued = new Set(["--turns", "--runs", "--seed"]);
+      const names = args.slice(1).filter((a, i) => !a.startsWith("--") && !valued.has(args[i]));
+      const registered = await listSlots();
+      const unknown = names.filter((n) => !registered.some((s) => s.name === n));
+      if (unknown.length > 0) {
+        console.error(`Error: slot not found: ${unknown.join(", ")}`);
+        process.exit(1);
+      }
+      const slots = names.length > 0 ? registered.filter((s) => names.includes(s.name)) : registered;
+      if (slots.length === 0) {
+        console.log("No slots registered.");
+        break;
+      }
+      const result = await simulate(slots, { turns, runs, ...(seed ? { seed } : {}) });
+      if (hasFlag("--json")) {
+        console.log(JSON.stringify(result, null, 2));
+        break;
+      }
+      console.log(`Simulated ${runs} runs of ${turns} turns (seed ${result.seed}): conditions hold, windows open, turns take no time.`);
+      for (const s of slots) {
+        const missing = (s.requires ?? []).filter((r) => !slots.some((o) => o.name === r));
+        if (missing.length > 0) console.log(`Note: ${s.name} requires ${missing.join(", ")}, not simulated, so it stays dormant`);
+      }
+      const step = Math.max(1, Math.round(turns / 10));
+      const marks = [...new Set([...Array.from({ length: Math.floor(turns / step) }, (_, i) => (i + 1) * step), turns])];
+      const table = (title: string, curve: (c: (typeof result.slots)[number]) => number[]) => {
+        const rows = [["Turn", ...result.slots.map((c) => c.slot)], ...marks.map((t) => [String(t), ...result.slots.map((c) => `${curve(c)[t - 1].toFixed(1)}%`)])];
+        const widths = rows[0].map((_, i) => Math.max(...rows.map((r) => r[i].length)));
+        console.log(`\n${title}`);
+        for (const row of rows) console.log(row.map((cell, i) => cell.padEnd(widths[i])).join("  ").trimEnd());
+      };
+      table("Chance of at least one trigger by turn:", (c) => c.cumulative);
+      table("Chance of a trigger on the turn:", (c) => c.perTurn);
+      console.log("");
+      for (const c of result.slots) {
+        const first = c.meanFirstTrigger === null ? "never triggered" : `first trigger at turn ${c.meanFirstTrigger.toFixed(1)} on average`;
+        console.log(`${c.slot}: ${first} (none in ${c.never.toFixed(1)}% of runs), ${c.triggersPerRun.toFixed(2)} triggers per run`);
+      }
+      if (result.coTriggers.length > 0) {
+        console.log("\nTriggering together:");
+        const share = (n: number | null, name: string) => (n === null ? `${name} never triggered` : `${n.toFixed(1)}% of ${name}'s triggers`);
+        for (const p of result.coTriggers) {
+          console.log(`  ${p.a} + ${p.b}: ${p.together.toFixed(2)}% of turns (${share(p.givenA, p.a)}, ${share(p.givenB, p.b)})`);
+        }
+      }
+      break;
+    }
+
     default:
       console.error(`Unknown command: ${command}`);
       printUsage();
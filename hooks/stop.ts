@@ -31,12 +31,17 @@ const { listSlots, checkAllSlots, parseStopHookInput } = mod;
 // silently dropping a trigger AFTER its reset/cooldown side effects already ran
 // (review finding #2). Prefer the shared renderer when present; fall back otherwise.
 function localRenderTrigger(result: any, slot: any): string {
-  const msg = String(slot.onTrigger.message)
-    .replace("{rolls}", result.rolls.join(", "))
+  const template = (result.face !== undefined && slot.faceMessages?.[result.face]) || slot.onTrigger.message;
+  const msg = String(template)
+    .replace("{rolls}", (result.labels ?? result.rolls).join(", "))
     .replace("{best}", String(result.best))
+    .replace("{sum}", String(result.total ?? result.rolls.reduce((a: number, b: number) => a + b, 0)))
+    .replace("{hits}", String(result.hits ?? 0))
+    .replace("{face}", result.face ?? String(result.triggerValue ?? result.best))
     .replace("{diceCount}", String(result.diceCount))
     .replace("{slotName}", result.slotName);
-  return slot.flavor !== false ? `🎲 Nat ${result.best}! ${msg}` : msg;
+  if (slot.flavor === false || result.forced) return msg;
+  return slot.type === "deck" ? `🃏 Hit card! ${msg}` : `🎲 Nat ${result.best}! ${msg}`;
 }
 const renderTrigger =
   typeof (mod as any).renderTrigger === "function" ? (mod as any).renderTrigger : localRenderTrigger;
@@ -53,24 +58,50 @@ async function main() {
     const slots = await listSlots();
     const slotMap = new Map(slots.map((s: any) => [s.name, s]));
     const results = await checkAllSlots(ctx);
-    const triggered: string[] = [];
+    const triggered: Array<{ priority: number; message: string }> = [];
 
     for (const result of results) {
       const slot = slotMap.get(result.slotName);
       if (!slot) continue;
 
-      if (result.triggered) {
-        triggered.push(renderTrigger(result, slot));
+      if (result.triggered && slot.veto) {
+        // A veto holds nudges back; it is never one itself (user-only).
+        const held = result.vetoed?.length ? `, held back ${result.vetoed.join(", ")}` : "";
+        console.log(`${slot.name}: veto${held}`);
+      } else if (result.triggered) {
+        triggered.push({ priority: slot.priority ?? 0, message: renderTrigger(result, slot) });
+      } else if (result.vetoedBy) {
+        console.log(`${slot.name}: hit, vetoed by ${result.vetoedBy}`);
+      } else if (result.suppressedBy) {
+        console.log(`${slot.name}: hit, suppressed by ${result.suppressedBy} (group ${slot.group})`);
       } else if (result.diceCount > 0) {
         // Log non-trigger rolls (visible to user only via stdout)
-        console.log(
-          `${slot.name}: ${result.diceCount}d${slot.die} = [${result.rolls.join(", ")}] (best: ${result.best})`
-        );
+        if (slot.type === "expression" && result.total !== undefined) {
+          console.log(`${slot.name}: ${slot.expression} = [${result.rolls.join(", ")}] → ${result.total}`);
+        } else if (slot.type === "deck" && result.deck) {
+          console.log(`${slot.name}: drew a miss (${result.deck.remaining} cards left, ${result.deck.hits} hits)`);
+        } else if (result.percentile !== undefined) {
+          console.log(`${slot.name}: drew ${result.percentile} (needed under ${result.probability}%)`);
+        } else {
+          // Inline rather than formatRolls: the installed module may predate it.
+          const shown = (result.labels ?? result.rolls)
+            .map((r: number | string, i: number) => (result.exploded?.includes(i) ? `${r}!` : String(r)))
+            .join(", ");
+          const summary =
+            result.total !== undefined
+              ? `sum: ${result.total}`
+              : result.hits !== undefined
+                ? `hits: ${result.hits}/${slot.minHits}`
+                : `best: ${result.best}`;
+          console.log(`${slot.name}: ${result.diceCount}d${slot.die} = [${shown}] (${summary})`);
+        }
       }
     }
 
     if (triggered.length > 0) {
-      console.error(triggered.join("\n"));
+      // Highest priority first; the sort is stable, so equal priorities keep check order.
+      triggered.sort((a, b) => b.priority - a.priority);
+      console.error(triggered.map((t) => t.message).join("\n"));
       process.exit(2);
     }
 
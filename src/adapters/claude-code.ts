@@ -8,13 +8,21 @@
 
 import type { CheckContext } from "../types";
 import type { CoreCheckContext, DiceHost } from "../core/contracts";
-import { listSlots, getSlot } from "../registry";
+import { listSlots, getSlot, getBaseDir } from "../registry";
 import { loadState, saveState, clearState } from "../state";
-import { hasCooldown, markTriggered, clearCooldown } from "../cooldown";
-import { extractSessionFromPath, getSessionId } from "../session";
-import { countExchanges } from "../transcript";
+import { hasCooldown, loadCooldown, markTriggered, clearCooldown } from "../cooldown";
+import { extractSessionFromPath, getSessionId, getProjectHash } from "../session";
+import { countExchanges, readLastTurn } from "../transcript";
+import { type LastTurn, conditionMet } from "../conditions";
+import { activationContext } from "../core/activation";
+import { providerRng, resolveRngProvider } from "../rng";
+import { appendRollHistory } from "../history";
 
-/** Build the Claude Code DiceHost from the existing file-store modules. */
+/**
+ * Build the Claude Code DiceHost from the existing file-store modules. Its RNG
+ * is the configured provider (AGENT_DICE_RNG or config.json; see src/rng.ts),
+ * and every check is logged to `<base>/history/` (see src/history.ts).
+ */
 export function createClaudeHost(): DiceHost {
   return {
     listSlots,
@@ -23,9 +31,12 @@ export function createClaudeHost(): DiceHost {
     saveState,
     clearState,
     hasCooldown,
+    loadCooldown,
     markTriggered,
     clearCooldown,
-    // rng omitted → engine uses Math.random by default.
+    // math → rng omitted, so the engine uses Math.random by default.
+    ...providerRng(resolveRngProvider(getBaseDir()).provider),
+    appendHistory: async (sessionId, records) => appendRollHistory(getBaseDir(), sessionId, records),
   };
 }
 
@@ -43,6 +54,15 @@ export function resolveSessionId(ctx: CheckContext): string {
   return getSessionId();
 }
 
+/**
+ * Whether Claude Code is running interactively. It exports its entrypoint to
+ * hooks; `claude -p` and the SDKs report `sdk-*`. Unset (the CLI run by hand)
+ * counts as interactive.
+ */
+export function claudeInteractive(env: Record<string, string | undefined> = process.env): boolean {
+  return !(env.CLAUDE_CODE_ENTRYPOINT ?? "").startsWith("sdk");
+}
+
 /**
  * Resolve a Claude CheckContext into the engine's CoreCheckContext.
  *
@@ -54,13 +74,24 @@ export function resolveSessionId(ctx: CheckContext): string {
  * Depth resolves to `undefined` when there is no transcript — the engine then
  * applies the correct per-operation default (0 for accumulator reads / trigger
  * reset, -1 sentinel for manual resetSlot). Do NOT coerce to 0 here (D7).
+ *
+ * Project-scoped slots are keyed by the project hash (the same 12-char hash
+ * used as the fallback session id); global slots share one key.
+ *
+ * Slot conditions read the transcript's last turn, also lazily and at most
+ * once; without a transcript no condition holds.
+ *
+ * Activation windows see the local clock and this process's environment.
  */
 export function resolveCoreContext(ctx: CheckContext): CoreCheckContext {
   const sessionId = resolveSessionId(ctx);
   let resolved = false;
   let depth: number | undefined;
+  let turn: Promise<LastTurn> | undefined;
   return {
     sessionId,
+    scopeKeys: { project: `project-${getProjectHash()}`, global: "global" },
+    activation: activationContext(new Date(), process.env, claudeInteractive()),
     async getCurrentDepth() {
       if (!resolved) {
         depth = ctx.transcriptPath ? await countExchanges(ctx.transcriptPath) : undefined;
@@ -68,5 +99,10 @@ export function resolveCoreContext(ctx: CheckContext): CoreCheckContext {
       }
       return depth;
     },
+    async matchesCondition(when) {
+      if (!ctx.transcriptPath) return false;
+      turn ??= readLastTurn(ctx.transcriptPath);
+      return conditionMet(when, await turn);
+    },
   };
 }
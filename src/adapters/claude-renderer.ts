@@ -4,25 +4,61 @@
  * Single home for the placeholder substitution that was duplicated between
  * hooks/stop.ts and src/hook-helpers.ts (U6). Two surfaces with intentionally
  * different output are preserved exactly:
- *   - applyPlaceholders: the raw {rolls}/{best}/{diceCount}/{slotName} expansion
- *     (used by exitWithResult — no flavor prefix).
- *   - renderTrigger: applyPlaceholders + the "🎲 Nat <best>!" flavor prefix when
- *     slot.flavor !== false (used by the Stop hook).
+ *   - applyPlaceholders / triggerMessage: the raw placeholder expansion, with a
+ *     custom die's per-face message (used by exitWithResult — no flavor prefix).
+ *   - renderTrigger: triggerMessage + the "🎲 Nat <best>!" flavor prefix when
+ *     slot.flavor !== false (used by the Stop hook). Expression slots read
+ *     "🎲 2d6+1 → 9!" and sum-mode slots "🎲 4d6 → 17!" instead, since their
+ *     total — not one die — triggered; minHits slots read "🎲 3 hits on 5d10!"
+ *     and custom dice name their face ("🎲 refactor!"). A forced trigger
+ *     (pity timer or scheduled slot) rolled nothing that earned it, so it gets
+ *     no flavor at all.
  */
 
 import type { DiceResult, DiceSlotConfig } from "../types";
+import { countHits, isSumMode, sumRolls } from "../roll";
 
-/** Expand the {rolls}/{best}/{diceCount}/{slotName} placeholders in a message. */
-export function applyPlaceholders(message: string, result: DiceResult): string {
+/**
+ * Expand the {rolls}/{best}/{sum}/{hits}/{face}/{diceCount}/{slotName}
+ * placeholders in a message. {hits} is the engine's count when reported, else
+ * recounted against the slot's target (0 without a slot). {face} is the
+ * triggering custom face, else the trigger value.
+ */
+export function applyPlaceholders(message: string, result: DiceResult, slot?: DiceSlotConfig): string {
+  const hits = result.hits ?? (slot ? countHits(result.rolls, slot.target, slot.targetMode) : 0);
   return message
-    .replace("{rolls}", result.rolls.join(", "))
+    .replace("{rolls}", (result.labels ?? result.rolls).join(", "))
     .replace("{best}", String(result.best))
+    .replace("{sum}", String(result.total ?? sumRolls(result.rolls)))
+    .replace("{hits}", String(hits))
+    .replace("{face}", result.face ?? String(result.triggerValue ?? result.best))
     .replace("{diceCount}", String(result.diceCount))
     .replace("{slotName}", result.slotName);
 }
 
+/**
+ * The slot's trigger message with placeholders expanded. A custom die's
+ * triggering face picks its own message from faceMessages when it has one.
+ */
+export function triggerMessage(result: DiceResult, slot: DiceSlotConfig): string {
+  const template = (result.face !== undefined && slot.faceMessages?.[result.face]) || slot.onTrigger.message;
+  return applyPlaceholders(template, result, slot);
+}
+
+/** `d20`, or `d[-1,0,0,1]` for a custom die. */
+function dieName(slot: DiceSlotConfig): string {
+  return slot.faces?.length ? `d[${slot.faces.join(",")}]` : `d${slot.die}`;
+}
+
 /** Full Stop-hook trigger line: placeholders plus the optional dice-flavor prefix. */
 export function renderTrigger(result: DiceResult, slot: DiceSlotConfig): string {
-  const msg = applyPlaceholders(slot.onTrigger.message, result);
-  return slot.flavor !== false ? `🎲 Nat ${result.best}! ${msg}` : msg;
+  const msg = triggerMessage(result, slot);
+  if (slot.flavor === false || result.forced) return msg;
+  if (slot.type === "expression" && result.total !== undefined) return `🎲 ${slot.expression} → ${result.total}! ${msg}`;
+  if (slot.type === "deck" && result.deck) return `🃏 Hit card (${result.deck.remaining} left)! ${msg}`;
+  if (result.percentile !== undefined) return `🎲 ${result.percentile} under ${result.probability}%! ${msg}`;
+  if (isSumMode(slot.targetMode) && result.total !== undefined) return `🎲 ${result.diceCount}${dieName(slot)} → ${result.total}! ${msg}`;
+  if ((slot.minHits ?? 1) > 1 && result.hits !== undefined) return `🎲 ${result.hits} hits on ${result.diceCount}${dieName(slot)}! ${msg}`;
+  if (result.face !== undefined) return `🎲 ${result.face}! ${msg}`;
+  return `🎲 Nat ${result.best}! ${msg}`;
 }
@@ -6,10 +6,35 @@
  */
 
 import type { ExtensionAPI } from "@earendil-works/pi-coding-agent";
+import type { ActivationWindow, Advantage, CooldownSpec, DiceSlotConfig, SlotCondition, SlotScope, TargetMode } from "../../types";
 import * as engine from "../../core/engine";
-import { createPiHost, piContext } from "./host";
+import { createPiHost, piContext, piActivation } from "./host";
 import { sessionDepth } from "./depth";
-import { registerSlot, unregisterSlot, getSlot, listSlots } from "./store";
+import { lastTurn } from "./turn";
+import { registerSlot, unregisterSlot, getSlot, listSlots, getBaseDir } from "./store";
+import {
+  parseTarget,
+  formatTarget,
+  formatRolls,
+  slotConfigError,
+  isSumMode,
+  parseFaces,
+  parseFaceTarget,
+  defaultFaceTarget,
+} from "../../roll";
+import { parseExpression, formatExpressionRoll } from "../../core/expression";
+import { parseCurve, formatCurve } from "../../core/accumulator";
+import { parseDepthList, formatSchedule } from "../../core/schedule";
+import { cooldownError, defaultCooldown, parseDuration } from "../../core/cooldown";
+import { chainError } from "../../core/chain";
+import { type PauseSpec, pausedConfig, resumedConfig, pauseStatus, formatPause } from "../../core/pause";
+import { conditionError, formatCondition } from "../../conditions";
+import { activationError, formatActivation } from "../../core/activation";
+import { poolError, poolLabel, poolMates } from "../../core/pool";
+import { parseRngProvider } from "../../core/rng";
+import { resolveRngProvider, saveRngProvider } from "../../rng";
+import { readRollHistory } from "../../history";
+import { formatRecord } from "../../core/history";
 
 /** Tokenize a command arg string, honoring double-quotes (for --message "..."). */
 function tokenize(s: string): string[] {
@@ -24,13 +49,38 @@ function flagVal(tokens: string[], flag: string): string | undefined {
   const i = tokens.indexOf(flag);
   return i >= 0 && i + 1 < tokens.length ? tokens[i + 1] : undefined;
 }
+/** Every value of a repeatable flag, in order. */
+function flagVals(tokens: string[], flag: string): string[] {
+  return tokens.flatMap((tok, i) => (tok === flag && i + 1 < tokens.length ? [tokens[i + 1]] : []));
+}
 const hasFlag = (tokens: string[], flag: string): boolean => tokens.includes(flag);
 
+/** `d20`, `d6!`, `d20 advantage x3`, `d[-1,0,0,1]`, `deck 1/20`, `curve linear:slope=2`, `every 10`, or the notation. */
+function diceLabel(cfg: DiceSlotConfig): string {
+  if (cfg.type === "expression") return String(cfg.expression);
+  if (cfg.type === "scheduled") return formatSchedule(cfg);
+  if (cfg.type === "deck") return `deck ${cfg.deckHits ?? 1}/${cfg.deckSize ?? 20}`;
+  if (cfg.curve) return `curve ${formatCurve(cfg.curve)}`;
+  if (cfg.faces?.length) return `d[${cfg.faces.join(",")}]`;
+  const adv = cfg.advantage && cfg.advantage !== "none" ? ` ${cfg.advantage}${cfg.advantageDice ? ` x${cfg.advantageDice}` : ""}` : "";
+  return `d${cfg.die}${cfg.explode ? "!" : ""}${adv}`;
+}
+
 const USAGE = [
-  "/dice register <name> [--die N --target N --target-mode exact|gte|lte --type accumulator|fixed|single",
-  "                       --accumulation-rate N --max-dice N --fixed-count N --cooldown per-session|none",
+  "/dice register <name> [--die N --target N|N,M|A..B --target-mode exact|gte|lte|sum-exact|sum-gte|sum-lte --type accumulator|fixed|single|expression|deck|scheduled",
+  "                       --accumulation-rate N --max-dice N --fixed-count N --expression 2d6+1 --deck-size N --deck-hits K --every N --at-depths 10,25,50",
+  "                       --curve linear:slope=2|exponential:growth=1.15|logistic:midpoint=20 --curve-marks 25,50,75",
+  "                       --advantage none|advantage|disadvantage --advantage-dice N --explode --explode-depth N --min-hits K",
+  "                       --faces f,f,... --weights w,w,... --face-message face=\"...\" --guarantee-after N",
+  "                       --cooldown per-session|none|turns:N|duration:30m|max:N --refractory linear:slope=10",
+  "                       --scope session|project|global --group NAME --priority N --pool NAME|independent --requires a,b --requires-within N",
+  "                       --when-assistant REGEX --when-tool-failed TOOL|* --when-file-touched GLOB --veto",
+  "                       --days weekdays|weekends|mon-fri --hours 9-18 --skip-ci --interactive-only --term-program REGEX",
   "                       --no-clear-on-start --no-reset-on-trigger --no-flavor --message \"...\"]",
   "/dice list | status <name> | roll <name> | reset <name> | clear <name> | unregister <name>",
+  "/dice pause <name> [--for 2h | --session] | resume <name>",
+  "/dice rng [math|crypto|seeded] | explain [depth]",
+  "/dice history [slot] [--all --limit N]",
 ].join("\n");
 
 /** Register the `/dice` command. Depth for status/roll is read from the session. */
@@ -40,7 +90,7 @@ export function registerDiceCommands(pi: ExtensionAPI): void {
     handler: async (args, ctx) => {
       const host = createPiHost();
       const sessionId = ctx.sessionManager.getSessionId();
-      const cctx = () => piContext(sessionId, sessionDepth(ctx));
+      const cctx = () => piContext(sessionId, sessionDepth(ctx), ctx.cwd, () => lastTurn(ctx), piActivation(ctx.hasUI));
       const t = tokenize(args);
       const sub = (t[0] ?? "help").toLowerCase();
       const name = t[1];
@@ -62,68 +112,326 @@ export function registerDiceCommands(pi: ExtensionAPI): void {
             // Validate AFTER coercion — reject NaN/out-of-range numbers and unknown
             // enum values rather than persisting a corrupt slot that silently
             // misbehaves (review #4). The Claude CLI has the same gap (deferred).
-            const die = Number(flagVal(t, "--die") ?? "20");
-            const target = Number(flagVal(t, "--target") ?? "20");
+            const rawFaces = flagVal(t, "--faces");
+            const faces = rawFaces === undefined ? undefined : parseFaces(rawFaces);
+            if (faces === null) {
+              notify("Invalid --faces: must be a comma-separated list (-1,0,0,1 or refactor,test,docs)", "error");
+              return;
+            }
+            const die = faces ? faces.length : Number(flagVal(t, "--die") ?? "20");
+            const rawTarget = flagVal(t, "--target");
+            const target = faces
+              ? rawTarget === undefined
+                ? defaultFaceTarget(faces)
+                : parseFaceTarget(rawTarget, faces)
+              : parseTarget(rawTarget ?? "20");
+            const weights = flagVal(t, "--weights")?.split(",").map(Number);
             const accumulationRate = Number(flagVal(t, "--accumulation-rate") ?? "7");
             const maxDice = Number(flagVal(t, "--max-dice") ?? "100");
             const fixedCount = Number(flagVal(t, "--fixed-count") ?? "1");
             const targetMode = flagVal(t, "--target-mode") ?? "exact";
             const type = flagVal(t, "--type") ?? "accumulator";
-            const cooldown = flagVal(t, "--cooldown") ?? "per-session";
+            const veto = hasFlag(t, "--veto");
+            const cooldown =
+              flagVal(t, "--cooldown") ??
+              defaultCooldown({ type: type as DiceSlotConfig["type"], veto, refractory: flagVal(t, "--refractory") });
+            const expression = flagVal(t, "--expression");
+            const advantage = flagVal(t, "--advantage") ?? "none";
+            const advantageDice = Number(flagVal(t, "--advantage-dice") ?? "2");
+            const explode = hasFlag(t, "--explode");
+            const explodeDepth = Number(flagVal(t, "--explode-depth") ?? "5");
+            const deckSize = Number(flagVal(t, "--deck-size") ?? "20");
+            const deckHits = Number(flagVal(t, "--deck-hits") ?? "1");
+            const rawCurve = flagVal(t, "--curve");
+            const curveMarks = flagVal(t, "--curve-marks")?.split(",").map(Number);
+            const rawEvery = flagVal(t, "--every");
+            const every = rawEvery === undefined ? undefined : Number(rawEvery);
+            const rawAtDepths = flagVal(t, "--at-depths");
+            const atDepths = rawAtDepths === undefined ? undefined : parseDepthList(rawAtDepths);
+            const rawMinHits = flagVal(t, "--min-hits");
+            const minHits = rawMinHits === undefined ? undefined : Number(rawMinHits);
+            const rawGuarantee = flagVal(t, "--guarantee-after");
+            const guaranteeAfter = rawGuarantee === undefined ? undefined : Number(rawGuarantee);
 
             for (const [flag, val, min] of [
-              ["--die", die, 1],
-              ["--target", target, 1],
               ["--accumulation-rate", accumulationRate, 1],
               ["--max-dice", maxDice, 1],
               ["--fixed-count", fixedCount, 1],
+              ["--advantage-dice", advantageDice, 2],
+              ["--explode-depth", explodeDepth, 1],
+              ["--deck-size", deckSize, 1],
+              ["--deck-hits", deckHits, 1],
+              ...(minHits !== undefined ? [["--min-hits", minHits, 1]] : []),
+              ...(guaranteeAfter !== undefined ? [["--guarantee-after", guaranteeAfter, 1]] : []),
+              ...(every !== undefined ? [["--every", every, 1]] : []),
             ] as Array<[string, number, number]>) {
               if (!Number.isFinite(val) || val < min) {
                 notify(`Invalid ${flag}: must be a number >= ${min}`, "error");
                 return;
               }
             }
-            if (target > die) {
-              notify(`Invalid --target ${target}: exceeds die size ${die}`, "error");
+            if (target === null) {
+              notify(
+                faces
+                  ? `Invalid --target: must name faces of the die (${faces.join(",")})`
+                  : "Invalid --target: must be a number >= 1, a face list (1,20) or a range (12..14)",
+                "error"
+              );
+              return;
+            }
+            const configProblem = slotConfigError({ type, targetMode, die, target, faces: faces ?? undefined });
+            if (configProblem) {
+              notify(`Invalid ${configProblem}`, "error");
+              return;
+            }
+            if (type === "scheduled") {
+              if (every === undefined && atDepths === undefined) {
+                notify("Invalid --type scheduled: --every or --at-depths is required", "error");
+                return;
+              }
+              if ((every !== undefined && !Number.isInteger(every)) || atDepths === null) {
+                notify("Invalid --every/--at-depths: must be whole depths >= 1 (e.g. --every 10, --at-depths 10,25,50)", "error");
+                return;
+              }
+            } else if (rawEvery !== undefined || rawAtDepths !== undefined) {
+              notify("Invalid --every/--at-depths: needs --type scheduled", "error");
+              return;
+            }
+            if (type !== "deck" && (hasFlag(t, "--deck-size") || hasFlag(t, "--deck-hits"))) {
+              notify("Invalid --deck-size/--deck-hits: needs --type deck", "error");
+              return;
+            }
+            if (deckHits > deckSize) {
+              notify("Invalid --deck-hits: cannot exceed --deck-size", "error");
+              return;
+            }
+            if (type === "expression") {
+              if (!expression) {
+                notify("Invalid --type expression: --expression is required", "error");
+                return;
+              }
+              try {
+                parseExpression(expression);
+              } catch (err) {
+                notify((err as Error).message, "error");
+                return;
+              }
+            }
+            if (!["none", "advantage", "disadvantage"].includes(advantage)) {
+              notify(`Invalid --advantage "${advantage}" (none|advantage|disadvantage)`, "error");
+              return;
+            }
+            if (type === "expression" && advantage !== "none") {
+              notify("Invalid --advantage: expression slots use kh/kl in the notation instead", "error");
+              return;
+            }
+            if (type === "expression" && explode) {
+              notify("Invalid --explode: expression slots cannot explode", "error");
+              return;
+            }
+            if (minHits !== undefined && (!["fixed", "accumulator"].includes(type) || isSumMode(targetMode as TargetMode))) {
+              notify("Invalid --min-hits: needs a fixed or accumulator pool with a per-die target mode", "error");
+              return;
+            }
+            if (weights && (!faces || weights.length !== faces.length || weights.some((w) => !Number.isFinite(w) || w <= 0))) {
+              notify("Invalid --weights: needs --faces and one positive weight per face", "error");
+              return;
+            }
+            if (type === "scheduled" && (advantage !== "none" || explode || faces)) {
+              notify("Invalid --type scheduled: rolls no dice, so not with --advantage, --explode, or --faces", "error");
+              return;
+            }
+            if (faces && (type === "expression" || advantage !== "none" || explode)) {
+              notify("Invalid --faces: cannot be combined with expression slots, --advantage, or --explode", "error");
+              return;
+            }
+            const faceMessages: Record<string, string> = {};
+            for (const entry of flagVals(t, "--face-message")) {
+              const eq = entry.indexOf("=");
+              const label = eq > 0 ? entry.slice(0, eq) : "";
+              if (!faces || !faces.some((f) => String(f) === label)) {
+                notify(`Invalid --face-message "${entry}": must be <face>=<message> for a face in --faces`, "error");
+                return;
+              }
+              faceMessages[label] = entry.slice(eq + 1);
+            }
+            let curve: DiceSlotConfig["curve"];
+            if (rawCurve !== undefined) {
+              if (type !== "accumulator") {
+                notify("Invalid --curve: applies to accumulator slots only", "error");
+                return;
+              }
+              try {
+                curve = parseCurve(rawCurve);
+              } catch (err) {
+                notify((err as Error).message, "error");
+                return;
+              }
+              if (advantage !== "none" || explode || faces || minHits !== undefined) {
+                notify("Invalid --curve: replaces dice, so not with --advantage, --explode, --faces, or --min-hits", "error");
+                return;
+              }
+            }
+            if (curveMarks && (!curve || curveMarks.some((m) => !Number.isFinite(m) || m <= 0 || m > 100))) {
+              notify("Invalid --curve-marks: needs --curve and percents in (0, 100]", "error");
+              return;
+            }
+            if (guaranteeAfter !== undefined) {
+              if (!Number.isInteger(guaranteeAfter) || !["accumulator", "single"].includes(type)) {
+                notify("Invalid --guarantee-after: needs a whole number of turns on an accumulator or single slot", "error");
+                return;
+              }
+              if (type === "accumulator" && hasFlag(t, "--no-reset-on-trigger")) {
+                notify("Invalid --guarantee-after: counts from the last trigger, so not with --no-reset-on-trigger", "error");
+                return;
+              }
+            }
+            const scope = flagVal(t, "--scope") ?? "session";
+            if (!["session", "project", "global"].includes(scope)) {
+              notify(`Invalid --scope "${scope}" (session|project|global)`, "error");
+              return;
+            }
+            const group = flagVal(t, "--group");
+            const rawPriority = flagVal(t, "--priority");
+            const priority = rawPriority === undefined ? undefined : Number(rawPriority);
+            if (group !== undefined && group.trim() === "") {
+              notify("Invalid --group: needs a name", "error");
+              return;
+            }
+            if (priority !== undefined && !Number.isInteger(priority)) {
+              notify("Invalid --priority: must be an integer", "error");
+              return;
+            }
+            const requires = flagVal(t, "--requires")?.split(",").map((s) => s.trim()).filter(Boolean);
+            const rawWithin = flagVal(t, "--requires-within");
+            const requiresWithin = rawWithin === undefined ? undefined : Number(rawWithin);
+            const badChain = chainError({ name: slotName, requires, requiresWithin });
+            if (badChain) {
+              notify(`Invalid chain: ${badChain}`, "error");
+              return;
+            }
+            const registered = new Set((await listSlots()).map((s) => s.name));
+            const unknown = (requires ?? []).filter((r) => !registered.has(r));
+            if (unknown.length > 0) {
+              notify(`Invalid --requires: no slot named ${unknown.join(", ")}`, "error");
               return;
             }
-            if (!["exact", "gte", "lte"].includes(targetMode)) {
-              notify(`Invalid --target-mode "${targetMode}" (exact|gte|lte)`, "error");
+            const assistantMatches = flagVal(t, "--when-assistant");
+            const toolFailed = flagVal(t, "--when-tool-failed");
+            const fileTouched = flagVal(t, "--when-file-touched");
+            const when: SlotCondition | undefined =
+              assistantMatches === undefined && toolFailed === undefined && fileTouched === undefined
+                ? undefined
+                : {
+                    ...(assistantMatches !== undefined ? { assistantMatches } : {}),
+                    ...(toolFailed !== undefined ? { toolFailed } : {}),
+                    ...(fileTouched !== undefined ? { fileTouched } : {}),
+                  };
+            const badCondition = when ? conditionError(when) : null;
+            if (badCondition) {
+              notify(`Invalid condition: ${badCondition}`, "error");
               return;
             }
-            if (!["accumulator", "fixed", "single"].includes(type)) {
-              notify(`Invalid --type "${type}" (accumulator|fixed|single)`, "error");
+            const days = flagVal(t, "--days");
+            const hours = flagVal(t, "--hours");
+            const termProgram = flagVal(t, "--term-program");
+            const skipCi = hasFlag(t, "--skip-ci");
+            const interactiveOnly = hasFlag(t, "--interactive-only");
+            const active: ActivationWindow | undefined =
+              days === undefined && hours === undefined && termProgram === undefined && !skipCi && !interactiveOnly
+                ? undefined
+                : {
+                    ...(days !== undefined ? { days } : {}),
+                    ...(hours !== undefined ? { hours } : {}),
+                    ...(skipCi ? { skipCi } : {}),
+                    ...(interactiveOnly ? { interactiveOnly } : {}),
+                    ...(termProgram !== undefined ? { termProgram } : {}),
+                  };
+            const badActivation = active ? activationError(active) : null;
+            if (badActivation) {
+              notify(`Invalid activation window: ${badActivation}`, "error");
               return;
             }
-            if (!["per-session", "none"].includes(cooldown)) {
-              notify(`Invalid --cooldown "${cooldown}" (per-session|none)`, "error");
+            if (cooldownError(cooldown)) {
+              notify(`Invalid --cooldown "${cooldown}" (per-session|none|turns:N|duration:30m|max:N)`, "error");
               return;
             }
+            let refractory: DiceSlotConfig["refractory"];
+            const rawRefractory = flagVal(t, "--refractory");
+            if (rawRefractory !== undefined) {
+              try {
+                refractory = parseCurve(rawRefractory);
+              } catch (err) {
+                notify((err as Error).message, "error");
+                return;
+              }
+            }
+
+            const pool = flagVal(t, "--pool");
+            if (pool !== undefined) {
+              const candidate = { name: slotName, type, die, ...(faces ? { faces, ...(weights ? { weights } : {}) } : {}), ...(curve ? { curve } : {}), pool };
+              const badPool = poolError(candidate as DiceSlotConfig, await listSlots());
+              if (badPool) {
+                notify(`Invalid --pool: ${badPool}`, "error");
+                return;
+              }
+            }
 
             const cfg = registerSlot({
               name: slotName,
               die,
               target,
-              targetMode: targetMode as "exact" | "gte" | "lte",
-              type: type as "accumulator" | "fixed" | "single",
+              targetMode: targetMode as TargetMode,
+              type: type as DiceSlotConfig["type"],
               accumulationRate,
               maxDice,
               fixedCount,
-              cooldown: cooldown as "per-session" | "none",
+              ...(type === "expression" ? { expression } : {}),
+              ...(type === "deck" ? { deckSize, deckHits } : {}),
+              ...(every !== undefined ? { every } : {}),
+              ...(atDepths ? { atDepths } : {}),
+              ...(curve ? { curve, ...(curveMarks ? { curveMarks } : {}) } : {}),
+              ...(advantage !== "none"
+                ? { advantage: advantage as Advantage, ...(advantageDice !== 2 ? { advantageDice } : {}) }
+                : {}),
+              ...(explode ? { explode, ...(explodeDepth !== 5 ? { explodeDepth } : {}) } : {}),
+              ...(minHits !== undefined ? { minHits } : {}),
+              ...(faces ? { faces, ...(weights ? { weights } : {}) } : {}),
+              ...(Object.keys(faceMessages).length > 0 ? { faceMessages } : {}),
+              ...(guaranteeAfter !== undefined ? { guaranteeAfter } : {}),
+              cooldown: cooldown as CooldownSpec,
+              ...(scope !== "session" ? { scope: scope as SlotScope } : {}),
+              ...(group !== undefined ? { group } : {}),
+              ...(priority !== undefined ? { priority } : {}),
+              ...(pool !== undefined ? { pool } : {}),
+              ...(requires ? { requires, ...(requiresWithin !== undefined ? { requiresWithin } : {}) } : {}),
+              ...(when ? { when } : {}),
+              ...(active ? { active } : {}),
+              ...(veto ? { veto } : {}),
+              ...(refractory ? { refractory } : {}),
               clearOnSessionStart: !hasFlag(t, "--no-clear-on-start"),
               resetOnTrigger: !hasFlag(t, "--no-reset-on-trigger"),
               flavor: !hasFlag(t, "--no-flavor"),
               onTrigger: { message: flagVal(t, "--message") ?? `Dice trigger: ${slotName}` },
             });
-            notify(`Registered: ${cfg.name} (${cfg.type}, d${cfg.die}, target=${cfg.target} ${cfg.targetMode})`);
+            notify(`Registered: ${cfg.name} (${cfg.type}, ${diceLabel(cfg)}, target=${formatTarget(cfg.target)} ${cfg.targetMode})`);
             return;
           }
           case "list": {
             const slots = await listSlots();
+            const mates = poolMates(slots);
             notify(
               slots.length === 0
                 ? "No slots registered."
-                : slots.map((s) => `  ${s.name} (${s.type}, ${s.die}-sided, target=${s.target} ${s.targetMode})`).join("\n")
+                : slots
+                    .map((s) => {
+                      const rolls = ["expression", "deck", "scheduled"].includes(s.type) || s.curve ? diceLabel(s) : `${s.die}-sided`;
+                      const pause = pauseStatus(s, sessionId, Date.now());
+                      const shared = mates.get(s.name) ?? [];
+                      const pool = s.pool !== undefined || shared.length > 0 ? `, pool ${poolLabel(s)}${shared.length > 0 ? ` with ${shared.join(", ")}` : ""}` : "";
+                      return `  ${s.name} (${s.type}, ${rolls}, target=${formatTarget(s.target)} ${s.targetMode}${pool})${pause ? ` — ${formatPause(pause)}` : ""}`;
+                    })
+                    .join("\n")
             );
             return;
           }
@@ -135,14 +443,61 @@ export function registerDiceCommands(pi: ExtensionAPI): void {
               notify(`Slot not found: ${slotName}`, "error");
               return;
             }
+            const config = status.condition || status.active ? await getSlot(slotName) : null;
+            const when = config?.when;
             const lines = [
               `Slot: ${status.name} (${status.type})`,
+              ...(status.expression ? [`  Expression:    ${status.expression}`] : []),
               `  Dice count:    ${status.diceCount}`,
+              ...(status.deck ? [`  Cards left:    ${status.deck.remaining} (${status.deck.hits} hits)`] : []),
+              ...(status.minHits !== undefined ? [`  Min hits:      ${status.minHits} of ${status.diceCount} dice`] : []),
+              ...(status.scope ? [`  Scope:         ${status.scope} (depths count across sessions)`] : []),
+              ...(status.group ? [`  Group:         ${status.group.name} (priority ${status.group.priority})`] : []),
+              ...(status.paused ? [`  Paused:        ${formatPause(status.paused)}`] : []),
+              ...(status.veto ? [`  Veto:          a hit cancels every other trigger`] : []),
+              ...(status.condition && when
+                ? [`  Condition:     ${status.condition.met ? "met" : "not met"} (${formatCondition(when)})`]
+                : []),
+              ...(status.active && config?.active
+                ? [`  Active:        ${status.active.open ? "now" : "not now"} (${formatActivation(config.active)})`]
+                : []),
+              ...(status.chain
+                ? [
+                    `  Chain:         ${
+                      status.chain.armed
+                        ? `armed${status.chain.until !== undefined ? ` until depth ${status.chain.until}` : ""}`
+                        : `dormant (waiting on ${status.chain.waitingOn.join(", ")})`
+                    }`,
+                  ]
+                : []),
               `  Current depth: ${status.currentDepth}`,
               `  Since trigger: ${status.depthSinceTrigger}`,
               `  Probability:   ${status.probability}%`,
             ];
-            if (status.type === "accumulator") lines.push(`  Next die at:   depth ${status.nextDiceAt}`);
+            if (status.curve) {
+              lines.push(`  Curve:         ${status.curve.spec}`);
+              for (const { percent, depth } of status.curve.crossings) {
+                lines.push(`  Reaches ${`${percent}%:`.padEnd(6)} ${depth === null ? "never (ceiling below)" : `depth ${depth}`}`);
+              }
+            } else if (status.type === "accumulator") {
+              lines.push(`  Next die at:   depth ${status.nextDiceAt}`);
+            }
+            if (status.guaranteeAt !== undefined) {
+              lines.push(`  Guaranteed at: depth ${status.guaranteeAt}`);
+            }
+            if (status.schedule) {
+              lines.push(`  Schedule:      ${status.schedule.spec}`);
+              lines.push(`  Next at:       ${status.schedule.nextAt === null ? "never (schedule finished)" : `depth ${status.schedule.nextAt}`}`);
+            }
+            if (status.cooldown) {
+              const { active, triggers, untilDepth, until } = status.cooldown;
+              const ends = untilDepth !== undefined ? ` until depth ${untilDepth}` : until ? ` until ${until}` : "";
+              lines.push(`  Cooldown:      ${active ? `active${ends}` : "ready"} (${triggers} trigger${triggers === 1 ? "" : "s"} this session)`);
+            }
+            if (status.refractory) {
+              const { percent, fullAt } = status.refractory;
+              lines.push(`  Refractory:    ${percent}% of normal odds${fullAt === null ? "" : `, full at depth ${fullAt}`}`);
+            }
             notify(lines.join("\n"));
             return;
           }
@@ -156,13 +511,52 @@ export function registerDiceCommands(pi: ExtensionAPI): void {
             }
             const status = await engine.getSlotStatus(host, slotName, cctx());
             const diceCount = status?.diceCount ?? 0;
+            const preview = engine.previewSlot(config, diceCount, undefined, {
+              deck: status?.deck,
+              currentDepth: status?.currentDepth,
+              depthSinceTrigger: status?.depthSinceTrigger,
+            });
+            const outcome = preview.forced === "pity" ? " TRIGGERED! (pity timer)" : preview.triggered ? " TRIGGERED!" : "";
+            if (status?.schedule) {
+              const next = preview.triggered
+                ? "due now"
+                : status.schedule.nextAt === null
+                  ? "schedule finished"
+                  : `next at depth ${status.schedule.nextAt}`;
+              notify(`${slotName}: scheduled ${status.schedule.spec} at depth ${status.currentDepth}, ${next}${outcome}`);
+              return;
+            }
             if (diceCount <= 0) {
-              notify(`${slotName}: 0 dice (no roll)`);
+              notify(`${slotName}: 0 dice (no roll)${outcome}`);
+              return;
+            }
+            if (preview.percentile !== undefined) {
+              notify(`${slotName}: drew ${preview.percentile} (needed under ${preview.probability}%)${outcome}`);
+              return;
+            }
+            if (config.type === "deck" && preview.deck) {
+              const card = preview.triggered ? "hit" : "miss";
+              notify(`${slotName}: drew a ${card}, ${preview.deck.remaining} cards left (${preview.probability}%)${outcome}`);
+              return;
+            }
+            if (config.type === "expression" && preview.total !== undefined) {
+              const shown = formatExpressionRoll({ rolls: preview.rolls, dropped: preview.dropped ?? [], total: preview.total });
+              notify(`${slotName}: ${config.expression} = ${shown} (${preview.probability}%)${outcome}`);
               return;
             }
-            const preview = engine.previewSlot(config, diceCount);
+            const summary =
+              preview.total !== undefined
+                ? `sum: ${preview.total}`
+                : preview.hits !== undefined
+                  ? `hits: ${preview.hits}/${config.minHits}`
+                  : preview.labels
+                    ? `face: ${preview.face ?? "none"}`
+                    : `best: ${preview.best}`;
+            const dieText = config.faces?.length ? `d[${config.faces.join(",")}]` : `d${config.die}`;
+            const shown = preview.labels?.join(", ") ?? formatRolls(preview.rolls, preview.exploded);
+            const kept = preview.advantageRolls ? ` kept from [${preview.advantageRolls.map((set) => set.join("|")).join(", ")}]` : "";
             notify(
-              `${slotName}: ${diceCount}d${config.die} = [${preview.rolls.join(", ")}] (best: ${preview.best}, ${preview.probability}%)${preview.triggered ? " TRIGGERED!" : ""}`
+              `${slotName}: ${diceCount}${dieText} = [${shown}]${kept} (${summary}, ${preview.probability}%)${outcome}`
             );
             return;
           }
@@ -183,6 +577,106 @@ export function registerDiceCommands(pi: ExtensionAPI): void {
             }
             return;
           }
+          case "pause": {
+            const slotName = requireName();
+            if (!slotName) return;
+            const rawFor = flagVal(t, "--for");
+            const ms = rawFor === undefined ? undefined : parseDuration(rawFor);
+            if (ms === null || (ms !== undefined && hasFlag(t, "--session"))) {
+              notify("Error: pause takes --for <time> (s, m, h, d; e.g. 2h) or --session, not both", "error");
+              return;
+            }
+            const config = await getSlot(slotName);
+            if (!config) {
+              notify(`Slot not found: ${slotName}`, "error");
+              return;
+            }
+            const spec: PauseSpec = ms !== undefined ? { kind: "for", ms } : hasFlag(t, "--session") ? { kind: "session" } : { kind: "off" };
+            const now = Date.now();
+            const paused = pausedConfig(config, spec, sessionId, now);
+            registerSlot(paused);
+            notify(`Paused slot: ${slotName} (${formatPause(pauseStatus(paused, sessionId, now)!)})`);
+            return;
+          }
+          case "resume": {
+            const slotName = requireName();
+            if (!slotName) return;
+            const config = await getSlot(slotName);
+            if (!config) {
+              notify(`Slot not found: ${slotName}`, "error");
+              return;
+            }
+            registerSlot(resumedConfig(config));
+            notify(`Resumed slot: ${slotName}`);
+            return;
+          }
+          case "rng": {
+            if (name === undefined) {
+              const { provider, source } = resolveRngProvider(getBaseDir());
+              notify(`RNG provider: ${provider} (${source === "env" ? "from AGENT_DICE_RNG" : source === "config" ? "from config.json" : "default"})`);
+              return;
+            }
+            const provider = parseRngProvider(name);
+            if (!provider) {
+              notify(`Unknown RNG provider "${name}" (math|crypto|seeded)`, "error");
+              return;
+            }
+            saveRngProvider(getBaseDir(), provider);
+            notify(`RNG provider: ${provider}`);
+            return;
+          }
+          case "explain": {
+            if (!host.rngFor) {
+              notify("Replay needs the seeded RNG provider (/dice rng seeded, or AGENT_DICE_RNG=seeded)", "error");
+              return;
+            }
+            const depth = name === undefined ? (sessionDepth(ctx) ?? 0) : Number(name);
+            if (!Number.isInteger(depth) || depth < 0) {
+              notify("Invalid depth: must be an integer >= 0", "error");
+              return;
+            }
+            const replayCtx = { ...cctx(), getCurrentDepth: async () => depth };
+            const results = await engine.checkAllSlots(engine.dryRunHost(host), replayCtx);
+            const lines = results.map((r) => {
+              const dice =
+                r.percentile !== undefined
+                  ? `drew ${r.percentile} (needed under ${r.probability}%)`
+                  : r.diceCount > 0
+                    ? `${r.diceCount} ${r.diceCount === 1 ? "die" : "dice"} [${(r.labels ?? r.rolls).join(", ")}] (${r.probability}%)`
+                    : "0 dice";
+              const outcome = r.triggered
+                ? r.vetoed !== undefined
+                  ? `veto, held back ${r.vetoed.join(", ") || "nothing"}`
+                  : `TRIGGERED${r.forced === "pity" ? " (pity timer)" : ""}`
+                : r.vetoedBy
+                  ? `hit, vetoed by ${r.vetoedBy}`
+                  : r.suppressedBy
+                    ? `hit, suppressed by ${r.suppressedBy}`
+                    : r.diceCount > 0 || r.percentile !== undefined
+                      ? "miss"
+                      : `no roll (${r.skipped ?? "nothing to roll"})`;
+              return `  ${r.slotName}: ${dice} → ${outcome}`;
+            });
+            notify([`Replay: depth ${depth} (seeded; nothing saved)`, ...lines].join("\n"));
+            return;
+          }
+          case "history": {
+            const rawLimit = flagVal(t, "--limit");
+            const limit = rawLimit === undefined ? 20 : Number(rawLimit);
+            if (!Number.isInteger(limit) || limit < 1) {
+              notify("Invalid --limit: must be an integer >= 1", "error");
+              return;
+            }
+            const all = hasFlag(t, "--all");
+            const slot = name !== undefined && !name.startsWith("--") ? name : undefined;
+            const records = readRollHistory(getBaseDir(), { ...(all ? {} : { session: sessionId }), ...(slot ? { slot } : {}), limit });
+            if (records.length === 0) {
+              notify(all ? "No rolls recorded." : "No rolls recorded this session.");
+              return;
+            }
+            notify(records.map((r) => (all ? `[${r.session}] ${formatRecord(r)}` : formatRecord(r))).join("\n"));
+            return;
+          }
           case "unregister": {
             const slotName = requireName();
             if (!slotName) return;
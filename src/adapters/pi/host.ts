@@ -7,10 +7,21 @@
  * the extension entry (index.ts) supplies sessionId + depth from the Pi context.
  */
 
+import { createHash } from "node:crypto";
 import type { CoreCheckContext, DiceHost } from "../../core/contracts";
 import * as store from "./store";
+import { type LastTurn, conditionMet } from "../../conditions";
+import { activationContext } from "../../core/activation";
+import type { ActivationContext } from "../../types";
+import { providerRng, resolveRngProvider } from "../../rng";
+import { appendRollHistory } from "../../history";
 
-/** DiceHost backed by the node:fs store. rng omitted → engine uses Math.random. */
+/**
+ * DiceHost backed by the node:fs store, rolling with the configured RNG
+ * provider (AGENT_DICE_RNG or config.json in the Pi base dir); for `math` rng
+ * is omitted and the engine uses Math.random. Checks are logged to the base
+ * dir's `history/`, like the Claude host's.
+ */
 export function createPiHost(): DiceHost {
   return {
     listSlots: store.listSlots,
@@ -19,16 +30,43 @@ export function createPiHost(): DiceHost {
     saveState: store.saveState,
     clearState: store.clearState,
     hasCooldown: store.hasCooldown,
+    loadCooldown: store.loadCooldown,
     markTriggered: store.markTriggered,
     clearCooldown: store.clearCooldown,
+    ...providerRng(resolveRngProvider(store.getBaseDir()).provider),
+    appendHistory: async (sessionId, records) => appendRollHistory(store.getBaseDir(), sessionId, records),
   };
 }
 
+/** Activation context for a check now; Pi runs interactively when it has a UI (not `pi -p`). */
+export function piActivation(hasUI: boolean): ActivationContext {
+  return activationContext(new Date(), process.env, hasUI);
+}
+
 /**
  * Build the engine context. `depth` is the cached turn index (or undefined when
  * no turn has completed yet); the engine applies the right per-op default
  * (0 for accumulator reads / trigger-reset, -1 sentinel for manual reset).
+ * `cwd` keys project-scoped slots with the same hash the Claude adapter uses;
+ * without it they stay per-session. `turn` reads the session's last turn for
+ * slot conditions (at most once); without it no condition holds. `activation`
+ * is the clock and environment for activation windows (see piActivation);
+ * without it no window is open.
  */
-export function piContext(sessionId: string, depth: number | undefined): CoreCheckContext {
-  return { sessionId, getCurrentDepth: async () => depth };
+export function piContext(
+  sessionId: string,
+  depth: number | undefined,
+  cwd?: string,
+  turn?: () => LastTurn,
+  activation?: ActivationContext
+): CoreCheckContext {
+  const project = cwd === undefined ? undefined : `project-${createHash("md5").update(cwd).digest("hex").substring(0, 12)}`;
+  let last: LastTurn | undefined;
+  return {
+    sessionId,
+    getCurrentDepth: async () => depth,
+    scopeKeys: { ...(project ? { project } : {}), global: "global" },
+    ...(turn ? { matchesCondition: async (when) => conditionMet(when, (last ??= turn())) } : {}),
+    ...(activation ? { activation } : {}),
+  };
 }
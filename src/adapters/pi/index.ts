@@ -17,10 +17,11 @@
 
 import type { ExtensionAPI } from "@earendil-works/pi-coding-agent";
 import * as engine from "../../core/engine";
-import { createPiHost, piContext } from "./host";
+import { createPiHost, piContext, piActivation } from "./host";
 import { registerDiceCommands } from "./commands";
 import { registerDiceTools } from "./tools";
 import { sessionDepth } from "./depth";
+import { lastTurn } from "./turn";
 import { renderTrigger } from "../claude-renderer";
 
 function failOpen(where: string, err: unknown): void {
@@ -40,7 +41,7 @@ export default function ccDice(pi: ExtensionAPI): void {
   pi.on("session_start", async (event, ctx) => {
     if (event.reason !== "new" && event.reason !== "startup") return;
     try {
-      await engine.sessionStart(host, piContext(ctx.sessionManager.getSessionId(), undefined));
+      await engine.sessionStart(host, piContext(ctx.sessionManager.getSessionId(), undefined, ctx.cwd));
     } catch (err) {
       failOpen("session_start", err);
     }
@@ -49,13 +50,20 @@ export default function ccDice(pi: ExtensionAPI): void {
   // Agent finished its loop (≈ Claude Stop): roll all slots, surface triggers.
   pi.on("agent_end", async (_event, ctx) => {
     try {
-      const ctx2 = piContext(ctx.sessionManager.getSessionId(), sessionDepth(ctx));
+      const ctx2 = piContext(ctx.sessionManager.getSessionId(), sessionDepth(ctx), ctx.cwd, () => lastTurn(ctx), piActivation(ctx.hasUI));
       const results = await engine.checkAllSlots(host, ctx2);
       const slots = new Map((await host.listSlots()).map((s) => [s.name, s]));
-      for (const r of results) {
-        if (!r.triggered) continue;
+      const priority = (name: string) => slots.get(name)?.priority ?? 0;
+      // Highest priority first; the sort is stable, so equal priorities keep check order.
+      const triggered = results.filter((r) => r.triggered).sort((a, b) => priority(b.slotName) - priority(a.slotName));
+      for (const r of triggered) {
         const slot = slots.get(r.slotName);
         if (!slot) continue;
+        if (slot.veto) {
+          // A veto holds nudges back; it is never one itself. Tell the user only.
+          if (r.vetoed?.length && ctx.hasUI) ctx.ui.notify(`${slot.name}: veto, held back ${r.vetoed.join(", ")}`, "info");
+          continue;
+        }
         // Fire-and-forget: sendMessage returns void and never throws (it has an
         // internal catch); do NOT await it. Best-effort delivery — see header.
         void pi.sendMessage(
@@ -10,7 +10,8 @@
 import { existsSync, mkdirSync, readFileSync, writeFileSync, unlinkSync, readdirSync } from "node:fs";
 import { join } from "node:path";
 import { homedir } from "node:os";
-import type { DiceSlotConfig, DiceState } from "../../types";
+import type { CooldownMarker, DiceSlotConfig, DiceState, DiceTarget } from "../../types";
+import { defaultCooldown, parseMarker } from "../../core/cooldown";
 
 const SAFE_NAME_RE = /^[a-zA-Z0-9][a-zA-Z0-9_-]*$/;
 // Pi session ids may contain dots (assertValidSessionId, pi session-manager.ts:208):
@@ -87,10 +88,10 @@ function saveSlots(slots: Record<string, DiceSlotConfig>): void {
 }
 
 export function registerSlot(
-  config: Partial<DiceSlotConfig> & { name: string; die: number; target: number; onTrigger: { message: string } }
+  config: Partial<DiceSlotConfig> & { name: string; die: number; target: DiceTarget; onTrigger: { message: string } }
 ): DiceSlotConfig {
   validateName(config.name, "slot name");
-  const full = { ...SLOT_DEFAULTS, ...config } as DiceSlotConfig;
+  const full = { ...SLOT_DEFAULTS, ...config, cooldown: config.cooldown ?? defaultCooldown(config) } as DiceSlotConfig;
   const slots = loadSlots();
   slots[full.name] = full;
   saveSlots(slots);
@@ -139,7 +140,7 @@ export async function clearState(slotName: string, sessionId: string): Promise<v
 }
 
 // ---------------------------------------------------------------------------
-// Per-session cooldown markers
+// Cooldown markers (per session, or per project/global scope key)
 // ---------------------------------------------------------------------------
 
 function markerFile(slotName: string, sessionId: string): string {
@@ -152,8 +153,13 @@ export async function hasCooldown(slotName: string, sessionId: string): Promise<
   return existsSync(markerFile(slotName, sessionId));
 }
 
-export async function markTriggered(slotName: string, sessionId: string): Promise<void> {
-  writeFileSync(markerFile(slotName, sessionId), new Date().toISOString());
+export async function loadCooldown(slotName: string, sessionId: string): Promise<CooldownMarker | null> {
+  const f = markerFile(slotName, sessionId);
+  return existsSync(f) ? parseMarker(readFileSync(f, "utf8")) : null;
+}
+
+export async function markTriggered(slotName: string, sessionId: string, marker?: CooldownMarker): Promise<void> {
+  writeFileSync(markerFile(slotName, sessionId), JSON.stringify(marker ?? { triggeredAt: new Date().toISOString(), count: 1 }));
 }
 
 export function clearCooldown(slotName: string, sessionId: string): void {
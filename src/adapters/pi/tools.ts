@@ -11,31 +11,244 @@
 import { type Static, Type } from "typebox";
 import type { ExtensionAPI, ExtensionContext } from "@earendil-works/pi-coding-agent";
 import * as engine from "../../core/engine";
-import { createPiHost, piContext } from "./host";
+import { createPiHost, piContext, piActivation } from "./host";
 import { sessionDepth } from "./depth";
-import { registerSlot, unregisterSlot, listSlots } from "./store";
+import { lastTurn } from "./turn";
+import { registerSlot, unregisterSlot, getSlot, listSlots } from "./store";
+import type { CooldownSpec, DiceSlotConfig, DiceTarget } from "../../types";
+import { formatTarget, slotConfigError, isSumMode, parseFaceTarget, defaultFaceTarget } from "../../roll";
+import { parseExpression } from "../../core/expression";
+import { curveError, formatCurve } from "../../core/accumulator";
+import { scheduleError, formatSchedule } from "../../core/schedule";
+import { cooldownError, defaultCooldown, parseDuration } from "../../core/cooldown";
+import { chainError } from "../../core/chain";
+import { type PauseSpec, pausedConfig, resumedConfig, pauseStatus, formatPause } from "../../core/pause";
+import { conditionError, formatCondition } from "../../conditions";
+import { activationError, formatActivation } from "../../core/activation";
+import { poolError, poolLabel, poolMates } from "../../core/pool";
+import { describeOdds, slotOdds } from "../../core/odds";
 
 // AgentToolResult requires `details`; we have no structured details to attach.
 const text = (s: string) => ({ content: [{ type: "text" as const, text: s }], details: null });
 
+/**
+ * Turns of fresh-session odds list_dice summarizes ("about 50% by turn 17"). The
+ * chain runs for every slot on every call, so the horizon stays short; slower
+ * slots read "19% within 50 turns", and `agent-dice odds` goes further.
+ */
+const ODDS_TURNS = 50;
+
+/** `2d6+1`, `d20`, `d6!` (exploding), `d20 advantage`, `d[-1,0,0,1]`, `deck 1/20`, or `curve linear` — what a slot rolls, for tool output. */
+function diceLabel(cfg: DiceSlotConfig): string {
+  if (cfg.type === "expression") return String(cfg.expression);
+  if (cfg.type === "scheduled") return formatSchedule(cfg);
+  if (cfg.type === "deck") return `deck ${cfg.deckHits ?? 1}/${cfg.deckSize ?? 20}`;
+  if (cfg.curve) return `curve ${formatCurve(cfg.curve)}`;
+  if (cfg.faces?.length) return `d[${cfg.faces.join(",")}]`;
+  const adv = cfg.advantage && cfg.advantage !== "none" ? ` ${cfg.advantage}${cfg.advantageDice ? ` x${cfg.advantageDice}` : ""}` : "";
+  return `d${cfg.die}${cfg.explode ? "!" : ""}${adv}`;
+}
+
+/** Probability-curve parameters, shared by `curve` and `refractory`. */
+const CurveFields = {
+  shape: Type.Union([Type.Literal("linear"), Type.Literal("exponential"), Type.Literal("logistic")]),
+  floor: Type.Optional(Type.Number({ minimum: 0, maximum: 100, description: "Lowest value %, and the value right after a trigger. Default 0 (exponential 1)." })),
+  ceiling: Type.Optional(Type.Number({ minimum: 0, maximum: 100, description: "Highest value %. Default 100." })),
+  slope: Type.Optional(Type.Number({ exclusiveMinimum: 0, description: "linear: % points added per turn. Default 1." })),
+  growth: Type.Optional(Type.Number({ exclusiveMinimum: 1, description: "exponential: multiplier per turn. Default 1.1." })),
+  midpoint: Type.Optional(Type.Number({ minimum: 0, description: "logistic: turns until halfway between floor and ceiling. Default 20." })),
+  steepness: Type.Optional(Type.Number({ exclusiveMinimum: 0, description: "logistic: how sharply it rises. Default 0.25." })),
+};
+
 const ConfigureParams = Type.Object({
   name: Type.String({ description: "Unique slot id: starts alphanumeric, then [a-zA-Z0-9_-]" }),
-  message: Type.String({ description: "Nudge text shown when the slot triggers. Supports {best} {rolls} {diceCount} {slotName}." }),
+  message: Type.String({ description: "Nudge text shown when the slot triggers. Supports {best} {rolls} {sum} {hits} {face} {diceCount} {slotName}." }),
   type: Type.Optional(
-    Type.Union([Type.Literal("accumulator"), Type.Literal("single"), Type.Literal("fixed")], {
-      description: "accumulator: probability escalates with conversation depth. single/fixed: flat odds every turn.",
-    })
+    Type.Union(
+      [
+        Type.Literal("accumulator"),
+        Type.Literal("single"),
+        Type.Literal("fixed"),
+        Type.Literal("expression"),
+        Type.Literal("deck"),
+        Type.Literal("scheduled"),
+      ],
+      {
+        description:
+          "accumulator: probability escalates with conversation depth. single/fixed: flat odds every turn. expression: roll `expression` each turn and compare its total to target. deck: draw one card per turn from a shuffled bag of deckSize cards with deckHits hits, reshuffling when empty — guaranteed deckHits nudges every deckSize turns, no long droughts. scheduled: no dice — nudge every `every` turns and/or at each of `atDepths`.",
+      }
+    )
+  ),
+  expression: Type.Optional(
+    Type.String({ description: "Dice notation for type 'expression', e.g. '2d6+1', '4d6kh3' (keep highest 3), '4d6dl1' (drop lowest)." })
+  ),
+  deckSize: Type.Optional(Type.Integer({ minimum: 1, description: "Cards in the bag (type 'deck'). Default 20." })),
+  deckHits: Type.Optional(Type.Integer({ minimum: 1, description: "Hit cards in the bag, at most deckSize (type 'deck'). Default 1." })),
+  every: Type.Optional(Type.Integer({ minimum: 1, description: "Fire every N user messages (type 'scheduled')." })),
+  atDepths: Type.Optional(
+    Type.Array(Type.Integer({ minimum: 1 }), { minItems: 1, description: "Fire at each of these depths, e.g. [10, 25, 50] (type 'scheduled')." })
+  ),
+  die: Type.Optional(Type.Integer({ minimum: 2, description: "Die size (d20 = 20). Default 20." })),
+  target: Type.Optional(
+    Type.Union(
+      [
+        Type.Integer(),
+        Type.Array(Type.Integer(), { minItems: 1 }),
+        Type.Object({ min: Type.Integer(), max: Type.Integer() }),
+        Type.Array(Type.String(), { minItems: 1 }),
+      ],
+      {
+        description:
+          "Winning face (20), a set of faces ([1, 20] = crit or fumble), or a closed range ({ min: 12, max: 14 }). Faces must be <= die, except for sum modes, where the target is a total. Label dice take face labels ([\"refactor\"]). Default 20 (custom dice: every label, or the highest face).",
+      }
+    )
   ),
-  die: Type.Optional(Type.Integer({ minimum: 1, description: "Die size (d20 = 20). Default 20." })),
-  target: Type.Optional(Type.Integer({ minimum: 1, description: "Winning value; must be <= die. Default 20." })),
   targetMode: Type.Optional(
-    Type.Union([Type.Literal("exact"), Type.Literal("gte"), Type.Literal("lte")], { description: "How a roll matches target. Default exact." })
+    Type.Union(
+      [
+        Type.Literal("exact"),
+        Type.Literal("gte"),
+        Type.Literal("lte"),
+        Type.Literal("sum-exact"),
+        Type.Literal("sum-gte"),
+        Type.Literal("sum-lte"),
+      ],
+      {
+        description:
+          "How rolls match target. exact/gte/lte: any one die matches. sum-*: the total of all dice is compared, so odds rise smoothly with dice count (sum-gte). Default exact.",
+      }
+    )
+  ),
+  advantage: Type.Optional(
+    Type.Union([Type.Literal("none"), Type.Literal("advantage"), Type.Literal("disadvantage")], {
+      description:
+        "advantage: roll each die advantageDice times and keep the highest (disadvantage: the lowest). Tunes odds without changing the die. Not for expression slots. Default none.",
+    })
+  ),
+  advantageDice: Type.Optional(Type.Integer({ minimum: 2, description: "Rolls per die under (dis)advantage. Default 2." })),
+  explode: Type.Optional(
+    Type.Boolean({
+      description:
+        "Exploding dice: a max face rolls again (up to explodeDepth times). Sum modes add the extra rolls; other modes count them as extra dice. Default false.",
+    })
+  ),
+  explodeDepth: Type.Optional(Type.Integer({ minimum: 1, maximum: 20, description: "Cap on extra rolls per exploding die. Default 5." })),
+  minHits: Type.Optional(
+    Type.Integer({
+      minimum: 1,
+      description:
+        "fixed/accumulator with exact/gte/lte only: trigger when at least this many dice match (success counting). Makes rare high-depth nudges without huge dice. Default 1.",
+    })
+  ),
+  faces: Type.Optional(
+    Type.Array(Type.Union([Type.Integer(), Type.String()]), {
+      minItems: 1,
+      description:
+        "Custom die faces instead of 1..die: numbers ([-1, 0, 0, 1] = a Fate die) or labels ([\"refactor\", \"test\", \"docs\"]). Not with expression, advantage, or explode.",
+    })
+  ),
+  weights: Type.Optional(
+    Type.Array(Type.Number({ exclusiveMinimum: 0 }), { description: "Relative weight per face (loaded dice); same length as faces. Default equal." })
+  ),
+  faceMessages: Type.Optional(
+    Type.Record(Type.String(), Type.String(), { description: "Message per face, used instead of message when that face triggers. Keys are faces." })
+  ),
+  curve: Type.Optional(
+    Type.Object(CurveFields, {
+      description:
+        "accumulator only: per-turn trigger chance as a function of turns since the last trigger, replacing dice counting. Easier to reason about than accumulationRate: e.g. { shape: 'linear', slope: 2, ceiling: 60 }.",
+    })
+  ),
+  curveMarks: Type.Optional(
+    Type.Array(Type.Number({ exclusiveMinimum: 0, maximum: 100 }), { description: "Percent levels list_dice reports crossing depths for. Default [25, 50, 75]." })
+  ),
+  guaranteeAfter: Type.Optional(
+    Type.Integer({
+      minimum: 1,
+      description:
+        "accumulator/single only: pity timer — after this many user messages without a trigger, the next turn triggers for certain. Bounds the longest drought.",
+    })
   ),
   accumulationRate: Type.Optional(Type.Integer({ minimum: 1, description: "User messages per +1 die (accumulator). Default 7." })),
   maxDice: Type.Optional(Type.Integer({ minimum: 1, description: "Dice cap (accumulator). Default 100." })),
   fixedCount: Type.Optional(Type.Integer({ minimum: 1, description: "Dice count (fixed type). Default 1." })),
   cooldown: Type.Optional(
-    Type.Union([Type.Literal("per-session"), Type.Literal("none")], { description: "per-session: fire at most once per session. Default per-session." })
+    Type.String({
+      description:
+        "When the slot may fire again: 'per-session' (once per session), 'none', 'turns:N' (not for N user messages after a trigger), 'duration:30m' (s/m/h/d), or 'max:N' (at most N per session). Default per-session (none for scheduled, deck, and veto slots, and with refractory).",
+    })
+  ),
+  scope: Type.Optional(
+    Type.Union([Type.Literal("session"), Type.Literal("project"), Type.Literal("global")], {
+      description:
+        "What the slot's state and cooldown are shared across: this session (default), every session in this project, or every session anywhere. A project accumulator keeps building across sessions; a global cooldown spans them all.",
+    })
+  ),
+  group: Type.Optional(
+    Type.String({
+      minLength: 1,
+      description: "Exclusion group: at most one slot in the group nudges per turn. Use it so related nudges never pile up.",
+    })
+  ),
+  priority: Type.Optional(
+    Type.Integer({ description: "Within a group the highest priority wins; nudges are also delivered highest first. Default 0." })
+  ),
+  pool: Type.Optional(
+    Type.String({
+      minLength: 1,
+      description:
+        "Shared-roll pool. By default every slot rolling the same die observes one shared base roll, so two d20 slots are correlated. Name a pool to share only with slots naming it, or 'independent' to roll alone.",
+    })
+  ),
+  requires: Type.Optional(
+    Type.Array(Type.String(), {
+      minItems: 1,
+      description:
+        "Chain: slot names that must each have triggered before this slot rolls at all (dormant until then). E.g. a 'write-tests' nudge that only arms after 'refactor' fired.",
+    })
+  ),
+  requiresWithin: Type.Optional(
+    Type.Integer({ minimum: 1, description: "With requires: each prerequisite must have triggered within the last N user messages." })
+  ),
+  when: Type.Optional(
+    Type.Object(
+      {
+        assistantMatches: Type.Optional(Type.String({ description: "Regex (case-insensitive) found in your last message." })),
+        toolFailed: Type.Optional(Type.String({ description: "A call to this tool failed in the last turn, e.g. 'bash'; '*' = any tool." })),
+        fileTouched: Type.Optional(Type.String({ description: "An edit/write in the last turn touched a file matching this glob, e.g. '*.test.ts'." })),
+      },
+      {
+        description:
+          "Roll only when the last turn matches (every field given must hold); otherwise the slot gets 0 dice. E.g. { toolFailed: 'bash' } for a nudge that only fires after a failed command.",
+      }
+    )
+  ),
+  active: Type.Optional(
+    Type.Object(
+      {
+        days: Type.Optional(Type.String({ description: "'weekdays', 'weekends', 'daily', or day names and ranges, e.g. 'mon-fri' or 'sat,sun'." })),
+        hours: Type.Optional(Type.String({ description: "Local time range, end exclusive, e.g. '9-18' or '09:30-22:00'; '22-6' wraps midnight." })),
+        skipCi: Type.Optional(Type.Boolean({ description: "Off when the CI environment variable is set." })),
+        interactiveOnly: Type.Optional(Type.Boolean({ description: "Off in non-interactive runs (no UI, e.g. pi -p)." })),
+        termProgram: Type.Optional(Type.String({ description: "Regex (case-insensitive) TERM_PROGRAM must match, e.g. 'vscode'." })),
+      },
+      {
+        description:
+          "Activation window: the slot rolls only on these days, in these hours, and in these environments (every field given must hold); otherwise it gets 0 dice. E.g. { days: 'weekdays', hours: '9-18' }.",
+      }
+    )
+  ),
+  veto: Type.Optional(
+    Type.Boolean({
+      description:
+        "Veto slot: when it hits, every other nudge that turn is cancelled and its own message is not delivered. Pair with `when` to hold nudges back, e.g. while a command keeps failing. Default cooldown 'none'.",
+    })
+  ),
+  refractory: Type.Optional(
+    Type.Object(CurveFields, {
+      description:
+        "Soften instead of lock out: percent of normal odds as a function of turns since the last trigger, e.g. { shape: 'linear', slope: 10 } recovers over 10 turns. Cooldown defaults to 'none' with it.",
+    })
   ),
   flavor: Type.Optional(Type.Boolean({ description: "Prepend the '🎲 Nat <n>!' prefix to the nudge. Default true." })),
 });
@@ -47,6 +260,14 @@ type NoInput = Static<typeof NoParams>;
 const RemoveParams = Type.Object({ name: Type.String({ description: "Slot id to remove" }) });
 type RemoveInput = Static<typeof RemoveParams>;
 
+const PauseParams = Type.Object({
+  name: Type.String({ description: "Slot id to pause or resume" }),
+  for: Type.Optional(Type.String({ description: "Snooze for a time, e.g. '30m', '2h', '1d', then resume on its own." })),
+  session: Type.Optional(Type.Boolean({ description: "Snooze for the rest of this session only." })),
+  resume: Type.Optional(Type.Boolean({ description: "Undo any pause or disable instead." })),
+});
+type PauseInput = Static<typeof PauseParams>;
+
 export function registerDiceTools(pi: ExtensionAPI): void {
   pi.registerTool({
     name: "register_dice",
@@ -56,24 +277,127 @@ export function registerDiceTools(pi: ExtensionAPI): void {
     parameters: ConfigureParams,
     async execute(_id: string, params: ConfigureInput) {
       try {
-        const die = params.die ?? 20;
-        const target = params.target ?? 20;
-        if (target > die) return text(`Error: target ${target} exceeds die size ${die}.`);
+        const faces = params.faces;
+        const die = faces ? faces.length : params.die ?? 20;
+        const type = params.type ?? "accumulator";
+        const advantage = params.advantage ?? "none";
+        const targetMode = params.targetMode ?? "exact";
+        // Custom dice read the target against their faces (labels map to positions);
+        // label targets mean nothing on a plain die.
+        const raw = params.target;
+        let target: DiceTarget | null;
+        if (faces) {
+          target = raw === undefined ? defaultFaceTarget(faces) : parseFaceTarget(Array.isArray(raw) ? raw.join(",") : formatTarget(raw), faces);
+          if (target === null) return text(`Error: target must name faces of the die (${faces.join(",")}).`);
+        } else {
+          if (Array.isArray(raw) && raw.some((f) => typeof f === "string")) return text("Error: face labels in target need a faces list.");
+          target = (raw ?? 20) as DiceTarget;
+        }
+        const configProblem = slotConfigError({ type, targetMode, die, target, faces });
+        if (configProblem) return text(`Error: invalid ${configProblem}.`);
+        if (params.minHits !== undefined && (!["fixed", "accumulator"].includes(type) || isSumMode(targetMode))) {
+          return text("Error: minHits needs a fixed or accumulator slot with an exact/gte/lte target mode.");
+        }
+        if (type === "deck" && (params.deckHits ?? 1) > (params.deckSize ?? 20)) {
+          return text("Error: deckHits cannot exceed deckSize.");
+        }
+        if (type !== "deck" && (params.deckSize !== undefined || params.deckHits !== undefined)) {
+          return text("Error: deckSize and deckHits only apply to type 'deck'.");
+        }
+        if (params.curve) {
+          if (type !== "accumulator") return text("Error: curve applies to accumulator slots only.");
+          if (advantage !== "none" || params.explode || faces || params.minHits !== undefined) {
+            return text("Error: curve replaces dice, so it cannot be combined with advantage, explode, faces, or minHits.");
+          }
+          const problem = curveError(params.curve);
+          if (problem) return text(`Error: curve is invalid: ${problem}.`);
+        }
+        if (type === "expression") {
+          if (!params.expression) return text("Error: type 'expression' needs an expression (e.g. '2d6+1').");
+          if (advantage !== "none") return text("Error: advantage does not apply to expression slots; use kh/kl in the notation.");
+          if (params.explode) return text("Error: explode does not apply to expression slots.");
+          parseExpression(params.expression); // throws a readable error on bad notation
+        }
+        if (faces) {
+          if (type === "expression" || advantage !== "none" || params.explode) {
+            return text("Error: faces cannot be combined with expression slots, advantage, or explode.");
+          }
+          if (params.weights && params.weights.length !== faces.length) return text("Error: weights needs one entry per face.");
+          const stray = Object.keys(params.faceMessages ?? {}).find((k) => !faces.some((f) => String(f) === k));
+          if (stray !== undefined) return text(`Error: faceMessages key "${stray}" is not a face of the die.`);
+        } else if (params.weights || params.faceMessages) {
+          return text("Error: weights and faceMessages need a faces list.");
+        }
+        if (type === "scheduled") {
+          const problem = scheduleError(params);
+          if (problem) return text(`Error: scheduled slots ${problem}.`);
+          if (advantage !== "none" || params.explode || faces) {
+            return text("Error: scheduled slots roll no dice, so they cannot take advantage, explode, or faces.");
+          }
+        } else if (params.every !== undefined || params.atDepths !== undefined) {
+          return text("Error: every and atDepths only apply to type 'scheduled'.");
+        }
+        if (params.guaranteeAfter !== undefined && type !== "accumulator" && type !== "single") {
+          return text("Error: guaranteeAfter applies to accumulator and single slots only.");
+        }
+        const cooldown = params.cooldown ?? defaultCooldown({ type, veto: params.veto, refractory: params.refractory });
+        const badCooldown = cooldownError(cooldown);
+        if (badCooldown) return text(`Error: ${badCooldown}.`);
+        if (params.refractory) {
+          const problem = curveError(params.refractory);
+          if (problem) return text(`Error: refractory is invalid: ${problem}.`);
+        }
+        const badChain = chainError({ name: params.name, requires: params.requires, requiresWithin: params.requiresWithin });
+        if (badChain) return text(`Error: ${badChain}.`);
+        const registered = new Set((await listSlots()).map((s) => s.name));
+        const unknown = (params.requires ?? []).filter((r) => !registered.has(r));
+        if (unknown.length > 0) return text(`Error: requires names no configured slot: ${unknown.join(", ")}.`);
+        const badCondition = params.when ? conditionError(params.when) : null;
+        if (badCondition) return text(`Error: when ${badCondition}.`);
+        const badActivation = params.active ? activationError(params.active) : null;
+        if (badActivation) return text(`Error: active ${badActivation}.`);
+        if (params.pool !== undefined) {
+          const candidate = { name: params.name, type, die, ...(faces ? { faces, weights: params.weights } : {}), curve: params.curve, pool: params.pool };
+          const badPool = poolError(candidate as DiceSlotConfig, await listSlots());
+          if (badPool) return text(`Error: ${badPool}.`);
+        }
         const cfg = registerSlot({
           name: params.name,
           die,
           target,
-          targetMode: params.targetMode ?? "exact",
-          type: params.type ?? "accumulator",
+          targetMode,
+          type,
+          ...(type === "expression" ? { expression: params.expression } : {}),
+          ...(type === "deck" ? { deckSize: params.deckSize ?? 20, deckHits: params.deckHits ?? 1 } : {}),
+          ...(params.every !== undefined ? { every: params.every } : {}),
+          ...(params.atDepths ? { atDepths: [...new Set(params.atDepths)].sort((a, b) => a - b) } : {}),
+          ...(params.curve ? { curve: params.curve, ...(params.curveMarks ? { curveMarks: params.curveMarks } : {}) } : {}),
+          ...(advantage !== "none" ? { advantage, ...(params.advantageDice ? { advantageDice: params.advantageDice } : {}) } : {}),
+          ...(params.explode ? { explode: true, ...(params.explodeDepth ? { explodeDepth: params.explodeDepth } : {}) } : {}),
+          ...(params.minHits !== undefined ? { minHits: params.minHits } : {}),
+          ...(faces ? { faces, ...(params.weights ? { weights: params.weights } : {}) } : {}),
+          ...(params.faceMessages && Object.keys(params.faceMessages).length > 0 ? { faceMessages: params.faceMessages } : {}),
+          ...(params.guaranteeAfter !== undefined ? { guaranteeAfter: params.guaranteeAfter } : {}),
           accumulationRate: params.accumulationRate ?? 7,
           maxDice: params.maxDice ?? 100,
           fixedCount: params.fixedCount ?? 1,
-          cooldown: params.cooldown ?? "per-session",
+          cooldown: cooldown as CooldownSpec,
+          ...(params.scope && params.scope !== "session" ? { scope: params.scope } : {}),
+          ...(params.group !== undefined ? { group: params.group } : {}),
+          ...(params.priority !== undefined ? { priority: params.priority } : {}),
+          ...(params.pool !== undefined ? { pool: params.pool } : {}),
+          ...(params.requires
+            ? { requires: params.requires, ...(params.requiresWithin !== undefined ? { requiresWithin: params.requiresWithin } : {}) }
+            : {}),
+          ...(params.when ? { when: params.when } : {}),
+          ...(params.active ? { active: params.active } : {}),
+          ...(params.veto ? { veto: true } : {}),
+          ...(params.refractory ? { refractory: params.refractory } : {}),
           flavor: params.flavor ?? true,
           onTrigger: { message: params.message },
         });
         return text(
-          `Registered dice slot "${cfg.name}" (${cfg.type}, d${cfg.die}, target ${cfg.target} ${cfg.targetMode}). It will nudge: "${cfg.onTrigger.message}"`
+          `Registered dice slot "${cfg.name}" (${cfg.type}, ${diceLabel(cfg)}, target ${formatTarget(cfg.target)} ${cfg.targetMode}). It will nudge: "${cfg.onTrigger.message}"`
         );
       } catch (err) {
         return text(`Could not configure dice: ${(err as Error).message ?? err}`);
@@ -84,18 +408,27 @@ export function registerDiceTools(pi: ExtensionAPI): void {
   pi.registerTool({
     name: "list_dice",
     label: "List dice",
-    description: "List configured dice slots with their current dice count and trigger probability for this session.",
+    description:
+      "List configured dice slots with their current dice count and trigger probability for this session, and how soon each is likely to trigger from a fresh session.",
     parameters: NoParams,
     async execute(_id: string, _params: NoInput, _signal: unknown, _onUpdate: unknown, ctx: ExtensionContext) {
       try {
         const slots = await listSlots();
         if (slots.length === 0) return text("No dice slots configured.");
         const host = createPiHost();
-        const cctx = piContext(ctx.sessionManager.getSessionId(), sessionDepth(ctx));
+        const cctx = piContext(ctx.sessionManager.getSessionId(), sessionDepth(ctx), ctx.cwd, () => lastTurn(ctx), piActivation(ctx.hasUI));
+        const mates = poolMates(slots);
         const lines: string[] = [];
         for (const s of slots) {
           const st = await engine.getSlotStatus(host, s.name, cctx);
-          lines.push(`${s.name}: ${s.type} d${s.die} target ${s.target} ${s.targetMode} — ${st?.diceCount ?? 0} dice, ${st?.probability ?? 0}% this turn`);
+          const crossings = st?.curve?.crossings.map(({ percent, depth }) => `${percent}% at ${depth ?? "never"}`).join(", ");
+          if (st?.schedule) {
+            lines.push(`${s.name}: scheduled ${st.schedule.spec} — ${st.schedule.nextAt === null ? "schedule finished" : `next at depth ${st.schedule.nextAt}`}${st.paused ? `, ${formatPause(st.paused)}` : ""}`);
+            continue;
+          }
+          lines.push(
+            `${s.name}: ${s.type} ${diceLabel(s)} target ${formatTarget(s.target)} ${s.targetMode} — ${st?.deck ? `${st.deck.remaining} cards left` : `${st?.diceCount ?? 0} dice`}, ${st?.probability ?? 0}% this turn${crossings ? ` (reaches ${crossings})` : ""}, ${describeOdds(slotOdds(s, ODDS_TURNS))} from a fresh session${st?.guaranteeAt !== undefined ? `, guaranteed by depth ${st.guaranteeAt}` : ""}${st?.cooldown?.active ? ", cooling down" : ""}${st?.group ? `, group ${st.group.name} (priority ${st.group.priority})` : ""}${st?.chain && !st.chain.armed ? `, dormant until ${st.chain.waitingOn.join(", ")} trigger` : ""}${s.when ? `, only when ${formatCondition(s.when)}` : ""}${s.active ? `, active ${formatActivation(s.active)}${st?.active?.open === false ? " (not now)" : ""}` : ""}${s.veto ? ", veto" : ""}${mates.get(s.name)?.length ? `, shares its roll (pool ${poolLabel(s)}) with ${mates.get(s.name)!.join(", ")}` : s.pool !== undefined ? `, pool ${s.pool}` : ""}${st?.paused ? `, ${formatPause(st.paused)}` : ""}`
+          );
         }
         return text(lines.join("\n"));
       } catch (err) {
@@ -113,4 +446,34 @@ export function registerDiceTools(pi: ExtensionAPI): void {
       return text(unregisterSlot(params.name) ? `Removed dice slot "${params.name}".` : `No dice slot named "${params.name}".`);
     },
   });
+
+  pi.registerTool({
+    name: "pause_dice",
+    label: "Pause dice",
+    description:
+      "Silence a dice slot without removing it: until resumed (no options), for a time ('for'), or for this session ('session'). Use 'resume' to turn it back on. Paused slots roll nothing.",
+    parameters: PauseParams,
+    async execute(_id: string, params: PauseInput, _signal: unknown, _onUpdate: unknown, ctx: ExtensionContext) {
+      try {
+        const config = await getSlot(params.name);
+        if (!config) return text(`No dice slot named "${params.name}".`);
+        if (params.resume) {
+          registerSlot(resumedConfig(config));
+          return text(`Resumed dice slot "${params.name}".`);
+        }
+        const ms = params.for === undefined ? undefined : parseDuration(params.for);
+        if (ms === null || (ms !== undefined && params.session)) {
+          return text("Invalid pause: give 'for' as a time (s, m, h, d; e.g. '2h') or 'session', not both.");
+        }
+        const spec: PauseSpec = ms !== undefined ? { kind: "for", ms } : params.session ? { kind: "session" } : { kind: "off" };
+        const sessionId = ctx.sessionManager.getSessionId();
+        const now = Date.now();
+        const paused = pausedConfig(config, spec, sessionId, now);
+        registerSlot(paused);
+        return text(`Dice slot "${params.name}" ${formatPause(pauseStatus(paused, sessionId, now)!)}.`);
+      } catch (err) {
+        return text(`Could not pause dice: ${(err as Error).message ?? err}`);
+      }
+    },
+  });
 }
@@ -0,0 +1,37 @@
+/**
+ * The last turn of a Pi session, for slot conditions — the analog of the Claude
+ * adapter's readLastTurn. Everything after the last user-message entry counts:
+ * the assistant text is that of the last assistant message with text, and a
+ * tool call is failed when its toolResult message has isError.
+ */
+
+import type { ExtensionContext } from "@earendil-works/pi-coding-agent";
+import type { LastTurn } from "../../conditions";
+
+export function lastTurn(ctx: ExtensionContext): LastTurn {
+  const messages = ctx.sessionManager
+    .getEntries()
+    .flatMap((e) => (e.type === "message" ? [e.message] : []));
+  let start = 0;
+  messages.forEach((m, i) => {
+    if (m.role === "user") start = i + 1;
+  });
+
+  let assistantText = "";
+  const calls = new Map<string, LastTurn["toolCalls"][number]>();
+  for (const m of messages.slice(start)) {
+    if (m.role === "assistant") {
+      const text = m.content.flatMap((b) => (b.type === "text" ? [b.text] : [])).join("\n");
+      if (text) assistantText = text;
+      for (const block of m.content) {
+        if (block.type !== "toolCall") continue;
+        const path = [block.arguments?.path, block.arguments?.file_path].find((p) => typeof p === "string");
+        calls.set(block.id, { tool: block.name, failed: false, ...(path !== undefined ? { path } : {}) });
+      }
+    } else if (m.role === "toolResult" && m.isError) {
+      const call = calls.get(m.toolCallId);
+      if (call) call.failed = true;
+    }
+  }
+  return { assistantText, toolCalls: [...calls.values()] };
+}
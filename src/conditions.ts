@@ -0,0 +1,88 @@
+/**
+ * Transcript conditions — whether a slot's `when` holds for the last turn.
+ *
+ * Each adapter reads its own transcript into a LastTurn (Claude: the JSONL file,
+ * see readLastTurn in transcript.ts; Pi: the session entries) and hands the
+ * engine a `matchesCondition` that evaluates here. This lives outside
+ * src/core on purpose: the engine only sees the yes/no answer (C8).
+ */
+
+import type { SlotCondition } from "./types";
+
+/** What happened since the last user message, normalized across hosts. */
+export interface LastTurn {
+  assistantText: string;                 // text of the last assistant message (empty when none)
+  toolCalls: Array<{
+    tool: string;                        // tool name as the host reports it (Bash, Edit / bash, edit)
+    failed: boolean;                     // its result came back as an error
+    path?: string;                       // file the call targeted, when it names one
+  }>;
+}
+
+/** Tools that change files, lowercased; `fileTouched` only counts these. */
+const EDIT_TOOLS = new Set(["edit", "write", "multiedit", "notebookedit"]);
+
+/**
+ * Glob to RegExp: `**` spans directories, `*` and `?` stay within one. The
+ * pattern matches the end of the path at a directory boundary, so `*.test.ts`
+ * matches in any directory and `src/*.ts` in any `src`.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*" && glob[i + 1] === "*") {
+      source += ".*";
+      i++;
+      if (glob[i + 1] === "/") i++;
+    } else if (c === "*") source += "[^/]*";
+    else if (c === "?") source += "[^/]";
+    else source += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+  }
+  return new RegExp(`(^|/)${source}$`);
+}
+
+/**
+ * True when every part of the condition holds for the turn. A malformed
+ * condition (hand-edited registry, e.g. a bad regex) never holds.
+ */
+export function conditionMet(when: SlotCondition, turn: LastTurn): boolean {
+  if (conditionError(when) !== null) return false;
+  if (when.assistantMatches !== undefined && !new RegExp(when.assistantMatches, "i").test(turn.assistantText)) return false;
+  if (when.toolFailed !== undefined) {
+    const tool = when.toolFailed.toLowerCase();
+    if (!turn.toolCalls.some((c) => c.failed && (tool === "*" || c.tool.toLowerCase() === tool))) return false;
+  }
+  if (when.fileTouched !== undefined) {
+    const glob = globToRegExp(when.fileTouched);
+    if (!turn.toolCalls.some((c) => c.path !== undefined && EDIT_TOOLS.has(c.tool.toLowerCase()) && glob.test(c.path))) return false;
+  }
+  return true;
+}
+
+/** Why a condition is unusable, or null when it is fine. */
+export function conditionError(when: SlotCondition): string | null {
+  const { assistantMatches, toolFailed, fileTouched } = when;
+  if (assistantMatches === undefined && toolFailed === undefined && fileTouched === undefined) {
+    return "needs assistantMatches, toolFailed, or fileTouched";
+  }
+  if (assistantMatches !== undefined) {
+    try {
+      new RegExp(assistantMatches, "i");
+    } catch (err) {
+      return `assistantMatches is not a valid regex: ${(err as Error).message}`;
+    }
+  }
+  if (toolFailed !== undefined && toolFailed.trim() === "") return "toolFailed needs a tool name (or *)";
+  if (fileTouched !== undefined && fileTouched.trim() === "") return "fileTouched needs a glob";
+  return null;
+}
+
+/** One-line description of a condition, e.g. `Bash failed, edited *.test.ts`. */
+export function formatCondition(when: SlotCondition): string {
+  return [
+    ...(when.assistantMatches !== undefined ? [`assistant says /${when.assistantMatches}/`] : []),
+    ...(when.toolFailed !== undefined ? [`${when.toolFailed === "*" ? "a tool" : when.toolFailed} failed`] : []),
+    ...(when.fileTouched !== undefined ? [`edited ${when.fileTouched}`] : []),
+  ].join(", ");
+}
@@ -4,12 +4,16 @@
  * Per-session trigger cooldown markers
  *
  * Marker files: {baseDir}/state/triggered-{slotName}-{sessionId}
- * Presence of file = cooldown active.
+ * Presence of file = the slot has triggered this session. The contents are the
+ * JSON CooldownMarker (time, depth, count) the engine's cooldown modes read;
+ * older markers hold a bare ISO timestamp and still parse.
  */
 
-import { existsSync, mkdirSync, unlinkSync } from "fs";
+import { existsSync, mkdirSync, readFileSync, unlinkSync } from "fs";
 import { join } from "path";
 import { getBaseDir, validateName } from "./registry";
+import { parseMarker } from "./core/cooldown";
+import type { CooldownMarker } from "./types";
 
 /**
  * Get the state directory, creating it if needed.
@@ -39,11 +43,21 @@ export async function hasCooldown(slotName: string, sessionId: string): Promise<
 }
 
 /**
- * Mark a slot as triggered for this session.
+ * Read a slot's cooldown marker for this session, or null when it has none.
  */
-export async function markTriggered(slotName: string, sessionId: string): Promise<void> {
+export async function loadCooldown(slotName: string, sessionId: string): Promise<CooldownMarker | null> {
   const markerFile = getMarkerFile(slotName, sessionId);
-  await Bun.write(markerFile, new Date().toISOString());
+  if (!existsSync(markerFile)) return null;
+  return parseMarker(readFileSync(markerFile, "utf8"));
+}
+
+/**
+ * Mark a slot as triggered for this session (a fresh one-trigger marker unless
+ * the engine passes the updated one).
+ */
+export async function markTriggered(slotName: string, sessionId: string, marker?: CooldownMarker): Promise<void> {
+  const markerFile = getMarkerFile(slotName, sessionId);
+  await Bun.write(markerFile, JSON.stringify(marker ?? { triggeredAt: new Date().toISOString(), count: 1 }));
 }
 
 /**
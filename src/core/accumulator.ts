@@ -4,14 +4,20 @@
  * Given the slot config, the resolved current depth, and the loaded state, this
  * returns the dice count and — only when the sentinel `-1` was hit — a calibrated
  * state the caller must persist. The caller owns the write; this module owns the math.
+ *
+ * Accumulators with a `curve` skip dice counting: the curve maps depth since the
+ * last trigger straight to a per-turn chance, which the engine turns into one
+ * uniform draw.
  */
 
-import type { DiceSlotConfig, DiceState } from "../types";
+import type { DiceSlotConfig, DiceState, ProbabilityCurve } from "../types";
 
 export interface AccumulatorResult {
   diceCount: number;
   currentDepth: number;
   depthSinceTrigger: number;
+  /** Curve slots: the chance (0-100) this turn. diceCount is then 1 (one draw), or 0 at 0%. */
+  curveChance?: number;
   /** Present only when sentinel calibration changed the state; caller must persist it. */
   calibratedState?: DiceState;
 }
@@ -27,16 +33,164 @@ export function computeAccumulator(
   currentDepth: number,
   state: DiceState
 ): AccumulatorResult {
-  let triggerDepth = state.depth_at_last_trigger;
-  let calibratedState: DiceState | undefined;
-
-  if (triggerDepth < 0) {
-    triggerDepth = currentDepth;
-    calibratedState = { ...state, depth_at_last_trigger: currentDepth };
+  const { depthSinceTrigger, calibratedState } = sinceLastTrigger(currentDepth, state);
+  if (config.curve) {
+    const curveChance = curveValue(config.curve, depthSinceTrigger);
+    return { diceCount: curveChance > 0 ? 1 : 0, currentDepth, depthSinceTrigger, curveChance, calibratedState };
   }
-
-  const depthSinceTrigger = Math.max(0, currentDepth - triggerDepth);
   const diceCount = Math.min(Math.floor(depthSinceTrigger / config.accumulationRate), config.maxDice);
 
   return { diceCount, currentDepth, depthSinceTrigger, calibratedState };
 }
+
+/**
+ * Depth since the last trigger, applying the sentinel calibration. Shared by
+ * accumulators and by single slots that track quiet turns for `guaranteeAfter`.
+ */
+export function sinceLastTrigger(
+  currentDepth: number,
+  state: DiceState
+): { depthSinceTrigger: number; calibratedState?: DiceState } {
+  if (state.depth_at_last_trigger < 0) {
+    return { depthSinceTrigger: 0, calibratedState: { ...state, depth_at_last_trigger: currentDepth } };
+  }
+  return { depthSinceTrigger: Math.max(0, currentDepth - state.depth_at_last_trigger) };
+}
+
+/** Sessions a carry remembers; the one whose depth moved longest ago is forgotten first. */
+const MAX_CARRY_SESSIONS = 100;
+
+/** A saved carry, upgrading the single-session shape (`{ session, offset, last_depth }`) older versions wrote. */
+function readCarry(carry: DiceState["carry"]): NonNullable<DiceState["carry"]> {
+  if (!carry) return { depth: 0, last_depth: {} };
+  const legacy = carry as unknown as { session?: string; offset?: number; last_depth: unknown };
+  if (typeof legacy.last_depth === "number") {
+    return { depth: (legacy.offset ?? 0) + legacy.last_depth, last_depth: { [legacy.session ?? ""]: legacy.last_depth } };
+  }
+  return carry;
+}
+
+/**
+ * Map a session's depth onto the continuous depth of a project/global slot, whose
+ * state outlives any one session. The carry remembers the last depth read in
+ * each session, and each read advances the continuous depth only by that
+ * session's turns not yet counted — so resumed and concurrent sessions count
+ * every turn once, and quiet turns keep accumulating across sessions.
+ * Returns the continuous depth, plus the state to save when the carry changed.
+ */
+export function carryDepth(
+  state: DiceState,
+  sessionId: string,
+  sessionDepth: number
+): { depth: number; state?: DiceState } {
+  const carry = readCarry(state.carry);
+  const seen = carry.last_depth[sessionId];
+  if (seen === sessionDepth && state.carry === carry) return { depth: carry.depth };
+  const depth = carry.depth + Math.max(0, sessionDepth - (seen ?? 0));
+  const { [sessionId]: _, ...others } = carry.last_depth;
+  const kept = Object.keys(others).slice(-(MAX_CARRY_SESSIONS - 1));
+  const last_depth = { ...Object.fromEntries(kept.map((s) => [s, others[s]])), [sessionId]: sessionDepth };
+  return { depth, state: { ...state, carry: { depth, last_depth } } };
+}
+
+// ---------------------------------------------------------------------------
+// Probability curves
+// ---------------------------------------------------------------------------
+
+const CURVE_SHAPES = ["linear", "exponential", "logistic"] as const;
+const CURVE_KEYS = ["floor", "ceiling", "slope", "growth", "midpoint", "steepness"] as const;
+
+/** Crossing search stops here; a curve that has not crossed by then never will in practice. */
+const MAX_CURVE_DEPTH = 10_000;
+
+/** Default percent levels `crossings` reports when the caller names none. */
+export const DEFAULT_CURVE_MARKS = [25, 50, 75];
+
+/**
+ * Per-turn trigger chance (0-100) after `depth` turns since the last trigger,
+ * clamped to [floor, ceiling]:
+ *
+ *   linear       floor + slope·depth                                (slope: points per turn, default 1)
+ *   exponential  floor · growth^depth                               (floor default 1, growth default 1.1)
+ *   logistic     floor + (ceiling - floor) / (1 + e^(-steepness·(depth - midpoint)))
+ *                                                                   (midpoint default 20, steepness default 0.25)
+ */
+export function curveValue(curve: ProbabilityCurve, depth: number): number {
+  const floor = curve.floor ?? (curve.shape === "exponential" ? 1 : 0);
+  const ceiling = curve.ceiling ?? 100;
+  let p: number;
+  switch (curve.shape) {
+    case "linear":
+      p = floor + (curve.slope ?? 1) * depth;
+      break;
+    case "exponential":
+      p = floor * Math.pow(curve.growth ?? 1.1, depth);
+      break;
+    case "logistic":
+      p = floor + (ceiling - floor) / (1 + Math.exp(-(curve.steepness ?? 0.25) * (depth - (curve.midpoint ?? 20))));
+      break;
+  }
+  return Math.min(ceiling, Math.max(floor, p));
+}
+
+/**
+ * Depth since trigger at which the curve first reaches each percent level, or
+ * null when it never does (the ceiling sits below it).
+ */
+export function curveCrossings(
+  curve: ProbabilityCurve,
+  marks: number[] = DEFAULT_CURVE_MARKS
+): Array<{ percent: number; depth: number | null }> {
+  return marks.map((percent) => {
+    for (let depth = 0; depth <= MAX_CURVE_DEPTH; depth++) {
+      if (curveValue(curve, depth) >= percent) return { percent, depth };
+    }
+    return { percent, depth: null };
+  });
+}
+
+/**
+ * Parse a curve spec: `<shape>[:key=value,...]`, e.g. `linear:slope=2,ceiling=60`
+ * or `logistic:midpoint=30,steepness=0.2,floor=1`. Throws with a readable message
+ * on unknown shapes/keys or out-of-range values, so callers can validate at
+ * register time.
+ */
+export function parseCurve(text: string): ProbabilityCurve {
+  const fail = (why: string): never => {
+    throw new Error(`Invalid curve "${text}": ${why}`);
+  };
+  const [shape, params = ""] = text.trim().split(/:(.*)/s);
+  if (!(CURVE_SHAPES as readonly string[]).includes(shape)) fail(`shape must be ${CURVE_SHAPES.join("|")}`);
+
+  const curve: ProbabilityCurve = { shape: shape as ProbabilityCurve["shape"] };
+  for (const pair of params.split(",").filter((p) => p.trim() !== "")) {
+    const [key, raw] = pair.split("=").map((p) => p.trim());
+    if (!(CURVE_KEYS as readonly string[]).includes(key)) fail(`unknown parameter "${key}" (${CURVE_KEYS.join("|")})`);
+    const value = Number(raw);
+    if (raw === undefined || raw === "" || !Number.isFinite(value)) fail(`${key} must be a number`);
+    curve[key as (typeof CURVE_KEYS)[number]] = value;
+  }
+
+  const problem = curveError(curve);
+  if (problem) fail(problem);
+  return curve;
+}
+
+/** Range problems in a curve, or null when it is usable. */
+export function curveError(curve: ProbabilityCurve): string | null {
+  const floor = curve.floor ?? (curve.shape === "exponential" ? 1 : 0);
+  const ceiling = curve.ceiling ?? 100;
+  if (floor < 0 || ceiling > 100 || floor > ceiling) return "needs 0 <= floor <= ceiling <= 100";
+  if (curve.shape === "exponential" && floor <= 0) return "exponential needs floor > 0";
+  if (curve.slope !== undefined && curve.slope <= 0) return "slope must be > 0";
+  if (curve.growth !== undefined && curve.growth <= 1) return "growth must be > 1";
+  if (curve.steepness !== undefined && curve.steepness <= 0) return "steepness must be > 0";
+  if (curve.midpoint !== undefined && curve.midpoint < 0) return "midpoint must be >= 0";
+  return null;
+}
+
+/** `logistic:midpoint=30,steepness=0.2` — the spec parseCurve reads back. */
+export function formatCurve(curve: ProbabilityCurve): string {
+  const params = CURVE_KEYS.filter((k) => curve[k] !== undefined).map((k) => `${k}=${curve[k]}`);
+  return params.length > 0 ? `${curve.shape}:${params.join(",")}` : curve.shape;
+}
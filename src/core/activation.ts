@@ -0,0 +1,134 @@
+/**
+ * Pure activation windows — when and where a slot may roll (no IO).
+ *
+ * A slot's `active` window limits it to certain days and hours, and can keep it
+ * out of CI, non-interactive runs, or terminals whose TERM_PROGRAM does not
+ * match. The engine cannot read the clock or the environment (C8), so the
+ * adapter resolves an ActivationContext (see activationContext) and passes it
+ * in the CoreCheckContext.
+ */
+
+import type { ActivationContext, ActivationWindow } from "../types";
+
+const DAY_NAMES = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const DAY_SETS: Record<string, number[]> = { weekdays: [1, 2, 3, 4, 5], weekends: [0, 6], daily: [0, 1, 2, 3, 4, 5, 6] };
+
+/** CI providers set CI to a non-empty value; `0` and `false` count as unset. */
+function isCi(value: string | undefined): boolean {
+  return value !== undefined && !["", "0", "false"].includes(value.trim().toLowerCase());
+}
+
+/**
+ * The activation context for a check at `now` (local time) in `env`.
+ * `interactive` is the adapter's own call: only it knows how the host runs.
+ */
+export function activationContext(now: Date, env: Record<string, string | undefined>, interactive: boolean): ActivationContext {
+  return {
+    weekday: now.getDay(),
+    minute: now.getHours() * 60 + now.getMinutes(),
+    ci: isCi(env.CI),
+    interactive,
+    ...(env.TERM_PROGRAM ? { termProgram: env.TERM_PROGRAM } : {}),
+  };
+}
+
+/** `mon` or `monday` (lowercase) as 0-6, Sunday first; null when unknown. */
+function dayIndex(name: string): number | null {
+  const word = name.trim();
+  const i = DAY_NAMES.findIndex((d) => d === word || d.slice(0, 3) === word);
+  return i >= 0 ? i : null;
+}
+
+/**
+ * Parse `days`: `weekdays`, `weekends`, `daily`, or a comma list of day names
+ * and ranges (`mon-fri`, `sat,sun`, `fri-mon` wraps the weekend). Null when
+ * malformed.
+ */
+export function parseDays(text: string): Set<number> | null {
+  const days = new Set<number>();
+  for (const part of text.split(",")) {
+    const word = part.trim().toLowerCase();
+    if (DAY_SETS[word]) {
+      for (const d of DAY_SETS[word]) days.add(d);
+      continue;
+    }
+    const [from, to, extra] = word.split("-");
+    const start = dayIndex(from);
+    const end = to === undefined ? start : dayIndex(to);
+    if (start === null || end === null || extra !== undefined) return null;
+    for (let d = start; ; d = (d + 1) % 7) {
+      days.add(d);
+      if (d === end) break;
+    }
+  }
+  return days;
+}
+
+function minuteOf(text: string): number | null {
+  const m = /^(\d{1,2})(?::(\d{2}))?$/.exec(text.trim());
+  if (!m) return null;
+  const minute = Number(m[1]) * 60 + Number(m[2] ?? 0);
+  return Number(m[2] ?? 0) < 60 && minute <= 24 * 60 ? minute : null;
+}
+
+/**
+ * Parse `hours`: a local time range `9-18` or `09:30-22:00`, start inclusive and
+ * end exclusive; a start after the end wraps midnight (`22-6`). Returned as
+ * minutes since midnight. Null when malformed or empty.
+ */
+export function parseHours(text: string): { from: number; to: number } | null {
+  const [a, b, extra] = text.split("-");
+  const from = minuteOf(a ?? "");
+  const to = b === undefined ? null : minuteOf(b);
+  if (from === null || to === null || extra !== undefined || from === to || from === 24 * 60) return null;
+  return { from, to };
+}
+
+/** Why a window is invalid, or null when it is fine. */
+export function activationError(window: ActivationWindow): string | null {
+  const { days, hours, skipCi, interactiveOnly, termProgram } = window;
+  if (days === undefined && hours === undefined && !skipCi && !interactiveOnly && termProgram === undefined) {
+    return "needs days, hours, skipCi, interactiveOnly, or termProgram";
+  }
+  if (days !== undefined && parseDays(days) === null) return `days "${days}" is not weekdays, weekends, daily, or day names like mon-fri`;
+  if (hours !== undefined && parseHours(hours) === null) return `hours "${hours}" is not a time range like 9-18 or 09:30-22:00`;
+  if (termProgram !== undefined) {
+    try {
+      new RegExp(termProgram, "i");
+    } catch (err) {
+      return `termProgram is not a valid regex: ${(err as Error).message}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether the slot may roll in `ctx`: every field given must hold. Without a
+ * context nothing is open, and a malformed field (hand-edited registry) keeps
+ * the window shut.
+ */
+export function windowOpen(window: ActivationWindow, ctx: ActivationContext | undefined): boolean {
+  if (!ctx || activationError(window) !== null) return false;
+  if (window.days !== undefined && !parseDays(window.days)!.has(ctx.weekday)) return false;
+  if (window.hours !== undefined) {
+    const { from, to } = parseHours(window.hours)!;
+    const inside = from < to ? ctx.minute >= from && ctx.minute < to : ctx.minute >= from || ctx.minute < to;
+    if (!inside) return false;
+  }
+  if (window.skipCi && ctx.ci) return false;
+  if (window.interactiveOnly && !ctx.interactive) return false;
+  if (window.termProgram !== undefined && !new RegExp(window.termProgram, "i").test(ctx.termProgram ?? "")) return false;
+  return true;
+}
+
+/** One-line description of a window, e.g. `weekdays 9-18, not in CI`. */
+export function formatActivation(window: ActivationWindow): string {
+  return [
+    [window.days, window.hours].filter((p) => p !== undefined).join(" "),
+    ...(window.skipCi ? ["not in CI"] : []),
+    ...(window.interactiveOnly ? ["interactive only"] : []),
+    ...(window.termProgram !== undefined ? [`TERM_PROGRAM /${window.termProgram}/`] : []),
+  ]
+    .filter((p) => p !== "")
+    .join(", ");
+}
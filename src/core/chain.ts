@@ -0,0 +1,76 @@
+/**
+ * Pure chain policy — slots that stay dormant until other slots have triggered
+ * (no IO).
+ *
+ * A slot with `requires` is armed once every slot it names has triggered in
+ * that slot's own scope; with `requiresWithin`, only while each prerequisite's
+ * last trigger is at most that many depth units back. Prerequisites record
+ * their trigger history in `DiceState.triggers`; the caller loads it.
+ */
+
+import type { DiceSlotConfig, DiceState, SlotStatus } from "../types";
+
+type Triggers = NonNullable<DiceState["triggers"]>;
+export type ChainStatus = NonNullable<SlotStatus["chain"]>;
+
+/** A prerequisite as seen from the dependent slot: its trigger history and current depth. */
+export interface Prerequisite {
+  name: string;
+  triggers?: Triggers;
+  currentDepth?: number; // read only when the dependent has requiresWithin
+}
+
+/**
+ * For every slot some other slot requires: whether its trigger depth must be
+ * recorded too (a dependent uses requiresWithin) or just the count.
+ */
+export function prerequisitesOf(slots: DiceSlotConfig[]): Map<string, "count" | "depth"> {
+  const needs = new Map<string, "count" | "depth">();
+  for (const slot of slots) {
+    for (const name of slot.requires ?? []) {
+      if (slot.requiresWithin !== undefined) needs.set(name, "depth");
+      else if (!needs.has(name)) needs.set(name, "count");
+    }
+  }
+  return needs;
+}
+
+/** The history after one more trigger. */
+export function nextTriggers(prev: Triggers | undefined, at: string, depth?: number): Triggers {
+  return { count: (prev?.count ?? 0) + 1, last_at: at, ...(depth !== undefined ? { last_depth: depth } : {}) };
+}
+
+/**
+ * Whether a dependent slot is armed. A prerequisite that never triggered, or
+ * (with `within`) triggered too long ago or at an unrecorded depth, keeps it
+ * dormant.
+ */
+export function chainStatus(within: number | undefined, prerequisites: Prerequisite[]): ChainStatus {
+  const waitingOn: string[] = [];
+  let until: number | undefined;
+  for (const { name, triggers, currentDepth } of prerequisites) {
+    if (!triggers) {
+      waitingOn.push(name);
+      continue;
+    }
+    if (within === undefined) continue;
+    const lapse = triggers.last_depth === undefined ? undefined : triggers.last_depth + within;
+    if (lapse === undefined || (currentDepth ?? 0) > lapse) waitingOn.push(name);
+    else until = until === undefined ? lapse : Math.min(until, lapse);
+  }
+  const armed = waitingOn.length === 0;
+  return { armed, waitingOn, ...(armed && until !== undefined ? { until } : {}) };
+}
+
+/** Why a slot's chain is unusable, or null when it is fine. */
+export function chainError(config: Pick<DiceSlotConfig, "name" | "requires" | "requiresWithin">): string | null {
+  if (config.requiresWithin !== undefined) {
+    if (!config.requires?.length) return "requiresWithin needs requires";
+    if (!Number.isInteger(config.requiresWithin) || config.requiresWithin < 1) return "requiresWithin must be an integer >= 1";
+  }
+  if (config.requires !== undefined) {
+    if (config.requires.length === 0) return "requires needs at least one slot";
+    if (config.requires.includes(config.name)) return "a slot cannot require itself";
+  }
+  return null;
+}
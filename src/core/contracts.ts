@@ -8,7 +8,7 @@
  * reuse the engine without importing any Claude transcript/session helpers.
  */
 
-import type { DiceSlotConfig, DiceState } from "../types";
+import type { ActivationContext, CooldownMarker, DiceSlotConfig, DiceState, RollRecord, SlotCondition } from "../types";
 
 /**
  * Context handed to the engine. Session id is resolved up front by the adapter
@@ -18,15 +18,34 @@ import type { DiceSlotConfig, DiceState } from "../types";
  * clearSlot, sessionStart — never parse the transcript. Adapters should memoize
  * the resolver so multiple accumulator slots in one check parse at most once.
  * Resolves to `undefined` when the host has no depth source.
+ *
+ * `scopeKeys` are the storage keys for project- and global-scoped slots, resolved
+ * by the adapter like the session id (e.g. a hash of the project directory). A
+ * scope without a key falls back to the session.
+ *
+ * `matchesCondition` answers whether a slot's `when` holds for the last turn of
+ * the adapter's transcript; the engine never sees the transcript itself. Like
+ * depth it is asked lazily, only for slots that have a condition. Without it,
+ * no condition holds.
+ *
+ * `activation` is the clock and environment (weekday, local time, CI,
+ * interactivity, TERM_PROGRAM) that slots' activation windows are checked
+ * against. The engine cannot read either itself; without it no window is open.
  */
 export interface CoreCheckContext {
   sessionId: string;
   getCurrentDepth(): Promise<number | undefined>;
+  scopeKeys?: { project?: string; global?: string };
+  matchesCondition?(when: SlotCondition): Promise<boolean>;
+  activation?: ActivationContext;
 }
 
 /**
  * Capabilities a host provides to the engine. Storage methods are async to match
  * file/network stores; `clearCooldown` is sync to mirror the current file store.
+ * The cooldown marker is opaque storage: `markTriggered` writes the marker the
+ * engine computed (or a fresh one-trigger marker when omitted), `loadCooldown`
+ * reads it back, `hasCooldown` only asks whether one exists.
  */
 export interface DiceHost {
   listSlots(): Promise<DiceSlotConfig[]>;
@@ -35,11 +54,25 @@ export interface DiceHost {
   saveState(slotName: string, sessionId: string, state: DiceState): Promise<void>;
   clearState(slotName: string, sessionId: string): Promise<void>;
   hasCooldown(slotName: string, sessionId: string): Promise<boolean>;
-  markTriggered(slotName: string, sessionId: string): Promise<void>;
+  loadCooldown(slotName: string, sessionId: string): Promise<CooldownMarker | null>;
+  markTriggered(slotName: string, sessionId: string, marker?: CooldownMarker): Promise<void>;
   clearCooldown(slotName: string, sessionId: string): void;
   /**
    * Optional RNG returning a float in [0, 1). Defaults to Math.random when
    * omitted; injected for deterministic conformance tests (plan D2).
    */
   rng?(): number;
+  /**
+   * Optional seeded streams (the `seeded` provider; see core/rng.ts). When
+   * present the engine ignores `rng` and draws each pool and each unpooled slot
+   * from its own stream, seeded by rngSeed(session, depth, stream), so a check
+   * can be replayed exactly.
+   */
+  rngFor?(seed: string): () => number;
+  /**
+   * Optional roll history. When present the engine appends one record per slot
+   * after every check that has slots, with the depth only when the check read it
+   * anyway. Must not throw: history is a log, not state.
+   */
+  appendHistory?(sessionId: string, records: RollRecord[]): Promise<void>;
 }
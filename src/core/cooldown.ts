@@ -0,0 +1,150 @@
+/**
+ * Pure cooldown policy — when a slot that has triggered may trigger again (no IO).
+ *
+ * A cooldown spec is 'per-session', 'none', 'turns:N', 'duration:30m', or
+ * 'max:N'. The host stores one marker per slot and session (the time, depth,
+ * and count of its triggers); this module decides from that marker whether the
+ * slot is silenced, and how far an optional refractory curve scales its odds.
+ */
+
+import type { CooldownMarker, CooldownSpec, DiceSlotConfig, ProbabilityCurve } from "../types";
+import { curveValue, curveCrossings } from "./accumulator";
+
+export type Cooldown =
+  | { kind: "per-session" }
+  | { kind: "none" }
+  | { kind: "turns"; turns: number }
+  | { kind: "duration"; ms: number }
+  | { kind: "max"; max: number };
+
+const DURATION_UNITS: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+/**
+ * The cooldown a slot gets when it names none. A per-session lockout would let a
+ * schedule, deck, or veto fire only once, and would lock out a refractory slot
+ * before its curve recovers, so those default to none. The registries and every
+ * register command resolve the default here; `refractory` may be the unparsed spec.
+ */
+export function defaultCooldown(
+  config: Pick<Partial<DiceSlotConfig>, "type" | "veto"> & { refractory?: unknown }
+): CooldownSpec {
+  const lockoutFree = config.type === "scheduled" || config.type === "deck" || config.veto || config.refractory !== undefined;
+  return lockoutFree ? "none" : "per-session";
+}
+
+/** Parse `30m`, `2h`, `45s`, or `1d` into milliseconds; null when malformed or zero. */
+export function parseDuration(text: string): number | null {
+  const m = /^(\d+(?:\.\d+)?)([smhd])$/.exec(text.trim());
+  if (!m) return null;
+  const ms = Number(m[1]) * DURATION_UNITS[m[2]];
+  return ms > 0 ? ms : null;
+}
+
+/** Parse a cooldown spec. Throws `Invalid cooldown "...": why` on a bad one. */
+export function parseCooldown(spec: string): Cooldown {
+  const text = spec.trim();
+  if (text === "per-session" || text === "none") return { kind: text };
+  const colon = text.indexOf(":");
+  const kind = colon > 0 ? text.slice(0, colon) : text;
+  const arg = colon > 0 ? text.slice(colon + 1).trim() : "";
+  const fail = (why: string): never => {
+    throw new Error(`Invalid cooldown "${spec}": ${why}`);
+  };
+  switch (kind) {
+    case "turns":
+    case "max": {
+      const n = Number(arg);
+      if (!/^\d+$/.test(arg) || n < 1) fail(`${kind} needs a whole number >= 1, e.g. ${kind}:3`);
+      return kind === "turns" ? { kind, turns: n } : { kind, max: n };
+    }
+    case "duration": {
+      const ms = parseDuration(arg);
+      if (ms === null) fail("duration needs a positive time with a unit (s, m, h, d), e.g. duration:30m");
+      return { kind, ms: ms! };
+    }
+    default:
+      return fail("expected per-session, none, turns:N, duration:<time>, or max:N");
+  }
+}
+
+/** Why a cooldown spec is unusable, or null when it parses. */
+export function cooldownError(spec: string): string | null {
+  try {
+    parseCooldown(spec);
+    return null;
+  } catch (err) {
+    return (err as Error).message;
+  }
+}
+
+/** True when checking the cooldown needs the current depth. */
+export function cooldownNeedsDepth(cooldown: Cooldown): boolean {
+  return cooldown.kind === "turns";
+}
+
+/**
+ * Whether a slot with this marker is silenced now, and when that ends (a depth
+ * for turns, an ISO time for durations). A marker without a recorded depth
+ * (legacy, or written under another mode) never holds a turns cooldown.
+ */
+export function cooldownWindow(
+  cooldown: Cooldown,
+  marker: CooldownMarker,
+  now: number,
+  depth = 0
+): { active: boolean; untilDepth?: number; until?: string } {
+  switch (cooldown.kind) {
+    case "per-session":
+      return { active: true };
+    case "none":
+      return { active: false };
+    case "max":
+      return { active: marker.count >= cooldown.max };
+    case "turns": {
+      if (marker.depth === undefined) return { active: false };
+      // A trigger at depth d silences the next N depths, d+1 through d+N.
+      const untilDepth = marker.depth + cooldown.turns + 1;
+      return { active: depth < untilDepth, untilDepth };
+    }
+    case "duration": {
+      const at = Date.parse(marker.triggeredAt);
+      if (Number.isNaN(at)) return { active: false };
+      return { active: now < at + cooldown.ms, until: new Date(at + cooldown.ms).toISOString() };
+    }
+  }
+}
+
+/** The marker after one more trigger. */
+export function nextMarker(prev: CooldownMarker | null, triggeredAt: string, depth?: number): CooldownMarker {
+  return { triggeredAt, ...(depth !== undefined ? { depth } : {}), count: (prev?.count ?? 0) + 1 };
+}
+
+/**
+ * Read a marker file's contents: JSON, or a legacy bare timestamp (one trigger,
+ * depth unknown). Shared by the file stores so both read the same format.
+ */
+export function parseMarker(text: string): CooldownMarker {
+  try {
+    const data = JSON.parse(text) as Partial<CooldownMarker>;
+    if (data && typeof data === "object" && typeof data.triggeredAt === "string") {
+      return {
+        triggeredAt: data.triggeredAt,
+        ...(typeof data.depth === "number" ? { depth: data.depth } : {}),
+        count: typeof data.count === "number" && data.count > 0 ? data.count : 1,
+      };
+    }
+  } catch {
+    // legacy marker — fall through
+  }
+  return { triggeredAt: text.trim(), count: 1 };
+}
+
+/** Percent (0-100) of normal odds a refractory curve allows `depthSince` turns after a trigger. */
+export function refractoryPercent(curve: ProbabilityCurve, depthSince: number): number {
+  return Math.min(100, Math.max(0, curveValue(curve, depthSince)));
+}
+
+/** Turns after a trigger until a refractory curve is back to full odds, or null if it never is. */
+export function refractoryLength(curve: ProbabilityCurve): number | null {
+  return curveCrossings(curve, [100])[0].depth;
+}
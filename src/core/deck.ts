@@ -0,0 +1,44 @@
+/**
+ * Pure deck policy for `deck` slots — a shuffle bag of `deckSize` cards, `deckHits`
+ * of them hits, drawn one card per turn without replacement (no IO).
+ *
+ * A shuffled bag drawn card by card is exchangeable, so the counts of cards and
+ * hits left are the whole state: the next card is a hit with chance
+ * hits/remaining. When the bag runs out it reshuffles to a fresh deck, so every
+ * full pass through the deck fires exactly `deckHits` times. The caller owns
+ * loading and saving the state; this module owns the math.
+ */
+
+import type { DeckState, DiceSlotConfig, DiceState } from "../types";
+
+/** A freshly shuffled deck for the slot (defaults: 20 cards, 1 hit). */
+export function freshDeck(config: DiceSlotConfig): DeckState {
+  const size = Math.max(1, config.deckSize ?? 20);
+  return { remaining: size, hits: Math.min(size, Math.max(0, config.deckHits ?? 1)) };
+}
+
+/**
+ * The deck the next draw comes from. An empty or missing deck reshuffles; so
+ * does a saved deck that no longer fits the config (the slot was re-registered
+ * with a smaller deck).
+ */
+export function currentDeck(config: DiceSlotConfig, state: DiceState): DeckState {
+  const fresh = freshDeck(config);
+  const deck = state.deck;
+  if (!deck || deck.remaining <= 0 || deck.remaining > fresh.remaining || deck.hits > Math.min(deck.remaining, fresh.hits)) {
+    return fresh;
+  }
+  return deck;
+}
+
+/** Exact chance (0-100) that the next card drawn from `deck` is a hit. */
+export function deckProbability(deck: DeckState): number {
+  if (deck.remaining <= 0) return 0;
+  return Math.round((deck.hits / deck.remaining) * 10000) / 100;
+}
+
+/** Draw one card (one RNG call). Returns whether it hit and the deck left behind. */
+export function drawCard(deck: DeckState, rng: () => number = Math.random): { hit: boolean; deck: DeckState } {
+  const hit = Math.floor(rng() * deck.remaining) < deck.hits;
+  return { hit, deck: { remaining: deck.remaining - 1, hits: deck.hits - (hit ? 1 : 0) } };
+}
@@ -4,39 +4,465 @@
  * Owns scheduling policy (dice counts, sentinel calibration, shared-roll grouping,
  * trigger detection, reset/cooldown-on-trigger, session-start clearing) over the
  * DiceHost primitives. No Claude/Bun/fs/path/process.env (enforced by C8). The
- * only impurities are rollDice (seeded via host.rng) and the reset timestamp.
+ * only impurities are rollDice/rollFaces (seeded via host.rng or host.rngFor), the reset
+ * timestamp, and the clock that duration cooldowns compare against.
  */
 
-import type { DiceResult, DiceSlotConfig, SlotStatus } from "../types";
+import type { CooldownMarker, DeckState, DiceFace, DiceResult, DiceSlotConfig, DiceState, SkipReason, SlotStatus } from "../types";
 import type { CoreCheckContext, DiceHost } from "./contracts";
-import { rollDice, checkTarget, findTriggerValue, calculateProbability } from "../roll";
-import { computeAccumulator } from "./accumulator";
+import {
+  rollDice,
+  checkTarget,
+  findTriggerValue,
+  calculateProbability,
+  isSumMode,
+  sumRolls,
+  keptDieDistribution,
+  explodeRerolls,
+  countHits,
+  rollFaces,
+  faceValues,
+  faceLabel,
+  faceDistribution,
+} from "../roll";
+import { computeAccumulator, sinceLastTrigger, carryDepth, curveValue, curveCrossings, formatCurve, DEFAULT_CURVE_MARKS } from "./accumulator";
+import { freshDeck, currentDeck, deckProbability, drawCard } from "./deck";
+import { scheduleDue, nextScheduledDepth, formatSchedule } from "./schedule";
+import { type ChainStatus, type Prerequisite, prerequisitesOf, nextTriggers, chainStatus } from "./chain";
+import { pauseStatus } from "./pause";
+import { windowOpen } from "./activation";
+import { isPooled, poolKey } from "./pool";
+import { rngSeed } from "./rng";
+import { historyRecords } from "./history";
+import {
+  type Cooldown,
+  parseCooldown,
+  cooldownNeedsDepth,
+  cooldownWindow,
+  nextMarker,
+  refractoryPercent,
+  refractoryLength,
+} from "./cooldown";
+import {
+  type DiceExpression,
+  parseExpression,
+  evaluateExpression,
+  expressionDiceCount,
+  expressionProbability,
+} from "./expression";
 
-function emptyResult(slotName: string): DiceResult {
-  return { triggered: false, rolls: [], best: 0, diceCount: 0, probability: 0, slotName };
+function emptyResult(slotName: string, skipped?: SkipReason): DiceResult {
+  return { triggered: false, rolls: [], best: 0, diceCount: 0, probability: 0, slotName, ...(skipped ? { skipped } : {}) };
+}
+
+/** Curve accumulators draw one uniform number per turn instead of rolling dice. */
+function hasCurve(config: DiceSlotConfig): config is DiceSlotConfig & { curve: NonNullable<DiceSlotConfig["curve"]> } {
+  return config.type === "accumulator" && config.curve !== undefined;
+}
+
+/** True when a pity timer is due: the slot has gone `guaranteeAfter` depth units without triggering. */
+export function pityDue(config: DiceSlotConfig, depthSinceTrigger: number): boolean {
+  if (config.guaranteeAfter === undefined) return false;
+  if (config.type !== "accumulator" && config.type !== "single") return false;
+  return depthSinceTrigger >= config.guaranteeAfter;
+}
+
+/**
+ * Apply a due pity timer to a finished roll. The dice are still rolled (so RNG
+ * consumption and shared pools are unchanged); a miss is turned into a trigger
+ * marked `forced`, at certain odds.
+ */
+function withPity(config: DiceSlotConfig, result: DiceResult, depthSinceTrigger: number): DiceResult {
+  if (result.triggered || !pityDue(config, depthSinceTrigger)) return result;
+  return { ...result, triggered: true, forced: "pity", probability: 100 };
+}
+
+/** True for project/global slots, whose state and cooldown outlive the session. */
+function isScoped(config: DiceSlotConfig): config is DiceSlotConfig & { scope: "project" | "global" } {
+  return config.scope === "project" || config.scope === "global";
+}
+
+/** Storage key for a project/global slot; undefined for session slots or an unresolved scope. */
+function scopeKey(config: DiceSlotConfig, ctx: CoreCheckContext): string | undefined {
+  return isScoped(config) ? ctx.scopeKeys?.[config.scope] : undefined;
+}
+
+/**
+ * The context a slot's state lives under. Session slots use the check context
+ * as is. Project/global slots swap in the adapter-resolved scope key and read a
+ * depth that continues across sessions (see carryDepth); the carry is saved
+ * only when that depth is actually read. A scope without a key stays in-session.
+ */
+function slotContext(host: DiceHost, config: DiceSlotConfig, ctx: CoreCheckContext): CoreCheckContext {
+  const key = scopeKey(config, ctx);
+  if (key === undefined) return ctx;
+  let depth: Promise<number | undefined> | undefined;
+  const continuous = async (): Promise<number | undefined> => {
+    const sessionDepth = await ctx.getCurrentDepth();
+    if (sessionDepth === undefined) return undefined;
+    const carried = carryDepth(await host.loadState(config.name, key), ctx.sessionId, sessionDepth);
+    if (carried.state) await host.saveState(config.name, key, carried.state);
+    return carried.depth;
+  };
+  return { ...ctx, sessionId: key, getCurrentDepth: () => (depth ??= continuous()) };
+}
+
+/** What the fresh state written by a trigger or reset keeps: a scoped slot's carry and the trigger history. */
+function keptState({ carry, triggers }: DiceState): Pick<DiceState, "carry" | "triggers"> {
+  return { ...(carry ? { carry } : {}), ...(triggers ? { triggers } : {}) };
+}
+
+/**
+ * Whether a chained slot is armed. Each prerequisite's trigger history is read
+ * under that prerequisite's own scope, as is its depth when the chain has
+ * requiresWithin. A prerequisite missing from the registry keeps it dormant.
+ */
+async function readChain(
+  host: DiceHost,
+  config: DiceSlotConfig,
+  slots: DiceSlotConfig[],
+  ctx: CoreCheckContext
+): Promise<ChainStatus | undefined> {
+  if (!config.requires?.length) return undefined;
+  const prerequisites: Prerequisite[] = [];
+  for (const name of config.requires) {
+    const pre = slots.find((s) => s.name === name);
+    if (!pre) {
+      prerequisites.push({ name });
+      continue;
+    }
+    const pctx = slotContext(host, pre, ctx);
+    const { triggers } = await host.loadState(name, pctx.sessionId);
+    const currentDepth = config.requiresWithin !== undefined && triggers ? ((await pctx.getCurrentDepth()) ?? 0) : undefined;
+    prerequisites.push({ name, triggers, currentDepth });
+  }
+  return chainStatus(config.requiresWithin, prerequisites);
+}
+
+/** True unless the slot has a `when` the adapter says the last turn does not match. */
+async function conditionHolds(config: DiceSlotConfig, ctx: CoreCheckContext): Promise<boolean> {
+  if (config.when === undefined) return true;
+  return ctx.matchesCondition ? ctx.matchesCondition(config.when) : false;
+}
+
+/** True unless the slot has an activation window that is shut right now. */
+function activeNow(config: DiceSlotConfig, ctx: CoreCheckContext): boolean {
+  return config.active === undefined || windowOpen(config.active, ctx.activation);
+}
+
+/** The slot's cooldown; a malformed spec (hand-edited registry) falls back to per-session. */
+export function slotCooldown(config: DiceSlotConfig): Cooldown {
+  try {
+    return parseCooldown(config.cooldown ?? "per-session");
+  } catch {
+    return { kind: "per-session" };
+  }
+}
+
+type CooldownRead = {
+  marker: CooldownMarker | null;
+  window: { active: boolean; untilDepth?: number; until?: string };
+  refractory?: number; // percent of normal odds, set only while below 100
+};
+
+/**
+ * Whether a slot is silenced by its cooldown this turn and, for refractory
+ * slots, what percent of normal odds it gets. Plain per-session slots keep the
+ * existence-only marker check and 'none' reads nothing, so cheap checks stay
+ * cheap; depth is read only for turns cooldowns and refractory curves.
+ */
+async function readCooldown(host: DiceHost, config: DiceSlotConfig, ctx: CoreCheckContext): Promise<CooldownRead> {
+  const cooldown = slotCooldown(config);
+  if (!config.refractory) {
+    if (cooldown.kind === "none") return { marker: null, window: { active: false } };
+    if (cooldown.kind === "per-session") {
+      return { marker: null, window: { active: await host.hasCooldown(config.name, ctx.sessionId) } };
+    }
+  }
+  const marker = await host.loadCooldown(config.name, ctx.sessionId);
+  if (!marker) return { marker: null, window: { active: false } };
+  const refractoryDepth = config.refractory !== undefined && marker.depth !== undefined;
+  const depth = cooldownNeedsDepth(cooldown) || refractoryDepth ? ((await ctx.getCurrentDepth()) ?? 0) : 0;
+  const window = cooldownWindow(cooldown, marker, Date.now(), depth);
+  const percent = refractoryDepth ? refractoryPercent(config.refractory!, Math.max(0, depth - marker.depth!)) : 100;
+  return { marker, window, ...(percent < 100 ? { refractory: percent } : {}) };
+}
+
+/** Scale a refractory slot's reported odds to the percent its curve allows. */
+function withRefractory(result: DiceResult, percent: number): DiceResult {
+  return { ...result, refractory: percent, probability: Math.round(result.probability * percent) / 100 };
+}
+
+/** Parsed expression for an expression slot, or null when missing/malformed (→ 0 dice). */
+export function slotExpression(config: DiceSlotConfig): DiceExpression | null {
+  if (config.type !== "expression" || !config.expression) return null;
+  try {
+    return parseExpression(config.expression);
+  } catch {
+    return null;
+  }
+}
+
+/** True when the slot rolls an explicit face list instead of a uniform 1..die. */
+function hasCustomFaces(config: DiceSlotConfig): config is DiceSlotConfig & { faces: DiceFace[] } {
+  return Array.isArray(config.faces) && config.faces.length > 0;
+}
+
+/** Roll `count` of the slot's own dice, standard or custom, one RNG call per die. */
+function rollSlotFaces(config: DiceSlotConfig, count: number, rng?: () => number): number[] {
+  if (!hasCustomFaces(config)) return rollDice(count, config.die, rng);
+  return rollFaces(count, faceValues(config.faces), config.weights, rng);
+}
+
+/**
+ * How many rolls each kept die is chosen from: 1 for a plain slot, N under
+ * (dis)advantage. Custom dice do not take advantage.
+ */
+function advantageFold(config: DiceSlotConfig): number {
+  if (!config.advantage || config.advantage === "none" || hasCustomFaces(config)) return 1;
+  return Math.max(2, config.advantageDice ?? 2);
+}
+
+/** Extra rolls an exploding die may add (0 = the slot does not explode; custom dice never do). */
+function explodeDepth(config: DiceSlotConfig): number {
+  return config.explode && !hasCustomFaces(config) ? Math.max(1, config.explodeDepth ?? 5) : 0;
+}
+
+/** Trigger chance (0-100) for a slot rolling `diceCount` dice. */
+export function slotProbability(config: DiceSlotConfig, diceCount: number): number {
+  if (config.type === "deck") return deckProbability(freshDeck(config));
+  const expr = slotExpression(config);
+  if (expr) return expressionProbability(expr, config.target, config.targetMode);
+  if (hasCustomFaces(config)) {
+    return calculateProbability(diceCount, config.faces.length, config.target, config.targetMode, {
+      face: faceDistribution(faceValues(config.faces), config.weights),
+      minHits: config.minHits,
+    });
+  }
+  const fold = advantageFold(config);
+  const face =
+    fold > 1 ? keptDieDistribution(config.die, config.advantage === "disadvantage" ? "lowest" : "highest", fold) : undefined;
+  return calculateProbability(diceCount, config.die, config.target, config.targetMode, {
+    face,
+    explodeDepth: explodeDepth(config),
+    minHits: config.minHits,
+  });
+}
+
+type SlotRolls = { rolls: number[]; advantageRolls?: number[][]; exploded?: number[] };
+
+/**
+ * Roll a slot's dice. In a pool, `base` is the shared base die and becomes the
+ * first die; the rest are the slot's own bonus dice.
+ *
+ * Advantage applies to every die the slot observes, the shared base included:
+ * the slot privately rolls N-1 companions for the base, then N rolls per bonus
+ * die, keeping the highest (lowest for disadvantage). Other slots in the pool
+ * still see the raw base.
+ *
+ * Exploding slots roll a kept max face again, and again, up to the depth cap;
+ * the extra rolls are inserted into `rolls` right after the die that exploded,
+ * so sum modes add them and per-die modes treat them as extra dice. An exploding
+ * base explodes privately for each slot, like advantage companions.
+ *
+ * Per die, RNG is drawn as: advantage rolls, then explosion extras. Plain slots
+ * draw exactly one RNG value per bonus die.
+ */
+function rollSlotDice(config: DiceSlotConfig, diceCount: number, rng?: () => number, base?: number): SlotRolls {
+  const fold = advantageFold(config);
+  const depth = explodeDepth(config);
+  if (fold === 1 && depth === 0) {
+    if (base === undefined) return { rolls: rollSlotFaces(config, diceCount, rng) };
+    return { rolls: [base, ...(diceCount > 1 ? rollSlotFaces(config, diceCount - 1, rng) : [])] };
+  }
+
+  const keep = config.advantage === "disadvantage" ? Math.min : Math.max;
+  const rolls: number[] = [];
+  const advantageRolls: number[][] = [];
+  const exploded: number[] = [];
+  for (let i = 0; i < diceCount; i++) {
+    const shared = i === 0 && base !== undefined;
+    const set = shared ? [base!, ...rollDice(fold - 1, config.die, rng)] : rollDice(fold, config.die, rng);
+    if (fold > 1) advantageRolls.push(set);
+    const kept = keep(...set);
+    const extra = depth > 0 ? explodeRerolls(kept, config.die, depth, rng) : [];
+    // Every roll but the last in a chain showed the max face and rolled again.
+    for (let k = 0; k < extra.length; k++) exploded.push(rolls.length + k);
+    rolls.push(kept, ...extra);
+  }
+  return {
+    rolls,
+    ...(fold > 1 ? { advantageRolls } : {}),
+    ...(depth > 0 ? { exploded } : {}),
+  };
+}
+
+/**
+ * Score an already-rolled pool against a slot's target. Sum modes also report the
+ * pool total; per-die modes leave `total` unset. Slots with `minHits` report
+ * their hit count; custom dice name the triggering face (and label every roll
+ * when their faces are strings).
+ */
+function scoreRolls(config: DiceSlotConfig, { rolls, advantageRolls, exploded }: SlotRolls, diceCount: number): DiceResult {
+  const triggered = checkTarget(rolls, config.target, config.targetMode, config.minHits);
+  const triggerValue = triggered ? findTriggerValue(rolls, config.target, config.targetMode) : undefined;
+  const custom = hasCustomFaces(config) ? config.faces : null;
+  const labelled = custom !== null && custom.some((f) => typeof f === "string");
+  return {
+    triggered,
+    rolls,
+    ...(labelled ? { labels: rolls.map((r) => faceLabel(custom!, r)) } : {}),
+    ...(custom && triggerValue !== undefined && !isSumMode(config.targetMode) ? { face: faceLabel(custom, triggerValue) } : {}),
+    ...(advantageRolls ? { advantageRolls } : {}),
+    ...(exploded ? { exploded } : {}),
+    ...(config.minHits !== undefined ? { hits: countHits(rolls, config.target, config.targetMode) } : {}),
+    best: Math.max(...rolls),
+    triggerValue,
+    ...(isSumMode(config.targetMode) ? { total: sumRolls(rolls) } : {}),
+    diceCount,
+    probability: slotProbability(config, diceCount),
+    slotName: config.name,
+  };
+}
+
+/**
+ * Roll an expression slot: the total (not any single die) is compared to the
+ * target. Expression slots never join a shared pool.
+ */
+function rollExpressionSlot(config: DiceSlotConfig, expr: DiceExpression, rng?: () => number): DiceResult {
+  const { rolls, dropped, total } = evaluateExpression(expr, rng);
+  const triggered = checkTarget([total], config.target, config.targetMode);
+  return {
+    triggered,
+    rolls,
+    best: rolls.length > 0 ? Math.max(...rolls) : 0,
+    triggerValue: triggered ? total : undefined,
+    total,
+    dropped,
+    diceCount: rolls.length,
+    probability: slotProbability(config, rolls.length),
+    slotName: config.name,
+  };
+}
+
+/**
+ * Draw one card for a deck slot. The odds reported are those of this draw (from
+ * `deck`, before it); `deck` on the result is what is left afterwards.
+ */
+function drawDeckSlot(config: DiceSlotConfig, deck: DeckState, rng?: () => number): DiceResult {
+  const drawn = drawCard(deck, rng);
+  return {
+    triggered: drawn.hit,
+    rolls: [],
+    best: 0,
+    deck: drawn.deck,
+    diceCount: 1,
+    probability: deckProbability(deck),
+    slotName: config.name,
+  };
+}
+
+/**
+ * Draw for a curve slot: one uniform percentile against this turn's chance.
+ * Reported odds are rounded; the comparison uses the exact curve value.
+ */
+function drawCurveSlot(config: DiceSlotConfig, chance: number, rng: () => number = Math.random): DiceResult {
+  const percentile = Math.floor(rng() * 10000) / 100;
+  return {
+    triggered: percentile < chance,
+    rolls: [],
+    best: 0,
+    percentile,
+    diceCount: 1,
+    probability: Math.round(chance * 100) / 100,
+    slotName: config.name,
+  };
+}
+
+/**
+ * Result for a scheduled slot: no dice and no RNG, triggered exactly when a
+ * scheduled depth has come up since it last fired.
+ */
+function scheduledResult(config: DiceSlotConfig, currentDepth: number, depthSinceTrigger: number): DiceResult {
+  const due = scheduleDue(config, currentDepth - depthSinceTrigger, currentDepth);
+  return {
+    triggered: due,
+    rolls: [],
+    best: 0,
+    ...(due ? { forced: "scheduled" as const } : {}),
+    diceCount: 0,
+    probability: due ? 100 : 0,
+    slotName: config.name,
+  };
+}
+
+/** Per-slot state a dry-run preview reads instead of loading it (see previewSlot). */
+export interface PreviewState {
+  deck?: DeckState;
+  currentDepth?: number;
+  depthSinceTrigger?: number;
+}
+
+/**
+ * The host with every write dropped, for replaying a check (`agent-dice
+ * explain`): checkAllSlots then reads state and cooldowns but commits nothing.
+ */
+export function dryRunHost(host: DiceHost): DiceHost {
+  return {
+    ...host,
+    saveState: async () => {},
+    clearState: async () => {},
+    markTriggered: async () => {},
+    clearCooldown: () => {},
+    appendHistory: undefined,
+  };
 }
 
 /**
  * Pure single-slot dry-run preview: rolls `diceCount` dice with NO shared pool and
  * NO side effects (no reset, no cooldown). Used by `cc-dice roll` so the CLI shares
- * the engine's roll/trigger math instead of re-implementing it (D8).
+ * the engine's roll/trigger math instead of re-implementing it (D8). Deck slots
+ * draw from `state.deck` (their current shuffle, from getSlotStatus) or a fresh
+ * deck; curve slots read their chance at `state.depthSinceTrigger` (default 0),
+ * which also decides whether a pity timer is due. Scheduled slots check their
+ * schedule at `state.currentDepth`.
  */
-export function previewSlot(config: DiceSlotConfig, diceCount: number, rng?: () => number): DiceResult {
-  if (diceCount <= 0) return emptyResult(config.name);
-  const rolls = rollDice(diceCount, config.die, rng);
-  const best = Math.max(...rolls);
-  const triggered = checkTarget(rolls, config.target, config.targetMode);
-  const triggerValue = triggered ? findTriggerValue(rolls, config.target, config.targetMode) : undefined;
-  const probability = calculateProbability(diceCount, config.die, config.target, config.targetMode);
-  return { triggered, rolls, best, triggerValue, diceCount, probability, slotName: config.name };
+export function previewSlot(config: DiceSlotConfig, diceCount: number, rng?: () => number, state: PreviewState = {}): DiceResult {
+  const depthSinceTrigger = state.depthSinceTrigger ?? 0;
+  if (config.type === "scheduled") return scheduledResult(config, state.currentDepth ?? 0, depthSinceTrigger);
+  if (diceCount <= 0) return withPity(config, emptyResult(config.name), depthSinceTrigger);
+  if (config.type === "deck") return drawDeckSlot(config, state.deck ?? freshDeck(config), rng);
+  if (hasCurve(config)) return withPity(config, drawCurveSlot(config, curveValue(config.curve, depthSinceTrigger), rng), depthSinceTrigger);
+  const expr = slotExpression(config);
+  if (expr) return rollExpressionSlot(config, expr, rng);
+  return withPity(config, scoreRolls(config, rollSlotDice(config, diceCount, rng), diceCount), depthSinceTrigger);
+}
+
+/**
+ * Depth and depth since the last trigger for a non-accumulator slot that tracks
+ * its trigger depth, persisting sentinel calibration via the host.
+ */
+async function trackedDepth(
+  host: DiceHost,
+  config: DiceSlotConfig,
+  ctx: CoreCheckContext
+): Promise<{ currentDepth: number; depthSinceTrigger: number }> {
+  const depth = (await ctx.getCurrentDepth()) ?? 0;
+  const { depthSinceTrigger, calibratedState } = sinceLastTrigger(depth, await host.loadState(config.name, ctx.sessionId));
+  if (calibratedState) await host.saveState(config.name, ctx.sessionId, calibratedState);
+  return { currentDepth: depth, depthSinceTrigger };
 }
 
-/** Dice count for any slot type. Accumulator persists sentinel calibration via the host. */
+/**
+ * Dice count for any slot type. Accumulator persists sentinel calibration via the
+ * host; so do scheduled slots and single slots with a pity timer, the only
+ * other slots that read depth.
+ */
 async function getDiceCount(
   host: DiceHost,
   config: DiceSlotConfig,
   ctx: CoreCheckContext
-): Promise<{ diceCount: number; currentDepth: number; depthSinceTrigger: number }> {
+): Promise<{ diceCount: number; currentDepth: number; depthSinceTrigger: number; curveChance?: number }> {
   switch (config.type) {
     case "accumulator": {
       const depth = (await ctx.getCurrentDepth()) ?? 0; // accumulator reads default to 0 without depth
@@ -49,89 +475,281 @@ async function getDiceCount(
         diceCount: result.diceCount,
         currentDepth: result.currentDepth,
         depthSinceTrigger: result.depthSinceTrigger,
+        ...(result.curveChance !== undefined ? { curveChance: result.curveChance } : {}),
       };
     }
     case "fixed":
       return { diceCount: config.fixedCount, currentDepth: 0, depthSinceTrigger: 0 };
     case "single":
+      if (config.guaranteeAfter === undefined) return { diceCount: 1, currentDepth: 0, depthSinceTrigger: 0 };
+      return { diceCount: 1, ...(await trackedDepth(host, config, ctx)) };
+    case "scheduled":
+      return { diceCount: 0, ...(await trackedDepth(host, config, ctx)) };
+    case "deck":
       return { diceCount: 1, currentDepth: 0, depthSinceTrigger: 0 };
+    case "expression": {
+      const expr = slotExpression(config);
+      return { diceCount: expr ? expressionDiceCount(expr) : 0, currentDepth: 0, depthSinceTrigger: 0 };
+    }
     default:
       return { diceCount: 0, currentDepth: 0, depthSinceTrigger: 0 };
   }
 }
 
 /**
- * Check all slots with shared dice pools. Slots with the same die size share one
- * base roll; single slots observe only the base, accumulator/fixed add bonus dice.
+ * Check all slots with shared dice pools. Slots in the same pool share one base
+ * roll; by default that is every slot with the same die (size, or identical
+ * custom faces), while `pool` names a pool or makes a slot `independent` (see
+ * src/core/pool.ts). Single slots observe only the base, accumulator/fixed add
+ * bonus dice.
+ *
+ * Paused and disabled slots are skipped first, before their cooldown is even
+ * read, so they draw no RNG and leave the pools as if unregistered.
  *
  * RNG consumption order (must stay stable for the legacy↔core equivalence probe,
- * D6): groups iterate in die-size first-seen order; within a group the base die is
- * rolled first, then bonus dice per active slot in listSlots order.
+ * D6): groups iterate in pool first-seen order; within a group the base die is
+ * rolled first, then bonus dice per active slot in listSlots order (an advantage
+ * slot draws its base companions just before its own bonus dice). Expression,
+ * deck, curve, and scheduled slots sit outside the pools and roll last, in
+ * listSlots order; a deck slot draws one card and saves what is left of its
+ * deck, a curve slot draws one uniform percentile, a scheduled slot draws
+ * nothing. A chained slot whose prerequisites have not triggered is dormant, as
+ * is a slot whose `when` the last turn does not match, or whose activation
+ * window is shut: no dice and no RNG, like a cooled-down slot. A slot whose
+ * pity timer is due still rolls, and a miss is then forced to trigger (see
+ * withPity). Triggers of slots inside a refractory window are
+ * confirmed by one extra draw each after everything else has rolled; a due
+ * pity timer still forces a trigger that draw drops. A veto
+ * slot's trigger then cancels every other trigger (`vetoedBy`). Within an
+ * exclusion group only the highest-priority trigger stands; the others come
+ * back with `suppressedBy` set. Trigger side effects run last, for the
+ * triggers that stand.
+ *
+ * A seeded host (rngFor) replaces that single sequence with one stream per
+ * pool, per unpooled slot, and per refractory draw, each seeded from the
+ * session id and depth, so the same stop always rolls the same dice.
  */
-export async function checkAllSlots(host: DiceHost, ctx: CoreCheckContext): Promise<DiceResult[]> {
+export async function checkAllSlots(host: DiceHost, checkCtx: CoreCheckContext): Promise<DiceResult[]> {
   const slots = await host.listSlots();
   if (slots.length === 0) return [];
 
-  type SlotInfo = { config: DiceSlotConfig; diceCount: number };
+  // Depth stays lazy: the history records it only when the check already read it.
+  let depthRead: Promise<number | undefined> | undefined;
+  const ctx: CoreCheckContext = { ...checkCtx, getCurrentDepth: () => (depthRead ??= checkCtx.getCurrentDepth()) };
+
+  type SlotInfo = {
+    config: DiceSlotConfig;
+    diceCount: number;
+    currentDepth: number;
+    depthSinceTrigger: number;
+    curveChance?: number;
+    refractory?: number;
+    ctx: CoreCheckContext; // the slot's own context (scope key; see slotContext)
+  };
   const active: SlotInfo[] = [];
+  const unpooled: SlotInfo[] = [];
   const results: DiceResult[] = [];
 
-  // Pre-filter cooled-down slots BEFORE grouping (cooldown gate wins).
+  // Pre-filter cooled-down, dormant, unmatched, and inactive slots BEFORE grouping (cooldown gate wins).
+  const now = Date.now();
   for (const config of slots) {
-    if (config.cooldown === "per-session" && (await host.hasCooldown(config.name, ctx.sessionId))) {
-      results.push(emptyResult(config.name));
+    if (pauseStatus(config, ctx.sessionId, now)) {
+      results.push(emptyResult(config.name, "paused"));
+      continue;
+    }
+    const sctx = slotContext(host, config, ctx);
+    const { window, refractory } = await readCooldown(host, config, sctx);
+    if (window.active) {
+      results.push(emptyResult(config.name, "cooldown"));
       continue;
     }
-    const { diceCount } = await getDiceCount(host, config, ctx);
-    active.push({ config, diceCount });
+    const chain = await readChain(host, config, slots, ctx);
+    const skipped: SkipReason | undefined =
+      chain && !chain.armed ? "dormant" : !(await conditionHolds(config, ctx)) ? "condition" : !activeNow(config, ctx) ? "inactive" : undefined;
+    if (skipped) {
+      results.push(emptyResult(config.name, skipped));
+      continue;
+    }
+    const { diceCount, currentDepth, depthSinceTrigger, curveChance } = await getDiceCount(host, config, sctx);
+    (isPooled(config) ? active : unpooled).push({ config, diceCount, currentDepth, depthSinceTrigger, curveChance, refractory, ctx: sctx });
   }
 
-  // Group active slots by die size (insertion order = first-seen die size).
-  const groups = new Map<number, SlotInfo[]>();
+  // Record a result. Triggers are committed at the end, once refractory draws
+  // and exclusion groups have had their say.
+  const hits: Array<{ index: number; info: SlotInfo }> = [];
+  const settle = (info: SlotInfo, rolled: DiceResult): void => {
+    const result = info.refractory === undefined ? rolled : withRefractory(rolled, info.refractory);
+    results.push(result);
+    if (result.triggered) hits.push({ index: results.length - 1, info });
+  };
+
+  // RNG per stream: host.rng for all of them, unless the host seeds each stream
+  // (rngFor) from the session, the depth, and the stream name.
+  const streams = new Map<string, () => number>();
+  let seedDepth: number | undefined;
+  const rngFor = async (stream: string): Promise<(() => number) | undefined> => {
+    if (!host.rngFor) return host.rng;
+    seedDepth ??= (await ctx.getCurrentDepth()) ?? 0;
+    if (!streams.has(stream)) streams.set(stream, host.rngFor(rngSeed(ctx.sessionId, seedDepth, stream)));
+    return streams.get(stream);
+  };
+
+  // Group active slots by pool (insertion order = first-seen pool; see poolKey).
+  const groups = new Map<string, SlotInfo[]>();
   for (const info of active) {
-    const group = groups.get(info.config.die) || [];
+    const key = poolKey(info.config);
+    const group = groups.get(key) || [];
     group.push(info);
-    groups.set(info.config.die, group);
+    groups.set(key, group);
   }
 
-  for (const [dieSize, groupSlots] of groups) {
+  for (const [key, groupSlots] of groups) {
+    const rng = await rngFor(`pool:${key}`);
     const anyNeedsDice = groupSlots.some((s) => s.diceCount > 0);
-    const baseRoll = anyNeedsDice ? rollDice(1, dieSize, host.rng)[0] : 0;
+    const baseRoll = anyNeedsDice ? rollSlotFaces(groupSlots[0].config, 1, rng)[0] : 0;
 
-    for (const { config, diceCount } of groupSlots) {
-      if (diceCount <= 0) {
-        results.push(emptyResult(config.name));
-        continue;
-      }
+    for (const info of groupSlots) {
+      const { config, diceCount, depthSinceTrigger } = info;
+      const result =
+        diceCount > 0
+          ? withPity(config, scoreRolls(config, rollSlotDice(config, diceCount, rng, baseRoll), diceCount), depthSinceTrigger)
+          : withPity(config, emptyResult(config.name), depthSinceTrigger);
+      settle(info, result);
+    }
+  }
 
-      const bonusRolls = diceCount > 1 ? rollDice(diceCount - 1, dieSize, host.rng) : [];
-      const rolls = [baseRoll, ...bonusRolls];
-
-      const best = Math.max(...rolls);
-      const triggered = checkTarget(rolls, config.target, config.targetMode);
-      const triggerValue = triggered ? findTriggerValue(rolls, config.target, config.targetMode) : undefined;
-      const probability = calculateProbability(diceCount, dieSize, config.target, config.targetMode);
-
-      if (triggered) {
-        if (config.resetOnTrigger && config.type === "accumulator") {
-          const depth = (await ctx.getCurrentDepth()) ?? 0; // trigger-reset default 0 (D7: differs from resetSlot's -1)
-          await host.saveState(config.name, ctx.sessionId, {
-            depth_at_last_trigger: depth,
-            last_reset: new Date().toISOString(),
-          });
-        }
-        if (config.cooldown === "per-session") {
-          await host.markTriggered(config.name, ctx.sessionId);
-        }
-      }
+  // Deck draws are saved once cancellations are known (see the end of the pass).
+  const draws: Array<{ index: number; info: SlotInfo; before: DeckState; hit: boolean }> = [];
+  for (const info of unpooled) {
+    const { config, diceCount, currentDepth, depthSinceTrigger, curveChance } = info;
+    if (config.type === "scheduled") {
+      settle(info, scheduledResult(config, currentDepth, depthSinceTrigger));
+      continue;
+    }
+    const rng = await rngFor(`slot:${config.name}`);
+    if (hasCurve(config)) {
+      const drawn = diceCount > 0 ? drawCurveSlot(config, curveChance ?? 0, rng) : emptyResult(config.name);
+      settle(info, withPity(config, drawn, depthSinceTrigger));
+      continue;
+    }
+    if (config.type === "deck") {
+      const state = await host.loadState(config.name, info.ctx.sessionId);
+      const before = currentDeck(config, state);
+      const result = drawDeckSlot(config, before, rng);
+      draws.push({ index: results.length, info, before, hit: result.triggered });
+      settle(info, result);
+      continue;
+    }
+    const expr = slotExpression(config);
+    if (!expr) {
+      results.push(emptyResult(config.name));
+      continue;
+    }
+    settle(info, rollExpressionSlot(config, expr, rng));
+  }
 
-      results.push({ triggered, rolls, best, triggerValue, diceCount, probability, slotName: config.name });
+  // A refractory trigger stands with chance refractory/100. The draws come after
+  // every pool and unpooled slot, so all other rolls are unchanged. Pity applies
+  // after the draw, so a due timer still fires when its natural hit is dropped.
+  for (const { index, info } of hits) {
+    if (info.refractory === undefined || results[index].forced) continue;
+    const rng = (await rngFor(`refractory:${info.config.name}`)) ?? Math.random;
+    const draw = rng() * 100;
+    if (draw >= info.refractory) {
+      results[index] = withPity(info.config, { ...results[index], triggered: false }, info.depthSinceTrigger);
     }
   }
 
+  // Vetoes: a standing veto trigger cancels every other trigger, crediting the
+  // earliest registered veto. Cancelled slots commit nothing; vetoes do.
+  const order = new Map(slots.map((s, i) => [s.name, i]));
+  const vetoes = hits.filter(({ index, info }) => info.config.veto && results[index].triggered);
+  if (vetoes.length > 0) {
+    const veto = vetoes.reduce((a, b) => (order.get(b.info.config.name)! < order.get(a.info.config.name)! ? b : a));
+    const vetoed: string[] = [];
+    for (const { index, info } of hits) {
+      if (info.config.veto || !results[index].triggered) continue;
+      results[index] = { ...results[index], triggered: false, vetoedBy: veto.info.config.name };
+      vetoed.push(info.config.name);
+    }
+    results[veto.index] = { ...results[veto.index], vetoed };
+  }
+
+  // Exclusion groups: one trigger per group — the highest priority, then the
+  // earliest registered. The rest are suppressed and commit nothing.
+  const standing = hits.filter(({ index }) => results[index].triggered);
+  const winners = new Map<string, SlotInfo>();
+  const history = prerequisitesOf(slots);
+  for (const { info } of standing) {
+    const group = info.config.group;
+    if (group === undefined) continue;
+    const best = winners.get(group);
+    if (!best || outranks(info.config, best.config, order)) winners.set(group, info);
+  }
+  for (const { index, info } of standing) {
+    const winner = info.config.group === undefined ? info : winners.get(info.config.group)!;
+    if (winner === info) await commitTrigger(host, info.config, info.ctx, history.get(info.config.name));
+    else results[index] = { ...results[index], triggered: false, suppressedBy: winner.config.name };
+  }
+
+  // A deck keeps what it drew, except a hit card whose trigger was cancelled (by
+  // the refractory draw, a veto, or the slot's group): that card goes back, so
+  // every full pass still fires exactly deckHits times.
+  for (const { index, info, before, hit } of draws) {
+    if (hit && !results[index].triggered) results[index] = { ...results[index], deck: before };
+    const state = await host.loadState(info.config.name, info.ctx.sessionId);
+    await host.saveState(info.config.name, info.ctx.sessionId, { ...state, deck: results[index].deck });
+  }
+
+  if (host.appendHistory) {
+    const depth = depthRead ? await depthRead : undefined;
+    await host.appendHistory(ctx.sessionId, historyRecords(results, new Date(now).toISOString(), depth));
+  }
   return results;
 }
 
+/** True when slot `a` beats `b` for its exclusion group: higher priority, then registry order. */
+function outranks(a: DiceSlotConfig, b: DiceSlotConfig, order: Map<string, number>): boolean {
+  const pa = a.priority ?? 0;
+  const pb = b.priority ?? 0;
+  return pa !== pb ? pa > pb : order.get(a.name)! < order.get(b.name)!;
+}
+
+/**
+ * Trigger side effects: accumulator reset (if resetOnTrigger), the trigger depth
+ * for a scheduled slot or a single slot's pity timer, the trigger history of a
+ * slot other slots require (`history`: with its depth for requiresWithin), and
+ * the cooldown marker (its trigger count, plus the depth when a turns cooldown
+ * or refractory curve will need it).
+ */
+async function commitTrigger(
+  host: DiceHost,
+  config: DiceSlotConfig,
+  ctx: CoreCheckContext,
+  history?: "count" | "depth"
+): Promise<void> {
+  const tracksDepth =
+    config.type === "accumulator"
+      ? config.resetOnTrigger
+      : config.type === "scheduled" || (config.type === "single" && config.guaranteeAfter !== undefined);
+  if (tracksDepth || history) {
+    const now = new Date().toISOString();
+    // trigger-reset default 0 (D7: differs from resetSlot's -1)
+    const depth = tracksDepth || history === "depth" ? ((await ctx.getCurrentDepth()) ?? 0) : undefined;
+    const prev = history || isScoped(config) ? await host.loadState(config.name, ctx.sessionId) : undefined;
+    await host.saveState(config.name, ctx.sessionId, {
+      ...(tracksDepth ? { depth_at_last_trigger: depth!, last_reset: now, ...(prev ? keptState(prev) : {}) } : prev!),
+      ...(history ? { triggers: nextTriggers(prev!.triggers, now, history === "depth" ? depth : undefined) } : {}),
+    });
+  }
+  const cooldown = slotCooldown(config);
+  if (cooldown.kind !== "none" || config.refractory) {
+    const depth = cooldownNeedsDepth(cooldown) || config.refractory ? ((await ctx.getCurrentDepth()) ?? 0) : undefined;
+    const prev = await host.loadCooldown(config.name, ctx.sessionId);
+    await host.markTriggered(config.name, ctx.sessionId, nextMarker(prev, new Date().toISOString(), depth));
+  }
+}
+
 /** Status for a slot without rolling. */
 export async function getSlotStatus(
   host: DiceHost,
@@ -140,13 +758,73 @@ export async function getSlotStatus(
 ): Promise<SlotStatus | null> {
   const config = await host.getSlot(name);
   if (!config) return null;
+  const sctx = slotContext(host, config, ctx);
+
+  const { diceCount, currentDepth, depthSinceTrigger, curveChance } = await getDiceCount(host, config, sctx);
+  const deck = config.type === "deck" ? currentDeck(config, await host.loadState(name, sctx.sessionId)) : undefined;
+  const probability =
+    curveChance !== undefined
+      ? Math.round(curveChance * 100) / 100
+      : deck
+        ? deckProbability(deck)
+        : diceCount > 0
+          ? slotProbability(config, diceCount)
+          : 0;
 
-  const { diceCount, currentDepth, depthSinceTrigger } = await getDiceCount(host, config, ctx);
-  const probability = calculateProbability(diceCount, config.die, config.target, config.targetMode);
+  // Curve crossings are reported as absolute depths, like nextDiceAt.
+  const curve = hasCurve(config)
+    ? {
+        spec: formatCurve(config.curve),
+        crossings: curveCrossings(config.curve, config.curveMarks ?? DEFAULT_CURVE_MARKS).map(({ percent, depth }) => ({
+          percent,
+          depth: depth === null ? null : currentDepth - depthSinceTrigger + depth,
+        })),
+      }
+    : undefined;
+
+  // A due schedule reports the current depth as its next one: the next check fires it.
+  const schedule =
+    config.type === "scheduled"
+      ? {
+          spec: formatSchedule(config),
+          nextAt: scheduledResult(config, currentDepth, depthSinceTrigger).triggered
+            ? currentDepth
+            : nextScheduledDepth(config, currentDepth),
+        }
+      : undefined;
+
+  const certain = pityDue(config, depthSinceTrigger) || schedule?.nextAt === currentDepth;
+  const guaranteeAt =
+    config.guaranteeAfter !== undefined && (config.type === "accumulator" || config.type === "single")
+      ? currentDepth - depthSinceTrigger + config.guaranteeAfter
+      : undefined;
+
+  // Plain per-session reads only whether a marker exists; load it for the count.
+  const read = await readCooldown(host, config, sctx);
+  const marker = read.marker ?? (read.window.active ? await host.loadCooldown(name, sctx.sessionId) : null);
+  const cooldown =
+    marker || read.window.active
+      ? {
+          active: read.window.active,
+          triggers: marker?.count ?? 1,
+          ...(read.window.untilDepth !== undefined ? { untilDepth: read.window.untilDepth } : {}),
+          ...(read.window.until !== undefined ? { until: read.window.until } : {}),
+        }
+      : undefined;
+  const fullAfter = config.refractory ? refractoryLength(config.refractory) : null;
+  const chain = config.requires?.length ? await readChain(host, config, await host.listSlots(), ctx) : undefined;
+  const condition = config.when !== undefined ? { met: await conditionHolds(config, ctx) } : undefined;
+  const active = config.active !== undefined ? { open: activeNow(config, ctx) } : undefined;
+  const paused = pauseStatus(config, ctx.sessionId, Date.now());
+  const dormant = paused !== undefined || (chain !== undefined && !chain.armed) || condition?.met === false || active?.open === false;
+  const refractory =
+    config.refractory && marker?.depth !== undefined
+      ? { percent: read.refractory ?? 100, fullAt: fullAfter === null ? null : marker.depth + fullAfter }
+      : undefined;
 
   let nextDiceAt = 0;
-  if (config.type === "accumulator") {
-    const state = await host.loadState(name, ctx.sessionId);
+  if (config.type === "accumulator" && !curve) {
+    const state = await host.loadState(name, sctx.sessionId);
     nextDiceAt = state.depth_at_last_trigger + (diceCount + 1) * config.accumulationRate;
   }
 
@@ -156,8 +834,23 @@ export async function getSlotStatus(
     diceCount,
     currentDepth,
     depthSinceTrigger,
-    probability,
+    probability: dormant ? 0 : certain ? 100 : read.refractory !== undefined ? Math.round(probability * read.refractory) / 100 : probability,
     nextDiceAt,
+    expression: slotExpression(config)?.text,
+    ...(config.minHits !== undefined ? { minHits: config.minHits } : {}),
+    ...(deck ? { deck } : {}),
+    ...(cooldown ? { cooldown } : {}),
+    ...(refractory ? { refractory } : {}),
+    ...(guaranteeAt !== undefined ? { guaranteeAt } : {}),
+    ...(isScoped(config) ? { scope: config.scope } : {}),
+    ...(config.veto ? { veto: true } : {}),
+    ...(paused ? { paused } : {}),
+    ...(config.group !== undefined ? { group: { name: config.group, priority: config.priority ?? 0 } } : {}),
+    ...(condition ? { condition } : {}),
+    ...(active ? { active } : {}),
+    ...(chain ? { chain } : {}),
+    ...(schedule ? { schedule } : {}),
+    ...(curve ? { curve } : {}),
     sessionId: ctx.sessionId,
   };
 }
@@ -170,10 +863,12 @@ export async function resetSlot(host: DiceHost, name: string, ctx: CoreCheckCont
   const config = await host.getSlot(name);
   if (!config) return;
 
-  const depth = (await ctx.getCurrentDepth()) ?? -1; // sentinel when no depth
-  await host.saveState(name, ctx.sessionId, {
+  const sctx = slotContext(host, config, ctx);
+  const depth = (await sctx.getCurrentDepth()) ?? -1; // sentinel when no depth
+  await host.saveState(name, sctx.sessionId, {
     depth_at_last_trigger: depth,
     last_reset: new Date().toISOString(),
+    ...keptState(await host.loadState(name, sctx.sessionId)),
   });
 }
 
@@ -182,17 +877,21 @@ export async function clearSlot(host: DiceHost, name: string, ctx: CoreCheckCont
   const config = await host.getSlot(name);
   if (!config) return;
 
-  await host.clearState(name, ctx.sessionId);
-  host.clearCooldown(name, ctx.sessionId);
+  const { sessionId: key } = slotContext(host, config, ctx);
+  await host.clearState(name, key);
+  host.clearCooldown(name, key);
 }
 
-/** Session start: clear all slots with clearOnSessionStart=true. */
+/**
+ * Session start: clear all slots with clearOnSessionStart=true. Project/global
+ * slots are skipped — their state is meant to outlive the session.
+ */
 export async function sessionStart(host: DiceHost, ctx: CoreCheckContext): Promise<string[]> {
   const slots = await host.listSlots();
   const cleared: string[] = [];
 
   for (const slot of slots) {
-    if (slot.clearOnSessionStart) {
+    if (slot.clearOnSessionStart && scopeKey(slot, ctx) === undefined) {
       await host.clearState(slot.name, ctx.sessionId);
       host.clearCooldown(slot.name, ctx.sessionId);
       cleared.push(slot.name);
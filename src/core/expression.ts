@@ -0,0 +1,247 @@
+/**
+ * Dice-expression slots — standard dice notation ("2d6+1", "4d6kh3", "d20-2").
+ *
+ * Pure parser, RNG-driven evaluator, and exact distribution math (no IO). An
+ * expression is a sum of terms; each term is a constant or a dice group with an
+ * optional keep/drop suffix:
+ *
+ *   expression := term (("+" | "-") term)*
+ *   term       := integer | [count] "d" sides [("kh" | "kl" | "k" | "dh" | "dl") n]
+ *
+ * Drops are normalized to keeps at parse time (4d6dl1 ≡ 4d6kh3), so the evaluator
+ * and the distribution only ever see "keep the n highest/lowest".
+ */
+
+import type { DiceTarget, TargetMode } from "../types";
+import {
+  rollDice,
+  uniformDie,
+  convolve,
+  sumDistribution,
+  distributionProbability,
+  type Distribution,
+} from "../roll";
+
+export interface DiceGroup {
+  kind: "dice";
+  sign: 1 | -1;
+  count: number;
+  sides: number;
+  /** Keep the `n` highest/lowest dice; absent = keep all. */
+  keep?: { which: "highest" | "lowest"; n: number };
+}
+
+export interface ConstantTerm {
+  kind: "constant";
+  sign: 1 | -1;
+  value: number;
+}
+
+export type ExpressionTerm = DiceGroup | ConstantTerm;
+
+export interface DiceExpression {
+  text: string;
+  terms: ExpressionTerm[];
+}
+
+export interface ExpressionRoll {
+  /** Every die rolled, in RNG consumption order (groups left to right). */
+  rolls: number[];
+  /** Indices into `rolls` of dice discarded by keep/drop. */
+  dropped: number[];
+  total: number;
+}
+
+// Bounds keep the exact distribution cheap enough to run on every Stop: the
+// convolution grows with the outcome space (count × sides, summed over groups),
+// the keep/drop DP with count × kept × sides per group.
+const MAX_DICE = 100;
+const MAX_SIDES = 1000;
+const MAX_KEEP_DICE = 30;
+const MAX_OUTCOMES = 4000;
+const MAX_KEEP_STATES = 6000;
+
+// Distributions already computed, by term structure (slotProbability asks on every check).
+const MAX_CACHED = 64;
+const distributions = new Map<string, Distribution>();
+
+const TERM_RE = /^(?:(\d*)d(\d+)(?:(kh|kl|dh|dl|k)(\d+))?|(\d+))$/;
+
+/**
+ * Parse dice notation. Throws with a readable message on malformed input or
+ * out-of-range groups, so callers can validate at register time.
+ */
+export function parseExpression(text: string): DiceExpression {
+  const source = text.replace(/\s+/g, "").toLowerCase();
+  const fail = (why: string): never => {
+    throw new Error(`Invalid dice expression "${text}": ${why}`);
+  };
+  if (!source) fail("empty");
+
+  const terms: ExpressionTerm[] = [];
+  let outcomes = 0;
+  const parts = source.match(/[+-]?[^+-]+/g) ?? [];
+  if (parts.join("") !== source) fail("dangling operator");
+
+  for (const part of parts) {
+    const sign: 1 | -1 = part.startsWith("-") ? -1 : 1;
+    const body = part.replace(/^[+-]/, "");
+    const m = body.match(TERM_RE);
+    if (!m) fail(`cannot read "${body}"`);
+    const [, rawCount, rawSides, op, rawN, constant] = m!;
+
+    if (constant !== undefined) {
+      terms.push({ kind: "constant", sign, value: Number(constant) });
+      continue;
+    }
+
+    const count = rawCount === "" ? 1 : Number(rawCount);
+    const sides = Number(rawSides);
+    if (count < 1 || count > MAX_DICE) fail(`dice count must be 1-${MAX_DICE}`);
+    if (sides < 1 || sides > MAX_SIDES) fail(`die size must be 1-${MAX_SIDES}`);
+
+    const group: DiceGroup = { kind: "dice", sign, count, sides };
+    if (op) {
+      const n = Number(rawN);
+      const dropping = op === "dh" || op === "dl";
+      if (dropping ? n >= count : n < 1 || n > count) {
+        fail(`${op}${n} is out of range for ${count} dice`);
+      }
+      if (count > MAX_KEEP_DICE) fail(`keep/drop supports at most ${MAX_KEEP_DICE} dice`);
+      if (op === "dl") group.keep = { which: "highest", n: count - n };
+      else if (op === "dh") group.keep = { which: "lowest", n: count - n };
+      else group.keep = { which: op === "kl" ? "lowest" : "highest", n };
+      if (group.keep.n === count) delete group.keep; // keeping everything is a plain group
+      else if (count * group.keep.n * sides > MAX_KEEP_STATES) {
+        fail(`${body} is too large to keep/drop exactly (count × kept × sides must be at most ${MAX_KEEP_STATES})`);
+      }
+    }
+    outcomes += count * sides;
+    if (outcomes > MAX_OUTCOMES) fail(`too many outcomes (count × sides, summed over groups, must be at most ${MAX_OUTCOMES})`);
+    terms.push(group);
+  }
+
+  return { text: text.trim(), terms };
+}
+
+/** Total number of physical dice an expression rolls. */
+export function expressionDiceCount(expr: DiceExpression): number {
+  return expr.terms.reduce((n, t) => (t.kind === "dice" ? n + t.count : n), 0);
+}
+
+/** Indices (within one group's rolls) of the dice a keep rule discards. */
+function droppedIndices(rolls: number[], keep: NonNullable<DiceGroup["keep"]>): number[] {
+  const order = rolls
+    .map((value, index) => ({ value, index }))
+    .sort((a, b) => (keep.which === "highest" ? b.value - a.value : a.value - b.value) || a.index - b.index);
+  return order.slice(keep.n).map((d) => d.index);
+}
+
+/**
+ * Roll an expression. RNG is consumed group by group, left to right, one call
+ * per die — the same consumption rollDice has for a plain NdM.
+ */
+export function evaluateExpression(expr: DiceExpression, rng?: () => number): ExpressionRoll {
+  const rolls: number[] = [];
+  const dropped: number[] = [];
+  let total = 0;
+
+  for (const term of expr.terms) {
+    if (term.kind === "constant") {
+      total += term.sign * term.value;
+      continue;
+    }
+    const groupRolls = rollDice(term.count, term.sides, rng);
+    const groupDropped = term.keep ? droppedIndices(groupRolls, term.keep) : [];
+    groupRolls.forEach((value, i) => {
+      if (groupDropped.includes(i)) dropped.push(rolls.length + i);
+      else total += term.sign * value;
+    });
+    rolls.push(...groupRolls);
+  }
+
+  return { rolls, dropped, total };
+}
+
+/**
+ * Exact distribution of "keep the n highest/lowest of count dice".
+ *
+ * Walks faces from best to worst, choosing how many dice land on each face
+ * (binomial weights multiply out to the multinomial). Once `n` dice are kept the
+ * sum is final, and every die still unassigned must land on a worse face.
+ */
+function keepDistribution(count: number, sides: number, keep: NonNullable<DiceGroup["keep"]>): Distribution {
+  const binom: number[][] = [];
+  for (let n = 0; n <= count; n++) {
+    binom.push([1]);
+    for (let k = 1; k <= n; k++) binom[n].push((binom[n - 1][k - 1] ?? 0) + (binom[n - 1][k] ?? 0));
+  }
+
+  const p = 1 / sides;
+  const faces = Array.from({ length: sides }, (_, i) => (keep.which === "highest" ? sides - i : i + 1));
+  const done: Distribution = new Map();
+  type Partial = { used: number; kept: number; sum: number; prob: number };
+  let states = new Map<string, Partial>([["0,0,0", { used: 0, kept: 0, sum: 0, prob: 1 }]]);
+
+  faces.forEach((face, i) => {
+    const worseFaces = sides - i - 1;
+    const next = new Map<string, Partial>();
+    for (const s of states.values()) {
+      const remaining = count - s.used;
+      for (let c = 0; c <= remaining; c++) {
+        const prob = s.prob * binom[remaining][c] * Math.pow(p, c);
+        const kept = Math.min(keep.n, s.kept + c);
+        const sum = s.sum + face * (kept - s.kept);
+        const used = s.used + c;
+        if (kept === keep.n) {
+          const w = prob * Math.pow(worseFaces * p, count - used);
+          if (w > 0) done.set(sum, (done.get(sum) ?? 0) + w);
+        } else if (worseFaces > 0) {
+          const key = `${used},${kept},${sum}`;
+          const prev = next.get(key);
+          if (prev) prev.prob += prob;
+          else next.set(key, { used, kept, sum, prob });
+        }
+      }
+    }
+    states = next;
+  });
+
+  return done;
+}
+
+/** Exact distribution of an expression's total. */
+export function expressionDistribution(expr: DiceExpression): Distribution {
+  let total: Distribution = new Map([[0, 1]]);
+  for (const term of expr.terms) {
+    let dist: Distribution;
+    if (term.kind === "constant") {
+      dist = new Map([[term.value, 1]]);
+    } else if (term.keep) {
+      dist = keepDistribution(term.count, term.sides, term.keep);
+    } else {
+      dist = sumDistribution(term.count, uniformDie(term.sides));
+    }
+    if (term.sign < 0) dist = new Map([...dist].map(([v, p]) => [-v, p]));
+    total = convolve(total, dist);
+  }
+  return total;
+}
+
+/** Exact chance (0-100) that the expression's total matches the target. */
+export function expressionProbability(expr: DiceExpression, target: DiceTarget, mode: TargetMode): number {
+  const key = JSON.stringify(expr.terms);
+  let dist = distributions.get(key);
+  if (!dist) {
+    dist = expressionDistribution(expr);
+    if (distributions.size >= MAX_CACHED) distributions.clear();
+    distributions.set(key, dist);
+  }
+  return distributionProbability(dist, target, mode);
+}
+
+/** `[6, 5, 3, (1)] → 14` — dropped dice in parentheses. */
+export function formatExpressionRoll(roll: ExpressionRoll): string {
+  const dice = roll.rolls.map((r, i) => (roll.dropped.includes(i) ? `(${r})` : String(r)));
+  return `[${dice.join(", ")}] → ${roll.total}`;
+}
@@ -0,0 +1,49 @@
+/**
+ * Pure roll history records (no IO).
+ *
+ * After each check the engine hands one RollRecord per slot to
+ * DiceHost.appendHistory, when the host keeps a history. The adapter owns the
+ * storage (a JSONL file per session; see src/history.ts); this module only
+ * shapes and formats records.
+ */
+
+import type { DiceResult, RollRecord } from "../types";
+
+/**
+ * Why a result did not trigger as rolled: vetoed, suppressed by its group, or
+ * skipped before rolling; for forced triggers, `pity` or `scheduled`.
+ */
+export function recordReason(result: DiceResult): string | undefined {
+  if (result.vetoedBy !== undefined) return `vetoed by ${result.vetoedBy}`;
+  if (result.suppressedBy !== undefined) return `suppressed by ${result.suppressedBy}`;
+  return result.skipped ?? result.forced;
+}
+
+/** The history records for one check's results at ISO time `at` and `depth` (when it was read). */
+export function historyRecords(results: DiceResult[], at: string, depth?: number): RollRecord[] {
+  return results.map((result) => {
+    const reason = recordReason(result);
+    return {
+      at,
+      ...(depth !== undefined ? { depth } : {}),
+      slot: result.slotName,
+      diceCount: result.diceCount,
+      rolls: result.rolls,
+      probability: result.probability,
+      triggered: result.triggered,
+      ...(reason !== undefined ? { reason } : {}),
+    };
+  });
+}
+
+/** One line per record, e.g. `2026-01-02T03:04:05.000Z depth 12 guard: 3 dice [4, 17, 20] (14.3%) TRIGGERED`. */
+export function formatRecord(record: RollRecord): string {
+  const dice =
+    record.diceCount === 0
+      ? "no roll"
+      : record.rolls.length > 0
+        ? `${record.diceCount} ${record.diceCount === 1 ? "die" : "dice"} [${record.rolls.join(", ")}] (${record.probability}%)`
+        : `drew (${record.probability}%)`; // curve slots draw a percentile, not dice
+  const outcome = record.triggered ? " TRIGGERED" : "";
+  return `${record.at}${record.depth !== undefined ? ` depth ${record.depth}` : ""} ${record.slot}: ${dice}${outcome}${record.reason !== undefined ? ` — ${record.reason}` : ""}`;
+}
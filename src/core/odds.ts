@@ -0,0 +1,153 @@
+/**
+ * Exact odds for one slot over a session (no IO, no RNG).
+ *
+ * A Markov chain over what the engine remembers between turns: the depth of
+ * the last trigger (when the slot tracks it), its cooldown marker, and a deck
+ * slot's remaining cards. Each turn every state either triggers, with the odds
+ * the engine would roll at (dice from computeAccumulator, slotProbability,
+ * refractory scaling, a due pity timer or schedule), or does not; a trigger
+ * applies the slot's reset and cooldown. Depth climbs by one per turn from 1,
+ * starting from a fresh session.
+ *
+ * The slot is taken alone, like `simulate` with one slot: conditions hold,
+ * windows are open, chains are armed, nothing pools, groups, or vetoes with it,
+ * and turns take no time (a duration cooldown lasts the rest of the session).
+ */
+
+import type { CooldownMarker, DeckState, DiceSlotConfig, DiceState } from "../types";
+import { computeAccumulator, sinceLastTrigger } from "./accumulator";
+import { cooldownNeedsDepth, cooldownWindow, nextMarker, refractoryPercent } from "./cooldown";
+import { currentDeck } from "./deck";
+import { pityDue, slotCooldown, slotExpression, slotProbability } from "./engine";
+import { expressionDiceCount } from "./expression";
+import { scheduleDue } from "./schedule";
+
+const EPOCH = new Date(0).toISOString();
+
+export interface OddsRow {
+  depth: number;
+  dice: number;                          // dice rolled at this depth when the slot has not triggered yet
+  chance: number;                        // percent: a first trigger at this depth, given none before
+  turnChance: number;                    // percent: any trigger at this depth, after resets and cooldowns of earlier ones
+  cumulative: number;                    // percent: at least one trigger by this depth
+}
+
+export interface SlotOdds {
+  slot: string;
+  rows: OddsRow[];
+  median: number | null;                 // first depth with cumulative >= 50, null when beyond the table
+  p90: number | null;                    // first depth with cumulative >= 90
+  expectedTriggers: number;              // triggers expected over the table's depths
+}
+
+type ChainState = { state: DiceState; marker: CooldownMarker | null; fired: boolean };
+
+/** Dice the slot rolls at `depth` in `state` (the engine's getDiceCount, without a host). */
+function diceAt(config: DiceSlotConfig, depth: number, state: DiceState): { dice: number; since: number; curveChance?: number } {
+  switch (config.type) {
+    case "accumulator": {
+      const { diceCount, depthSinceTrigger, curveChance } = computeAccumulator(config, depth, state);
+      return { dice: diceCount, since: depthSinceTrigger, ...(curveChance !== undefined ? { curveChance } : {}) };
+    }
+    case "fixed":
+      return { dice: config.fixedCount, since: 0 };
+    case "single":
+    case "deck":
+      return { dice: 1, since: sinceLastTrigger(depth, state).depthSinceTrigger };
+    case "expression": {
+      const expr = slotExpression(config);
+      return { dice: expr ? expressionDiceCount(expr) : 0, since: 0 };
+    }
+    default:
+      return { dice: 0, since: sinceLastTrigger(depth, state).depthSinceTrigger };
+  }
+}
+
+/** True when a trigger moves the slot's depth_at_last_trigger (see commitTrigger). */
+function tracksDepth(config: DiceSlotConfig): boolean {
+  return config.type === "accumulator"
+    ? config.resetOnTrigger
+    : config.type === "scheduled" || (config.type === "single" && config.guaranteeAfter !== undefined);
+}
+
+/** Exact per-depth odds for `config` over depths 1..turns of a fresh session. */
+export function slotOdds(config: DiceSlotConfig, turns: number): SlotOdds {
+  const cooldown = slotCooldown(config);
+  const marks = cooldown.kind !== "none" || config.refractory !== undefined;
+  const markDepth = cooldownNeedsDepth(cooldown) || config.refractory !== undefined;
+  const probability = new Map<number, number>();
+  const chanceFor = (dice: number) => {
+    if (!probability.has(dice)) probability.set(dice, dice > 0 ? slotProbability(config, dice) / 100 : 0);
+    return probability.get(dice)!;
+  };
+
+  let states = new Map<string, { s: ChainState; p: number }>();
+  const add = (next: Map<string, { s: ChainState; p: number }>, s: ChainState, p: number) => {
+    if (p <= 0) return;
+    const key = JSON.stringify([s.state.depth_at_last_trigger, s.state.deck, s.marker?.count, s.marker?.depth, s.fired]);
+    const entry = next.get(key);
+    if (entry) entry.p += p;
+    else next.set(key, { s, p });
+  };
+  add(states, { state: { depth_at_last_trigger: 0, last_reset: EPOCH }, marker: null, fired: false }, 1);
+
+  const rows: OddsRow[] = [];
+  let quiet = 1;
+  for (let depth = 1; depth <= turns; depth++) {
+    const next = new Map<string, { s: ChainState; p: number }>();
+    let triggered = 0;
+    for (const { s, p } of states.values()) {
+      if (s.marker && cooldownWindow(cooldown, s.marker, 0, depth).active) {
+        add(next, s, p);
+        continue;
+      }
+      const { dice, since, curveChance } = diceAt(config, depth, s.state);
+      const deck = config.type === "deck" ? currentDeck(config, s.state) : undefined;
+      const forced = config.type === "scheduled" ? scheduleDue(config, s.state.depth_at_last_trigger, depth) : pityDue(config, since);
+      const hit = deck ? deck.hits / deck.remaining : curveChance !== undefined ? curveChance / 100 : config.type === "scheduled" ? 0 : chanceFor(dice);
+      const held =
+        config.refractory && s.marker?.depth !== undefined ? refractoryPercent(config.refractory, Math.max(0, depth - s.marker.depth)) / 100 : 1;
+      const trigger = (deckAfter?: DeckState): ChainState => ({
+        state: { ...s.state, ...(tracksDepth(config) ? { depth_at_last_trigger: depth } : {}), ...(deckAfter ? { deck: deckAfter } : {}) },
+        marker: marks ? nextMarker(s.marker, EPOCH, markDepth ? depth : undefined) : s.marker,
+        fired: true,
+      });
+      const quietAfter = (deckAfter?: DeckState): ChainState => ({ ...s, state: { ...s.state, ...(deckAfter ? { deck: deckAfter } : {}) } });
+      const hitDeck = deck && { remaining: deck.remaining - 1, hits: deck.hits - 1 };
+      const missDeck = deck && { remaining: deck.remaining - 1, hits: deck.hits };
+      // A rolled hit stands with the refractory odds; a miss, or a hit the refractory
+      // draw drops, is forced when pity or the schedule is due.
+      const fires = p * (forced ? 1 : hit * held);
+      add(next, trigger(hitDeck), p * hit * held);
+      add(next, forced ? trigger(hitDeck) : s, p * hit * (1 - held)); // a cancelled hit card goes back in the deck
+      add(next, forced ? trigger(missDeck) : quietAfter(missDeck), p * (1 - hit));
+      triggered += fires;
+    }
+    const quietNow = [...next.values()].filter(({ s }) => !s.fired).reduce((sum, { p }) => sum + p, 0);
+    rows.push({
+      depth,
+      dice: diceAt(config, depth, { depth_at_last_trigger: 0, last_reset: EPOCH }).dice,
+      chance: quiet > 0 ? ((quiet - quietNow) / quiet) * 100 : 0,
+      turnChance: triggered * 100,
+      cumulative: (1 - quietNow) * 100,
+    });
+    quiet = quietNow;
+    states = next;
+  }
+
+  const reach = (percent: number) => rows.find((r) => r.cumulative >= percent - 1e-9)?.depth ?? null;
+  return {
+    slot: config.name,
+    rows,
+    median: reach(50),
+    p90: reach(90),
+    expectedTriggers: rows.reduce((sum, r) => sum + r.turnChance, 0) / 100,
+  };
+}
+
+/** `about 50% by turn 17, 90% by turn 28`, or the chance within the table when 50% is out of reach. */
+export function describeOdds(odds: SlotOdds): string {
+  const last = odds.rows[odds.rows.length - 1];
+  if (odds.median === null) return `${Math.round(last?.cumulative ?? 0)}% within ${odds.rows.length} turns`;
+  return `about 50% by turn ${odds.median}${odds.p90 !== null ? `, 90% by turn ${odds.p90}` : ""}`;
+}
@@ -0,0 +1,47 @@
+/**
+ * Pure pause policy — silencing a slot without unregistering it (no IO).
+ *
+ * A slot is off when `enabled` is false (until resumed), or snoozed by `paused`:
+ * until an ISO time, or for one session. Pausing rewrites the slot's config;
+ * the adapter saves it through its registry. An expired snooze is inert.
+ */
+
+import type { DiceSlotConfig, SlotStatus } from "../types";
+
+export type PauseSpec = { kind: "off" } | { kind: "for"; ms: number } | { kind: "session" };
+
+export type SlotPause = NonNullable<SlotStatus["paused"]>;
+
+/** The config with any earlier pause replaced by `spec`. */
+export function pausedConfig(config: DiceSlotConfig, spec: PauseSpec, sessionId: string, now: number): DiceSlotConfig {
+  const rest = resumedConfig(config);
+  switch (spec.kind) {
+    case "off":
+      return { ...rest, enabled: false };
+    case "for":
+      return { ...rest, paused: { until: new Date(now + spec.ms).toISOString() } };
+    case "session":
+      return { ...rest, paused: { session: sessionId } };
+  }
+}
+
+/** The config with `enabled: false` and any snooze removed. */
+export function resumedConfig(config: DiceSlotConfig): DiceSlotConfig {
+  const { enabled: _enabled, paused: _paused, ...rest } = config;
+  return rest;
+}
+
+/** Why the slot is silenced in `sessionId` at `now`, or undefined when it is live. */
+export function pauseStatus(config: DiceSlotConfig, sessionId: string, now: number): SlotPause | undefined {
+  if (config.enabled === false) return { disabled: true };
+  const { until, session } = config.paused ?? {};
+  if (until !== undefined && Date.parse(until) > now) return { until };
+  if (session !== undefined && session === sessionId) return { session };
+  return undefined;
+}
+
+/** `disabled`, `paused until <time>`, or `paused this session`. */
+export function formatPause(pause: SlotPause): string {
+  if (pause.disabled) return "disabled";
+  return pause.until !== undefined ? `paused until ${pause.until}` : "paused this session";
+}
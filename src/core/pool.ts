@@ -0,0 +1,71 @@
+/**
+ * Pure pool membership — which slots share a base roll (no IO).
+ *
+ * Dice slots in the same pool observe one shared base roll per check. By
+ * default a slot's pool is its die (`d20`, or its exact custom faces), so every
+ * d20 slot is correlated with every other. `pool` overrides that: a named pool
+ * shares only with slots naming the same pool (and rolling the same die), and
+ * `independent` rolls its own base. Expression, deck, curve, and scheduled
+ * slots never pool.
+ */
+
+import type { DiceSlotConfig } from "../types";
+
+export const INDEPENDENT = "independent";
+
+const POOL_NAME_RE = /^[a-zA-Z0-9][a-zA-Z0-9_-]*$/;
+
+/** True for slots that take part in a pool at all. */
+export function isPooled(config: DiceSlotConfig): boolean {
+  return !["expression", "deck", "scheduled"].includes(config.type) && !(config.type === "accumulator" && config.curve !== undefined);
+}
+
+/** The die half of the key: size for standard dice, faces and weights for custom ones. */
+function dieKey(config: DiceSlotConfig): string {
+  if (!Array.isArray(config.faces) || config.faces.length === 0) return `d${config.die}`;
+  return `faces:${JSON.stringify([config.faces, config.weights ?? null])}`;
+}
+
+/**
+ * Pool identity; slots with equal keys share a base roll. A slot without
+ * `pool` keys on its die alone, exactly as before pools could be named, so
+ * existing configs group (and draw RNG) unchanged.
+ */
+export function poolKey(config: DiceSlotConfig): string {
+  if (config.pool === undefined) return dieKey(config);
+  if (config.pool === INDEPENDENT) return `${INDEPENDENT}:${config.name}`;
+  return `pool:${config.pool}:${dieKey(config)}`;
+}
+
+/** How `list` names a slot's pool: the pool name, `independent`, or the die (`d20`, `d[1,1,2]`). */
+export function poolLabel(config: DiceSlotConfig): string {
+  return config.pool ?? dieLabel(config);
+}
+
+/** For each pooled slot, the other slots sharing its base roll (empty when it rolls alone). */
+export function poolMates(slots: DiceSlotConfig[]): Map<string, string[]> {
+  const byKey = new Map<string, string[]>();
+  for (const slot of slots.filter(isPooled)) byKey.set(poolKey(slot), [...(byKey.get(poolKey(slot)) ?? []), slot.name]);
+  const mates = new Map<string, string[]>();
+  for (const slot of slots.filter(isPooled)) mates.set(slot.name, byKey.get(poolKey(slot))!.filter((n) => n !== slot.name));
+  return mates;
+}
+
+/**
+ * Why `config.pool` is invalid against the other registered `slots`, or null:
+ * the name must be path-safe, the slot must be a dice slot, and a named pool's
+ * members must roll the same die (a shared d20 roll means nothing to a d6).
+ */
+export function poolError(config: DiceSlotConfig, slots: DiceSlotConfig[]): string | null {
+  const { pool } = config;
+  if (pool === undefined) return null;
+  if (!POOL_NAME_RE.test(pool)) return `pool "${pool}" must start with alphanumeric, contain only [a-zA-Z0-9_-]`;
+  if (!isPooled(config)) return "pool applies to dice slots (not expression, deck, scheduled, or curve slots)";
+  if (pool === INDEPENDENT) return null;
+  const other = slots.find((s) => s.name !== config.name && s.pool === pool && isPooled(s) && dieKey(s) !== dieKey(config));
+  return other ? `pool "${pool}" already rolls ${dieLabel(other)} (slot ${other.name}); this slot rolls ${dieLabel(config)}` : null;
+}
+
+function dieLabel(config: DiceSlotConfig): string {
+  return Array.isArray(config.faces) && config.faces.length > 0 ? `d[${config.faces.join(",")}]` : `d${config.die}`;
+}
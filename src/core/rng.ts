@@ -0,0 +1,50 @@
+/**
+ * Pure RNG providers and the seeded PRNG (no IO).
+ *
+ * A host rolls with `math` (Math.random, the default), `crypto`, or `seeded`.
+ * Seeded hosts hand the engine a fresh stream per seed (DiceHost.rngFor); the
+ * engine seeds each pool and each unpooled slot from the session id, the depth,
+ * and the stream name (rngSeed), so any stop can be rolled again exactly. The
+ * adapter picks the provider; see src/rng.ts.
+ */
+
+export type RngProvider = "math" | "crypto" | "seeded";
+
+export const RNG_PROVIDERS: RngProvider[] = ["math", "crypto", "seeded"];
+
+/** The provider named by `text`, or null when it names none. */
+export function parseRngProvider(text: string): RngProvider | null {
+  const name = text.trim().toLowerCase();
+  return (RNG_PROVIDERS as string[]).includes(name) ? (name as RngProvider) : null;
+}
+
+/** 32-bit FNV-1a hash of a string; turns a text seed into a PRNG seed. */
+export function hashSeed(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** mulberry32: a small, fast PRNG returning floats in [0, 1) from a 32-bit seed. */
+export function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** A deterministic RNG for a text seed: the same seed always gives the same stream. */
+export function seededRng(seed: string): () => number {
+  return mulberry32(hashSeed(seed));
+}
+
+/** The seed of one stream in one check: `<session>:<depth>:<stream>`. */
+export function rngSeed(sessionId: string, depth: number, stream: string): string {
+  return `${sessionId}:${depth}:${stream}`;
+}
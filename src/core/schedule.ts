@@ -0,0 +1,73 @@
+/**
+ * Pure schedule policy for `scheduled` slots — deterministic nudges at fixed
+ * depths: every `every` user messages and/or at each depth in `atDepths` (no IO,
+ * no RNG).
+ *
+ * A check fires when a scheduled depth has been reached since the slot last fired
+ * (`depth_at_last_trigger`), so a depth skipped between two checks still fires
+ * once on the next one, and a depth checked twice fires only once. The caller
+ * owns loading and saving the state; this module owns the math.
+ */
+
+import type { DiceSlotConfig } from "../types";
+
+type ScheduleConfig = Pick<DiceSlotConfig, "every" | "atDepths">;
+
+/** Latest scheduled depth at or before `depth`, or null when none is. */
+function lastScheduledAt(config: ScheduleConfig, depth: number): number | null {
+  let last: number | null = null;
+  if (config.every && config.every > 0 && depth >= config.every) {
+    last = Math.floor(depth / config.every) * config.every;
+  }
+  for (const d of config.atDepths ?? []) {
+    if (d <= depth && (last === null || d > last)) last = d;
+  }
+  return last;
+}
+
+/** True when a scheduled depth lies in (lastFired, currentDepth]. */
+export function scheduleDue(config: ScheduleConfig, lastFired: number, currentDepth: number): boolean {
+  const last = lastScheduledAt(config, currentDepth);
+  return last !== null && last > lastFired;
+}
+
+/** First scheduled depth after `depth`, or null when the schedule has run out. */
+export function nextScheduledDepth(config: ScheduleConfig, depth: number): number | null {
+  let next: number | null = null;
+  if (config.every && config.every > 0) {
+    next = (Math.floor(depth / config.every) + 1) * config.every;
+  }
+  for (const d of config.atDepths ?? []) {
+    if (d > depth && (next === null || d < next)) next = d;
+  }
+  return next;
+}
+
+/** Parse `10,25,50` into sorted, de-duplicated depths; null when any entry is not an integer >= 1. */
+export function parseDepthList(text: string): number[] | null {
+  const parts = text.split(",").map((p) => p.trim());
+  if (parts.some((p) => !/^\d+$/.test(p) || Number(p) < 1)) return null;
+  return [...new Set(parts.map(Number))].sort((a, b) => a - b);
+}
+
+/** Why a schedule is unusable, or null when it is fine. */
+export function scheduleError(config: ScheduleConfig): string | null {
+  if (config.every === undefined && (config.atDepths === undefined || config.atDepths.length === 0)) {
+    return "needs every or atDepths";
+  }
+  if (config.every !== undefined && (!Number.isInteger(config.every) || config.every < 1)) {
+    return "every must be an integer >= 1";
+  }
+  if (config.atDepths?.some((d) => !Number.isInteger(d) || d < 1)) {
+    return "atDepths must be integers >= 1";
+  }
+  return null;
+}
+
+/** `every 10`, `at 10,25,50`, or `every 10 + at 5` — the schedule as text. */
+export function formatSchedule(config: ScheduleConfig): string {
+  const parts: string[] = [];
+  if (config.every !== undefined) parts.push(`every ${config.every}`);
+  if (config.atDepths?.length) parts.push(`at ${config.atDepths.join(",")}`);
+  return parts.join(" + ");
+}
@@ -0,0 +1,144 @@
+/**
+ * Monte Carlo simulation of slot configurations (no IO).
+ *
+ * Drives the real checkAllSlots against an in-memory host, turn after turn,
+ * over many independent sessions: depth climbs by one per turn from 1. Every
+ * interaction the engine has — shared pools, groups, vetoes, chains, cooldowns,
+ * pity timers — plays out exactly as in a real session, which is the point:
+ * the closed-form odds only describe one slot alone.
+ *
+ * Each run rolls with the seeded provider (see core/rng.ts) under its own
+ * session id, so a simulation is reproducible from its seed. The engine cannot
+ * see a transcript or a clock here, so every `when` condition holds, every
+ * activation window is open, pauses are ignored, and turns take no time (a
+ * duration cooldown lasts the rest of the run).
+ */
+
+import type { CooldownMarker, DiceSlotConfig, DiceState } from "../types";
+import type { DiceHost } from "./contracts";
+import { checkAllSlots } from "./engine";
+import { seededRng } from "./rng";
+
+const EPOCH = new Date(0).toISOString();
+
+export interface SimulationOptions {
+  turns: number;
+  runs: number;
+  seed?: string;                         // default "sim"
+}
+
+export interface SlotCurve {
+  slot: string;
+  perTurn: number[];                     // perTurn[t - 1]: percent of runs that triggered at turn t
+  cumulative: number[];                  // cumulative[t - 1]: percent of runs with a trigger by turn t
+  meanFirstTrigger: number | null;       // mean turn of the first trigger, over runs that had one
+  never: number;                         // percent of runs with no trigger in `turns`
+  triggersPerRun: number;
+}
+
+export interface CoTrigger {
+  a: string;
+  b: string;
+  together: number;                      // percent of turns on which both triggered
+  givenA: number | null;                 // percent of a's triggers that b shared
+  givenB: number | null;                 // percent of b's triggers that a shared
+}
+
+export interface SimulationResult {
+  turns: number;
+  runs: number;
+  seed: string;
+  slots: SlotCurve[];
+  coTriggers: CoTrigger[];
+}
+
+/** The configs as simulated: pauses and activation windows removed. */
+export function simulationSlots(slots: DiceSlotConfig[]): DiceSlotConfig[] {
+  return slots.map(({ enabled: _enabled, paused: _paused, active: _active, ...rest }) => rest);
+}
+
+/** A fresh in-memory DiceHost over `slots`, rolling with seeded streams. */
+export function memoryHost(slots: DiceSlotConfig[]): DiceHost {
+  const byName = new Map(slots.map((s) => [s.name, s]));
+  const state = new Map<string, DiceState>();
+  const cooldown = new Map<string, CooldownMarker>();
+  const key = (slot: string, session: string) => `${slot}\0${session}`;
+  return {
+    listSlots: async () => slots,
+    getSlot: async (name) => byName.get(name) ?? null,
+    loadState: async (slot, session) => state.get(key(slot, session)) ?? { depth_at_last_trigger: 0, last_reset: EPOCH },
+    saveState: async (slot, session, s) => void state.set(key(slot, session), s),
+    clearState: async (slot, session) => void state.delete(key(slot, session)),
+    hasCooldown: async (slot, session) => cooldown.has(key(slot, session)),
+    loadCooldown: async (slot, session) => cooldown.get(key(slot, session)) ?? null,
+    markTriggered: async (slot, session, marker) => void cooldown.set(key(slot, session), marker ?? { triggeredAt: EPOCH, count: 1 }),
+    clearCooldown: (slot, session) => void cooldown.delete(key(slot, session)),
+    rngFor: seededRng,
+  };
+}
+
+/** Run `runs` sessions of `turns` turns each and summarize who triggered when. */
+export async function simulate(slots: DiceSlotConfig[], options: SimulationOptions): Promise<SimulationResult> {
+  const { turns, runs } = options;
+  const seed = options.seed ?? "sim";
+  const configs = simulationSlots(slots);
+  const names = configs.map((s) => s.name);
+  const index = new Map(names.map((n, i) => [n, i]));
+  const atTurn = names.map(() => new Array<number>(turns).fill(0));
+  const firstAt = names.map(() => new Array<number>(turns).fill(0));
+  const firstSum = names.map(() => 0);
+  const totals = names.map(() => 0);
+  const pairs = names.map(() => names.map(() => 0));
+
+  for (let run = 0; run < runs; run++) {
+    const host = memoryHost(configs);
+    const sessionId = `${seed}:${run}`;
+    const seen = new Set<number>();
+    for (let turn = 1; turn <= turns; turn++) {
+      const results = await checkAllSlots(host, {
+        sessionId,
+        getCurrentDepth: async () => turn,
+        scopeKeys: { project: `${sessionId}:project`, global: `${sessionId}:global` },
+        matchesCondition: async () => true,
+      });
+      const fired = results.filter((r) => r.triggered).map((r) => index.get(r.slotName)!);
+      for (const i of fired) {
+        atTurn[i][turn - 1]++;
+        totals[i]++;
+        if (!seen.has(i)) {
+          seen.add(i);
+          firstAt[i][turn - 1]++;
+          firstSum[i] += turn;
+        }
+        for (const j of fired) if (j !== i) pairs[i][j]++;
+      }
+    }
+  }
+
+  const pct = (n: number, of: number) => (n / of) * 100;
+  const curves = names.map((slot, i) => {
+    let reached = 0;
+    const cumulative = firstAt[i].map((n) => pct((reached += n), runs));
+    return {
+      slot,
+      perTurn: atTurn[i].map((n) => pct(n, runs)),
+      cumulative,
+      meanFirstTrigger: reached > 0 ? firstSum[i] / reached : null,
+      never: pct(runs - reached, runs),
+      triggersPerRun: totals[i] / runs,
+    };
+  });
+  const coTriggers: CoTrigger[] = [];
+  for (let i = 0; i < names.length; i++) {
+    for (let j = i + 1; j < names.length; j++) {
+      coTriggers.push({
+        a: names[i],
+        b: names[j],
+        together: pct(pairs[i][j], runs * turns),
+        givenA: totals[i] > 0 ? pct(pairs[i][j], totals[i]) : null,
+        givenB: totals[j] > 0 ? pct(pairs[i][j], totals[j]) : null,
+      });
+    }
+  }
+  return { turns, runs, seed, slots: curves, coTriggers };
+}
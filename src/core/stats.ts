@@ -0,0 +1,183 @@
+/**
+ * Pure statistics over the roll history (no IO).
+ *
+ * Two questions: does each slot trigger as often as its odds say, and are the
+ * dice fair? The first compares observed hits with the sum of each check's
+ * recorded probability (the engine's calculateProbability at that dice count,
+ * already scaled by any refractory curve). The second is a chi-square test of
+ * face frequencies per die size. Both exist to catch RNG or shared-pool bugs,
+ * and to show whether a slot is tuned the way its author thinks.
+ */
+
+import type { DiceSlotConfig, RollRecord } from "../types";
+import { isPooled, poolKey } from "./pool";
+
+/** A history record with its session (see src/history.ts). */
+type HistoryRecord = RollRecord & { session: string };
+
+const SKIPPED = ["paused", "cooldown", "dormant", "condition", "inactive"];
+const FORCED = ["pity", "scheduled"];
+
+/** Below this many expected rolls per face the chi-square approximation is unreliable. */
+const MIN_EXPECTED_PER_FACE = 5;
+
+export interface SlotStats {
+  slot: string;
+  sessions: number;                      // sessions with any record of the slot
+  checks: number;                        // checks that rolled (not skipped, not forced by pity or schedule)
+  hits: number;                          // rolled a hit, including ones vetoed or suppressed afterwards
+  expectedHits: number;                  // sum of each check's probability
+  observedRate: number | null;           // hits / checks, 0-100
+  expectedRate: number | null;           // expectedHits / checks, 0-100
+  z: number | null;                      // (hits - expected) / sd; null without variance
+  triggers: number;                      // triggers that fired, forced ones included
+  triggersPerSession: number | null;
+  avgTriggerDepth: number | null;        // over triggers whose check read the depth
+}
+
+export interface FaceStats {
+  die: number;
+  rolls: number;                         // independent dice observed (a pool's shared base counts once)
+  counts: number[];                      // counts[f - 1]: times face f came up
+  chiSquare: number;
+  df: number;
+  p: number;                             // chance of a chi-square this large from fair dice
+  enough: boolean;                       // every face expected at least MIN_EXPECTED_PER_FACE times
+}
+
+function isHit(record: HistoryRecord): boolean {
+  const reason = record.reason ?? "";
+  return record.triggered || reason.startsWith("vetoed by ") || reason.startsWith("suppressed by ");
+}
+
+/** A check that rolled at its own odds: pity and schedules force triggers at a recorded 100%. */
+function rolled(record: HistoryRecord): boolean {
+  return record.diceCount > 0 && !SKIPPED.includes(record.reason ?? "") && !FORCED.includes(record.reason ?? "");
+}
+
+const mean = (xs: number[]) => (xs.length > 0 ? xs.reduce((a, b) => a + b, 0) / xs.length : null);
+
+/** Observed against expected triggering for each slot in `records`, in first-seen order. */
+export function slotStats(records: HistoryRecord[]): SlotStats[] {
+  const bySlot = new Map<string, HistoryRecord[]>();
+  for (const r of records) bySlot.set(r.slot, [...(bySlot.get(r.slot) ?? []), r]);
+  return [...bySlot].map(([slot, all]) => {
+    const checks = all.filter(rolled);
+    const hits = checks.filter(isHit).length;
+    const expectedHits = checks.reduce((sum, r) => sum + r.probability / 100, 0);
+    const variance = checks.reduce((sum, r) => sum + (r.probability / 100) * (1 - r.probability / 100), 0);
+    const fired = all.filter((r) => r.triggered);
+    const sessions = new Set(all.map((r) => r.session)).size;
+    return {
+      slot,
+      sessions,
+      checks: checks.length,
+      hits,
+      expectedHits,
+      observedRate: checks.length > 0 ? (hits / checks.length) * 100 : null,
+      expectedRate: checks.length > 0 ? (expectedHits / checks.length) * 100 : null,
+      z: variance > 0 ? (hits - expectedHits) / Math.sqrt(variance) : null,
+      triggers: fired.length,
+      triggersPerSession: sessions > 0 ? fired.length / sessions : null,
+      avgTriggerDepth: mean(fired.flatMap((r) => (r.depth !== undefined ? [r.depth] : []))),
+    };
+  });
+}
+
+/** Slots whose recorded rolls are plain uniform faces of `die`: no custom faces, no advantage. */
+function fairDie(config: DiceSlotConfig | undefined): config is DiceSlotConfig {
+  return config !== undefined && isPooled(config) && !(config.faces?.length) && (config.advantage ?? "none") === "none";
+}
+
+/**
+ * Face frequencies per die size, with a chi-square goodness-of-fit test against
+ * a fair die. Faces are read against each slot's current config; records whose
+ * rolls fall outside it (the slot was re-registered) are left out. A pool's
+ * shared base die is counted once per check, not once per slot.
+ */
+export function faceStats(records: HistoryRecord[], slots: DiceSlotConfig[]): FaceStats[] {
+  const configs = new Map(slots.map((s) => [s.name, s]));
+  const counts = new Map<number, number[]>();
+  // A check's records are contiguous and name each slot once, so a new session,
+  // time, or a repeated slot starts the next check (two checks can share a millisecond).
+  let check = "";
+  let inCheck = new Set<string>();
+  let seenBase = new Set<string>();
+  for (const r of records) {
+    const key = `${r.session}\0${r.at}`;
+    if (key !== check || inCheck.has(r.slot)) {
+      check = key;
+      inCheck = new Set();
+      seenBase = new Set();
+    }
+    inCheck.add(r.slot);
+    const config = configs.get(r.slot);
+    if (!fairDie(config) || !rolled(r) || r.rolls.some((f) => !Number.isInteger(f) || f < 1 || f > config.die)) continue;
+    const independent = seenBase.has(poolKey(config)) ? r.rolls.slice(1) : r.rolls;
+    seenBase.add(poolKey(config));
+    const tally = counts.get(config.die) ?? new Array<number>(config.die).fill(0);
+    for (const f of independent) tally[f - 1]++;
+    counts.set(config.die, tally);
+  }
+  return [...counts]
+    .sort(([a], [b]) => a - b)
+    .map(([die, tally]) => {
+      const rolls = tally.reduce((a, b) => a + b, 0);
+      const expected = rolls / die;
+      const chiSquare = expected > 0 ? tally.reduce((sum, o) => sum + (o - expected) ** 2 / expected, 0) : 0;
+      const df = die - 1;
+      return { die, rolls, counts: tally, chiSquare, df, p: df > 0 && rolls > 0 ? chiSquareP(chiSquare, df) : 1, enough: expected >= MIN_EXPECTED_PER_FACE };
+    });
+}
+
+/** P(X >= x) for X ~ chi-square with `df` degrees of freedom. */
+export function chiSquareP(x: number, df: number): number {
+  return x <= 0 ? 1 : gammaQ(df / 2, x / 2);
+}
+
+/** ln Γ(z), Lanczos approximation (g = 7). */
+function lnGamma(z: number): number {
+  const c = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059, 12.507343278686905,
+    -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+  ];
+  if (z < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * z)) - lnGamma(1 - z);
+  const x = z - 1;
+  let a = c[0];
+  const t = x + 7.5;
+  for (let i = 1; i < 9; i++) a += c[i] / (x + i);
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(a);
+}
+
+/** Regularized upper incomplete gamma Q(a, x): a series below a + 1, a continued fraction above. */
+function gammaQ(a: number, x: number): number {
+  const lnPrefix = a * Math.log(x) - x - lnGamma(a);
+  if (x < a + 1) {
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < 500 && Math.abs(term) > Math.abs(sum) * 1e-15; n++) {
+      term *= x / (a + n);
+      sum += term;
+    }
+    return Math.max(0, 1 - sum * Math.exp(lnPrefix));
+  }
+  // Lentz's method for the continued fraction.
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < 500; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-15) break;
+  }
+  return Math.min(1, h * Math.exp(lnPrefix));
+}
@@ -0,0 +1,78 @@
+/**
+ * Roll history storage — one JSONL file per session under `<base>/history/`.
+ *
+ * Hosts append each check's records (DiceHost.appendHistory) and `agent-dice
+ * history` / `/dice history` read them back. Writes are best-effort: a full
+ * disk or bad permissions must never break the Stop hook. Shared by the Claude
+ * and Pi hosts, which pass their own base dir. Records are shaped in
+ * src/core/history.ts.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import type { RollRecord } from "./types";
+
+/** Session ids become file names; anything else is not stored. */
+const SESSION_RE = /^[a-zA-Z0-9][a-zA-Z0-9_.-]*$/;
+
+function historyDir(base: string): string {
+  return join(base, "history");
+}
+
+/** Append `records` to the session's history. Never throws. */
+export function appendRollHistory(base: string, sessionId: string, records: RollRecord[]): void {
+  if (records.length === 0 || !SESSION_RE.test(sessionId)) return;
+  try {
+    const dir = historyDir(base);
+    if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+    appendFileSync(join(dir, `${sessionId}.jsonl`), records.map((r) => JSON.stringify(r) + "\n").join(""));
+  } catch {
+    // best-effort: history is a log, not state
+  }
+}
+
+/** A history record with the session it was read from. */
+export type SessionRecord = RollRecord & { session: string };
+
+function readSession(base: string, session: string): SessionRecord[] {
+  let text: string;
+  try {
+    text = readFileSync(join(historyDir(base), `${session}.jsonl`), "utf-8");
+  } catch {
+    return [];
+  }
+  const records: SessionRecord[] = [];
+  for (const line of text.split("\n")) {
+    if (line.trim() === "") continue;
+    try {
+      records.push({ ...(JSON.parse(line) as RollRecord), session });
+    } catch {
+      // a torn line from an interrupted write
+    }
+  }
+  return records;
+}
+
+/**
+ * Recorded rolls, oldest first: one session or all of them, optionally one
+ * slot, and only the last `limit` when given.
+ */
+export function readRollHistory(base: string, query: { session?: string; slot?: string; limit?: number } = {}): SessionRecord[] {
+  let sessions: string[];
+  if (query.session !== undefined) {
+    sessions = SESSION_RE.test(query.session) ? [query.session] : [];
+  } else {
+    try {
+      sessions = readdirSync(historyDir(base))
+        .filter((f) => f.endsWith(".jsonl"))
+        .map((f) => f.slice(0, -".jsonl".length));
+    } catch {
+      sessions = [];
+    }
+  }
+  const records = sessions
+    .flatMap((s) => readSession(base, s))
+    .filter((r) => query.slot === undefined || r.slot === query.slot)
+    .sort((a, b) => a.at.localeCompare(b.at));
+  return query.limit !== undefined ? records.slice(-query.limit) : records;
+}
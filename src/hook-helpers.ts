@@ -5,7 +5,7 @@
  */
 
 import type { DiceResult, DiceSlotConfig } from "./types";
-import { applyPlaceholders } from "./adapters/claude-renderer";
+import { triggerMessage } from "./adapters/claude-renderer";
 
 interface StopHookInput {
   session_id: string;
@@ -40,7 +40,7 @@ export async function parseStopHookInput(): Promise<StopHookInput> {
 export function exitWithResult(result: DiceResult, slotConfig: DiceSlotConfig): never {
   if (result.triggered) {
     // No flavor prefix here — preserves exitWithResult's current output (U6).
-    console.error(applyPlaceholders(slotConfig.onTrigger.message, result));
+    console.error(triggerMessage(result, slotConfig));
     process.exit(2);
   }
 
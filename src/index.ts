@@ -6,10 +6,21 @@
 
 // Types
 export type {
+  DiceTarget,
+  TargetMode,
+  Advantage,
+  DiceFace,
   DiceSlotConfig,
   DiceState,
+  DeckState,
+  ProbabilityCurve,
+  CooldownSpec,
+  SlotScope,
+  CooldownMarker,
   CheckContext,
   DiceResult,
+  SkipReason,
+  RollRecord,
   SlotStatus,
 } from "./types";
 
@@ -20,13 +31,73 @@ export { registerSlot, unregisterSlot, getSlot, listSlots, getBaseDir, validateN
 export { loadState, saveState, resetState, clearState } from "./state";
 
 // Cooldown
-export { hasCooldown, markTriggered, clearCooldown } from "./cooldown";
+export { hasCooldown, loadCooldown, markTriggered, clearCooldown } from "./cooldown";
+export { parseCooldown, cooldownError, defaultCooldown, parseDuration, refractoryPercent } from "./core/cooldown";
+
+// Chains
+export { chainError } from "./core/chain";
+
+// Pause
+export { formatPause } from "./core/pause";
+export type { PauseSpec } from "./core/pause";
+
+// RNG providers and the seeded PRNG
+export { seededRng, mulberry32, hashSeed, rngSeed, parseRngProvider, RNG_PROVIDERS } from "./core/rng";
+export type { RngProvider } from "./core/rng";
+export { resolveRngProvider, saveRngProvider } from "./rng";
+export type { RngSource } from "./rng";
+
+// Roll history
+export { historyRecords, formatRecord } from "./core/history";
+export { appendRollHistory, readRollHistory } from "./history";
+export type { SessionRecord } from "./history";
+export { slotStats, faceStats, chiSquareP } from "./core/stats";
+export type { SlotStats, FaceStats } from "./core/stats";
+
+// Odds
+export { slotOdds, describeOdds } from "./core/odds";
+export type { OddsRow, SlotOdds } from "./core/odds";
+
+// Simulation
+export { simulate, simulationSlots, memoryHost } from "./core/simulate";
+export type { SimulationOptions, SimulationResult, SlotCurve, CoTrigger } from "./core/simulate";
+
+// Pools
+export { poolError, poolLabel, poolMates } from "./core/pool";
+
+// Activation windows
+export { activationError, formatActivation, windowOpen } from "./core/activation";
+
+// Conditions
+export { conditionMet, conditionError, formatCondition } from "./conditions";
+export type { LastTurn } from "./conditions";
 
 // Roll
-export { rollDice, checkTarget, findTriggerValue, calculateProbability } from "./roll";
+export {
+  rollDice,
+  checkTarget,
+  matchesTarget,
+  isSumMode,
+  sumRolls,
+  countHits,
+  findTriggerValue,
+  calculateProbability,
+  parseTarget,
+  formatTarget,
+  formatRolls,
+  targetError,
+  slotConfigError,
+  rollFaces,
+  faceValues,
+  faceLabel,
+  parseFaces,
+  parseFaceTarget,
+  faceTargetError,
+  defaultFaceTarget,
+} from "./roll";
 
 // Transcript
-export { getTranscriptPath, countExchanges } from "./transcript";
+export { getTranscriptPath, countExchanges, readLastTurn } from "./transcript";
 
 // Session
 export { getClaudeSessionId, getSessionId, extractSessionFromPath, getProjectHash } from "./session";
@@ -36,10 +107,27 @@ export { parseStopHookInput, exitWithResult } from "./hook-helpers";
 
 // Accumulator
 export { getAccumulatorDiceCount } from "./accumulator";
+export { curveValue, curveCrossings, parseCurve, formatCurve } from "./core/accumulator";
 
 // Single-slot dry-run preview (used by the CLI `roll` command)
 export { previewSlot } from "./core/engine";
 
+// Dice expressions (expression slots)
+export {
+  parseExpression,
+  evaluateExpression,
+  expressionDistribution,
+  expressionProbability,
+  formatExpressionRoll,
+} from "./core/expression";
+export type { DiceExpression, ExpressionRoll } from "./core/expression";
+
+// Deck slots (draw without replacement)
+export { freshDeck, currentDeck, deckProbability, drawCard } from "./core/deck";
+
+// Scheduled slots (fixed depths, no dice)
+export { scheduleDue, nextScheduledDepth, parseDepthList, formatSchedule } from "./core/schedule";
+
 // Trigger rendering (used by the Stop hook via the dynamically imported module)
 export { renderTrigger, applyPlaceholders } from "./adapters/claude-renderer";
 
@@ -52,13 +140,16 @@ export { renderTrigger, applyPlaceholders } from "./adapters/claude-renderer";
 // src/core/engine.ts (proven equivalent by the D6 conformance probe).
 // ============================================================================
 
-import type { CheckContext, DiceResult, SlotStatus } from "./types";
-import { createClaudeHost, resolveCoreContext } from "./adapters/claude-code";
+import type { CheckContext, DiceResult, DiceSlotConfig, SlotStatus } from "./types";
+import { createClaudeHost, resolveCoreContext, resolveSessionId } from "./adapters/claude-code";
 import * as engine from "./core/engine";
+import { type PauseSpec, type SlotPause, pausedConfig, resumedConfig, pauseStatus } from "./core/pause";
+import { getSlot, registerSlot } from "./registry";
 
 /**
- * Check all slots with shared dice pools. Slots with the same die size share one
- * base roll; single slots observe only the base, accumulator/fixed add bonus dice.
+ * Check all slots with shared dice pools. Slots in the same pool (by default,
+ * the same die size) share one base roll; single slots observe only the base,
+ * accumulator/fixed add bonus dice.
  */
 export async function checkAllSlots(ctx: CheckContext = {}): Promise<DiceResult[]> {
   return engine.checkAllSlots(createClaudeHost(), resolveCoreContext(ctx));
@@ -82,6 +173,48 @@ export async function clearSlot(name: string, ctx: CheckContext = {}): Promise<v
   return engine.clearSlot(createClaudeHost(), name, resolveCoreContext(ctx));
 }
 
+/**
+ * Pause a slot without unregistering it: off until resumed, for a duration, or
+ * for the current session. Returns the saved config, or null when not found.
+ */
+export async function pauseSlot(name: string, spec: PauseSpec, ctx: CheckContext = {}): Promise<DiceSlotConfig | null> {
+  const config = await getSlot(name);
+  if (!config) return null;
+  return registerSlot(pausedConfig(config, spec, resolveSessionId(ctx), Date.now()));
+}
+
+/** Why a slot is silenced for the session in `ctx` right now, or undefined when it is live. */
+export function slotPause(config: DiceSlotConfig, ctx: CheckContext = {}): SlotPause | undefined {
+  return pauseStatus(config, resolveSessionId(ctx), Date.now());
+}
+
+/** Resume a paused or disabled slot. Returns the saved config, or null when not found. */
+export async function resumeSlot(name: string): Promise<DiceSlotConfig | null> {
+  const config = await getSlot(name);
+  if (!config) return null;
+  return registerSlot(resumedConfig(config));
+}
+
+/**
+ * Replay a check without committing anything. With the seeded RNG provider the
+ * dice are exactly those a stop at `depth` (default: the transcript's) rolled
+ * in this session. State, cooldowns, conditions, and windows are read as they
+ * are now, so the replay matches the stop only while nothing has changed since
+ * (a slot that triggered then has since reset). Throws unless seeded.
+ */
+export async function explainCheck(
+  ctx: CheckContext & { depth?: number } = {}
+): Promise<{ sessionId: string; depth: number; results: DiceResult[] }> {
+  const host = createClaudeHost();
+  if (!host.rngFor) {
+    throw new Error("replay needs the seeded RNG provider (AGENT_DICE_RNG=seeded, or `agent-dice rng seeded`)");
+  }
+  const core = resolveCoreContext(ctx);
+  const depth = ctx.depth ?? (await core.getCurrentDepth()) ?? 0;
+  const results = await engine.checkAllSlots(engine.dryRunHost(host), { ...core, getCurrentDepth: async () => depth });
+  return { sessionId: core.sessionId, depth, results };
+}
+
 /** Session start: clear all slots with clearOnSessionStart=true. */
 export async function sessionStart(ctx: CheckContext = {}): Promise<string[]> {
   return engine.sessionStart(createClaudeHost(), resolveCoreContext(ctx));
@@ -9,7 +9,8 @@
 
 import { existsSync, mkdirSync } from "fs";
 import { join } from "path";
-import type { DiceSlotConfig } from "./types";
+import type { DiceSlotConfig, DiceTarget } from "./types";
+import { defaultCooldown } from "./core/cooldown";
 
 /**
  * Resolve the base directory for cc-dice data.
@@ -89,17 +90,18 @@ async function saveSlots(slots: Record<string, DiceSlotConfig>): Promise<void> {
 }
 
 /**
- * Register a dice slot. Merges provided config with defaults.
- * Persists to slots.json.
+ * Register a dice slot. Merges provided config with defaults; a slot without a
+ * cooldown gets the default for its kind (see defaultCooldown). Persists to slots.json.
  */
 export async function registerSlot(
-  config: Partial<DiceSlotConfig> & { name: string; die: number; target: number; onTrigger: { message: string } }
+  config: Partial<DiceSlotConfig> & { name: string; die: number; target: DiceTarget; onTrigger: { message: string } }
 ): Promise<DiceSlotConfig> {
   validateName(config.name, "slot name");
 
   const fullConfig: DiceSlotConfig = {
     ...SLOT_DEFAULTS,
     ...config,
+    cooldown: config.cooldown ?? defaultCooldown(config),
   } as DiceSlotConfig;
 
   const slots = await loadSlots();
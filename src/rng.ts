@@ -0,0 +1,55 @@
+/**
+ * RNG provider selection — which randomness the hosts roll with.
+ *
+ * `AGENT_DICE_RNG` wins, then `rng` in `<base>/config.json`, then `math`. A
+ * value naming no provider falls back to `math` (a typo must not break the Stop
+ * hook). Shared by the Claude and Pi hosts, which pass their own base dir. The
+ * seeded PRNG itself is pure and lives in src/core/rng.ts.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import type { DiceHost } from "./core/contracts";
+import { type RngProvider, parseRngProvider, seededRng } from "./core/rng";
+
+/** Where the provider came from, for `agent-dice rng`. */
+export type RngSource = "env" | "config" | "default";
+
+function configFile(base: string): string {
+  return join(base, "config.json");
+}
+
+function readConfig(base: string): Record<string, unknown> {
+  try {
+    return JSON.parse(readFileSync(configFile(base), "utf-8"));
+  } catch {
+    return {};
+  }
+}
+
+/** The configured provider and where it was set. */
+export function resolveRngProvider(base: string, env: Record<string, string | undefined> = process.env): { provider: RngProvider; source: RngSource } {
+  const fromEnv = env.AGENT_DICE_RNG;
+  if (fromEnv !== undefined) return { provider: parseRngProvider(fromEnv) ?? "math", source: "env" };
+  const fromConfig = readConfig(base).rng;
+  if (typeof fromConfig === "string") return { provider: parseRngProvider(fromConfig) ?? "math", source: "config" };
+  return { provider: "math", source: "default" };
+}
+
+/** Save the provider to `<base>/config.json`, keeping any other settings. */
+export function saveRngProvider(base: string, provider: RngProvider): void {
+  if (!existsSync(base)) mkdirSync(base, { recursive: true });
+  writeFileSync(configFile(base), JSON.stringify({ ...readConfig(base), rng: provider }, null, 2) + "\n");
+}
+
+/** A float in [0, 1) from the platform CSPRNG. */
+export function cryptoRandom(): number {
+  return crypto.getRandomValues(new Uint32Array(1))[0] / 4294967296;
+}
+
+/** The DiceHost RNG members for a provider (none for `math`: the engine's default). */
+export function providerRng(provider: RngProvider): Pick<DiceHost, "rng" | "rngFor"> {
+  if (provider === "crypto") return { rng: cryptoRandom };
+  if (provider === "seeded") return { rngFor: seededRng };
+  return {};
+}
@@ -5,6 +5,8 @@
  * No state, no side effects.
  */
 
+import type { DiceFace, DiceTarget, TargetMode } from "./types";
+
 /**
  * Roll multiple dice of a given size.
  *
@@ -21,20 +23,114 @@ export function rollDice(count: number, dieSize: number, rng: () => number = Mat
   );
 }
 
+/** True for the modes that compare the sum of the pool rather than any one die. */
+export function isSumMode(mode: TargetMode): boolean {
+  return mode === "sum-exact" || mode === "sum-gte" || mode === "sum-lte";
+}
+
+/**
+ * Roll `count` custom dice, one RNG call per die. `values` are the rolled value of
+ * each face (see faceValues); `weights` default to all equal.
+ */
+export function rollFaces(
+  count: number,
+  values: number[],
+  weights?: number[],
+  rng: () => number = Math.random
+): number[] {
+  if (count <= 0 || values.length === 0) return [];
+  const w = weights ?? values.map(() => 1);
+  const totalWeight = w.reduce((a, b) => a + b, 0);
+  return Array.from({ length: count }, () => {
+    let r = rng() * totalWeight;
+    for (let i = 0; i < values.length; i++) {
+      r -= w[i];
+      if (r < 0) return values[i];
+    }
+    return values[values.length - 1]; // float edge: r landed exactly on the total
+  });
+}
+
+/** Rolled value of each face: numeric faces as-is, string faces by 1-based position. */
+export function faceValues(faces: DiceFace[]): number[] {
+  return faces.every((f) => typeof f === "number") ? (faces as number[]) : faces.map((_, i) => i + 1);
+}
+
+/** Display label for a rolled value of a custom die (the string face, or the number). */
+export function faceLabel(faces: DiceFace[], value: number): string {
+  return faces.every((f) => typeof f === "number") ? String(value) : String(faces[value - 1]);
+}
+
 /**
- * Check if any roll matches the target according to the given mode.
+ * Roll an exploding die's extra dice: while the latest roll shows the max face,
+ * roll again, up to `maxDepth` extra rolls. Returns only the extra rolls (empty
+ * when `first` is not the max face), consuming one RNG call per extra roll.
+ */
+export function explodeRerolls(first: number, dieSize: number, maxDepth: number, rng: () => number = Math.random): number[] {
+  const extra: number[] = [];
+  let last = first;
+  while (last === dieSize && extra.length < maxDepth) {
+    last = Math.floor(rng() * dieSize) + 1;
+    extra.push(last);
+  }
+  return extra;
+}
+
+/**
+ * Check whether a single value (a face, or a pool total) matches the target.
+ *
+ * Face sets and ranges match by membership regardless of mode; a single-number
+ * target is compared per mode ('exact'/'sum-exact', 'gte'/'sum-gte', or
+ * 'lte'/'sum-lte').
+ */
+export function matchesTarget(roll: number, target: DiceTarget, mode: TargetMode): boolean {
+  if (Array.isArray(target)) return target.includes(roll);
+  if (typeof target === "object") return roll >= target.min && roll <= target.max;
+  switch (mode) {
+    case "exact":
+    case "sum-exact":
+      return roll === target;
+    case "gte":
+    case "sum-gte":
+      return roll >= target;
+    case "lte":
+    case "sum-lte":
+      return roll <= target;
+    default:
+      return false;
+  }
+}
+
+/** How many rolls individually match the target (sum modes compare each roll too). */
+export function countHits(rolls: number[], target: DiceTarget, mode: TargetMode): number {
+  return rolls.filter((r) => matchesTarget(r, target, mode)).length;
+}
+
+/** Sum of all rolls (0 for none). */
+export function sumRolls(rolls: number[]): number {
+  return rolls.reduce((a, b) => a + b, 0);
+}
+
+/**
+ * Check if any roll matches the target according to the given mode. Sum modes
+ * instead compare the total of all rolls.
  *
  * @param rolls - Array of roll results
- * @param target - Target value to check against
- * @param mode - Comparison mode: 'exact', 'gte', or 'lte'
- * @returns true if any roll matches
+ * @param target - Target value, face set, or face range to check against
+ * @param mode - Comparison mode: 'exact', 'gte', 'lte', or a 'sum-*' mode
+ * @param minHits - Per-die modes: how many rolls must match (default 1)
+ * @returns true if enough rolls (or, for sum modes, the total) match
  */
 export function checkTarget(
   rolls: number[],
-  target: number,
-  mode: "exact" | "gte" | "lte"
+  target: DiceTarget,
+  mode: TargetMode,
+  minHits = 1
 ): boolean {
   if (rolls.length === 0) return false;
+  if (isSumMode(mode)) return matchesTarget(sumRolls(rolls), target, mode);
+  if (minHits > 1) return countHits(rolls, target, mode) >= minHits;
+  if (typeof target !== "number") return rolls.some((r) => matchesTarget(r, target, mode));
   switch (mode) {
     case "exact":
       return rolls.includes(target);
@@ -53,15 +149,25 @@ export function checkTarget(
  * For 'exact': the target value itself (if present).
  * For 'gte': the minimum qualifying roll (closest to the threshold).
  * For 'lte': the maximum qualifying roll (closest to the threshold).
+ * For a face set or range: the highest qualifying roll.
+ * For a sum mode: the total, when it matches.
  *
  * Returns undefined if no roll matches.
  */
 export function findTriggerValue(
   rolls: number[],
-  target: number,
-  mode: "exact" | "gte" | "lte"
+  target: DiceTarget,
+  mode: TargetMode
 ): number | undefined {
   if (rolls.length === 0) return undefined;
+  if (isSumMode(mode)) {
+    const total = sumRolls(rolls);
+    return matchesTarget(total, target, mode) ? total : undefined;
+  }
+  if (typeof target !== "number") {
+    const qualifying = rolls.filter((r) => matchesTarget(r, target, mode));
+    return qualifying.length > 0 ? Math.max(...qualifying) : undefined;
+  }
   switch (mode) {
     case "exact":
       return rolls.includes(target) ? target : undefined;
@@ -78,6 +184,16 @@ export function findTriggerValue(
   }
 }
 
+/** Modifiers that change a die's odds. All optional: the default is a plain uniform die. */
+export interface ProbabilityOptions {
+  /** Per-die face distribution (e.g. advantage's keep-highest die). Default uniform. */
+  face?: Distribution;
+  /** Extra rolls an exploding die may add (see explodeRerolls). Default 0. */
+  explodeDepth?: number;
+  /** Per-die modes: dice that must match to trigger. Default 1. */
+  minHits?: number;
+}
+
 /**
  * Calculate the probability of triggering as a percentage (0-100).
  *
@@ -91,30 +207,304 @@ export function findTriggerValue(
  * For 'lte' mode:
  *   P(single miss) = (dieSize - target) / dieSize
  *   P(at least one hit) = 1 - P(single miss)^count
+ *
+ * For a face set or range (any mode):
+ *   P(single miss) = (dieSize - matching faces on the die) / dieSize
+ *   P(at least one hit) = 1 - P(single miss)^count
+ *
+ * For a sum mode there is no closed form: the exact distribution of the total
+ * of `count` dice is built by convolution and the matching totals summed.
+ *
+ * `options` describe a non-plain die (see ProbabilityOptions). With any of them
+ * set, per-die modes convolve each die's hit-count distribution instead of using
+ * the closed forms above; for `minHits` K on plain dice that is the binomial
+ * tail P(X >= K), X ~ Binomial(count, p).
  */
 export function calculateProbability(
   count: number,
   dieSize: number,
-  target: number,
-  mode: "exact" | "gte" | "lte"
+  target: DiceTarget,
+  mode: TargetMode,
+  options: ProbabilityOptions = {}
 ): number {
   if (count <= 0 || dieSize <= 0) return 0;
+  const { face, explodeDepth = 0, minHits = 1 } = options;
+  if (isSumMode(mode)) {
+    const die = face ?? uniformDie(dieSize);
+    const perDie = explodeDepth > 0 ? explodingDistribution(die, dieSize, explodeDepth) : die;
+    return distributionProbability(sumDistribution(count, perDie), target, mode);
+  }
 
   let pMiss: number;
-  switch (mode) {
-    case "exact":
-      pMiss = (dieSize - 1) / dieSize;
-      break;
-    case "gte":
-      pMiss = (target - 1) / dieSize;
-      break;
-    case "lte":
-      pMiss = (dieSize - target) / dieSize;
-      break;
-    default:
-      return 0;
+  if (face || explodeDepth > 0 || minHits > 1) {
+    const hits = hitCountDistribution(face ?? uniformDie(dieSize), dieSize, explodeDepth, target, mode);
+    if (minHits > 1) return distributionProbability(sumDistribution(count, hits), minHits, "gte");
+    pMiss = hits.get(0) ?? 0;
+  } else if (typeof target !== "number") {
+    pMiss = (dieSize - targetFaces(target, dieSize).length) / dieSize;
+  } else {
+    switch (mode) {
+      case "exact":
+        pMiss = (dieSize - 1) / dieSize;
+        break;
+      case "gte":
+        pMiss = (target - 1) / dieSize;
+        break;
+      case "lte":
+        pMiss = (dieSize - target) / dieSize;
+        break;
+      default:
+        return 0;
+    }
   }
 
   const pAllMiss = Math.pow(pMiss, count);
   return Math.round((1 - pAllMiss) * 10000) / 100; // round to 2 decimal places
 }
+
+/** The distinct faces of a 1..dieSize die that a face set or range covers. */
+function targetFaces(target: number[] | { min: number; max: number }, dieSize: number): number[] {
+  const faces: number[] = [];
+  for (let face = 1; face <= dieSize; face++) {
+    if (matchesTarget(face, target, "exact")) faces.push(face);
+  }
+  return faces;
+}
+
+/**
+ * Parse a target from CLI / slash-command text: `20`, a face list `1,20`, or a
+ * closed range `12..14`. Returns null when the text is not a valid target.
+ */
+export function parseTarget(text: string): DiceTarget | null {
+  const s = text.trim();
+  const range = s.match(/^(-?\d+)\.\.(-?\d+)$/);
+  if (range) {
+    const min = Number(range[1]);
+    const max = Number(range[2]);
+    return min <= max ? { min, max } : null;
+  }
+  if (s.includes(",")) {
+    const faces = s.split(",").map((f) => f.trim());
+    if (faces.some((f) => !/^-?\d+$/.test(f))) return null;
+    return [...new Set(faces.map(Number))];
+  }
+  if (!/^-?\d+$/.test(s)) return null;
+  return Number(s);
+}
+
+/** `20!, 20!, 3, 7` — rolls joined for display, with exploded dice marked `!`. */
+export function formatRolls(rolls: number[], exploded: number[] = []): string {
+  return rolls.map((r, i) => (exploded.includes(i) ? `${r}!` : String(r))).join(", ");
+}
+
+/** Render a target the way `parseTarget` reads it (`20`, `1,20`, `12..14`). */
+export function formatTarget(target: DiceTarget): string {
+  if (Array.isArray(target)) return target.join(",");
+  if (typeof target === "object") return `${target.min}..${target.max}`;
+  return String(target);
+}
+
+/**
+ * Parse a custom face list: `-1,0,0,1` (numeric) or `refactor,test,docs`
+ * (labels — any non-integer entry makes every face a label). Null when empty.
+ */
+export function parseFaces(text: string): DiceFace[] | null {
+  const parts = text.split(",").map((f) => f.trim());
+  if (parts.length === 0 || parts.some((f) => f === "")) return null;
+  if (parts.every((f) => /^[+-]?\d+$/.test(f))) return parts.map(Number);
+  return parts;
+}
+
+/**
+ * Parse a target for a custom die. Label dice take face labels (`refactor,docs`),
+ * mapped to every position carrying them; numeric dice take parseTarget syntax.
+ */
+export function parseFaceTarget(text: string, faces: DiceFace[]): DiceTarget | null {
+  if (faces.every((f) => typeof f === "number")) return parseTarget(text);
+  const labels = text.split(",").map((l) => l.trim());
+  const positions: number[] = [];
+  for (const label of labels) {
+    const at = faces.flatMap((f, i) => (String(f) === label ? [i + 1] : []));
+    if (at.length === 0) return null;
+    positions.push(...at);
+  }
+  return [...new Set(positions)];
+}
+
+/**
+ * Validate a target against a custom die: exact faces (a number in 'exact' mode,
+ * or each member of a set) must exist on the die, and a range must cover one.
+ * Threshold and sum modes accept any value. Null when fine.
+ */
+export function faceTargetError(target: DiceTarget, faces: DiceFace[], mode: TargetMode): string | null {
+  const values = faceValues(faces);
+  if (isSumMode(mode)) return null;
+  if (Array.isArray(target)) {
+    if (target.length === 0) return "needs at least one face";
+    const missing = target.find((t) => !values.includes(t));
+    return missing === undefined ? null : `${missing} is not a face of this die`;
+  }
+  if (typeof target === "object") {
+    return values.some((v) => v >= target.min && v <= target.max) ? null : "range covers no face of this die";
+  }
+  if (mode !== "exact") return null;
+  return values.includes(target) ? null : `${target} is not a face of this die`;
+}
+
+/** Default target for a custom die: every label of a label die, else its highest face. */
+export function defaultFaceTarget(faces: DiceFace[]): DiceTarget {
+  const values = faceValues(faces);
+  return faces.some((f) => typeof f === "string") ? values : Math.max(...values);
+}
+
+/**
+ * Validate a target against a die size. Returns a short problem description, or
+ * null when every face the target names exists on the die. Pass no die size to
+ * skip the upper bound (sum modes, where totals run past any one face).
+ */
+export function targetError(target: DiceTarget, dieSize?: number): string | null {
+  const faces = Array.isArray(target) ? target : typeof target === "object" ? [target.min, target.max] : [target];
+  if (faces.length === 0) return "needs at least one face";
+  if (faces.some((f) => !Number.isInteger(f) || f < 1)) return "faces must be integers >= 1";
+  if (dieSize === undefined) return null;
+  const over = faces.find((f) => f > dieSize);
+  if (over !== undefined) return `${over} exceeds die size ${dieSize}`;
+  return null;
+}
+
+const SLOT_TYPES = ["accumulator", "fixed", "single", "expression", "deck", "scheduled"];
+const TARGET_MODES = ["exact", "gte", "lte", "sum-exact", "sum-gte", "sum-lte"];
+
+/**
+ * Validate what every register command checks the same way: the slot type, the
+ * target mode, the die size (a whole number >= 2; custom dice are sized by
+ * their faces), then the target against that die. Expression and sum-mode totals
+ * aren't faces of the die, so only per-die modes bound the target. Returns
+ * "<what>: <problem>" for the caller to prefix with "invalid", or null when fine.
+ */
+export function slotConfigError(config: {
+  type: string;
+  targetMode: string;
+  die: number;
+  target: DiceTarget;
+  faces?: DiceFace[];
+}): string | null {
+  const { type, targetMode, die, target, faces } = config;
+  if (!SLOT_TYPES.includes(type)) return `type "${type}": must be one of ${SLOT_TYPES.join("|")}`;
+  if (!TARGET_MODES.includes(targetMode)) return `target mode "${targetMode}": must be one of ${TARGET_MODES.join("|")}`;
+  if (!faces && (!Number.isInteger(die) || die < 2)) return `die size ${die}: must be a whole number >= 2`;
+  const problem = faces
+    ? faceTargetError(target, faces, targetMode as TargetMode)
+    : type === "expression"
+      ? null
+      : targetError(target, isSumMode(targetMode as TargetMode) ? undefined : die);
+  return problem ? `target ${formatTarget(target)}: ${problem}` : null;
+}
+
+// ============================================================================
+// Exact distributions
+//
+// A distribution maps an outcome (a face, a total) to its probability. These
+// back the convolution-based probability paths where no closed form exists.
+// ============================================================================
+
+/** Outcome → probability. Probabilities sum to 1 (up to float error). */
+export type Distribution = Map<number, number>;
+
+/** Uniform 1..dieSize face distribution. */
+export function uniformDie(dieSize: number): Distribution {
+  const dist: Distribution = new Map();
+  for (let face = 1; face <= dieSize; face++) dist.set(face, 1 / dieSize);
+  return dist;
+}
+
+/**
+ * Face distribution of one die rolled `n` times keeping the highest (advantage)
+ * or lowest (disadvantage): P(max = v) = (v/m)^n - ((v-1)/m)^n, mirrored for min.
+ */
+export function keptDieDistribution(dieSize: number, keep: "highest" | "lowest", n: number): Distribution {
+  const dist: Distribution = new Map();
+  for (let face = 1; face <= dieSize; face++) {
+    const atMost = (k: number) => Math.pow(k / dieSize, n);
+    const p = keep === "highest" ? atMost(face) - atMost(face - 1) : atMost(dieSize - face + 1) - atMost(dieSize - face);
+    dist.set(face, p);
+  }
+  return dist;
+}
+
+/**
+ * Distribution of one exploding die's chain total: a max face adds another
+ * uniform roll (itself exploding) while extra rolls remain.
+ */
+export function explodingDistribution(first: Distribution, dieSize: number, maxDepth: number): Distribution {
+  const rest = maxDepth > 0 ? explodingDistribution(uniformDie(dieSize), dieSize, maxDepth - 1) : null;
+  const out: Distribution = new Map();
+  for (const [face, p] of first) {
+    if (face === dieSize && rest) {
+      for (const [more, q] of rest) out.set(face + more, (out.get(face + more) ?? 0) + p * q);
+    } else {
+      out.set(face, (out.get(face) ?? 0) + p);
+    }
+  }
+  return out;
+}
+
+/**
+ * Distribution of how many rolls behind one die match the target: 0 or 1 for a
+ * plain die, more when a max face explodes into further (uniform) rolls.
+ */
+function hitCountDistribution(
+  first: Distribution,
+  dieSize: number,
+  maxDepth: number,
+  target: DiceTarget,
+  mode: TargetMode
+): Distribution {
+  const rest = maxDepth > 0 ? hitCountDistribution(uniformDie(dieSize), dieSize, maxDepth - 1, target, mode) : null;
+  const out: Distribution = new Map();
+  for (const [face, pf] of first) {
+    const hit = matchesTarget(face, target, mode) ? 1 : 0;
+    if (face === dieSize && rest) {
+      for (const [more, q] of rest) out.set(hit + more, (out.get(hit + more) ?? 0) + pf * q);
+    } else {
+      out.set(hit, (out.get(hit) ?? 0) + pf);
+    }
+  }
+  return out;
+}
+
+/** Distribution of one custom die: each face's value weighted (repeats add up). */
+export function faceDistribution(values: number[], weights?: number[]): Distribution {
+  const w = weights ?? values.map(() => 1);
+  const totalWeight = w.reduce((a, b) => a + b, 0);
+  const dist: Distribution = new Map();
+  values.forEach((v, i) => dist.set(v, (dist.get(v) ?? 0) + w[i] / totalWeight));
+  return dist;
+}
+
+/** Distribution of the sum of two independent outcomes. */
+export function convolve(a: Distribution, b: Distribution): Distribution {
+  const out: Distribution = new Map();
+  for (const [x, px] of a) {
+    for (const [y, py] of b) {
+      out.set(x + y, (out.get(x + y) ?? 0) + px * py);
+    }
+  }
+  return out;
+}
+
+/** Distribution of the sum of `count` independent draws from `die`. */
+export function sumDistribution(count: number, die: Distribution): Distribution {
+  let total: Distribution = new Map([[0, 1]]);
+  for (let i = 0; i < count; i++) total = convolve(total, die);
+  return total;
+}
+
+/** P(outcome matches target) as a percentage rounded to 2 decimal places. */
+export function distributionProbability(dist: Distribution, target: DiceTarget, mode: TargetMode): number {
+  let p = 0;
+  for (const [value, pv] of dist) {
+    if (matchesTarget(value, target, mode)) p += pv;
+  }
+  return Math.round(Math.min(1, p) * 10000) / 100;
+}
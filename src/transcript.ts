@@ -6,11 +6,13 @@
  * Provides:
  * - Transcript path resolution (session ID -> file path)
  * - Exchange counting (conversation depth)
+ * - The last turn, for slot conditions
  */
 
 import { existsSync, readdirSync, statSync } from "fs";
 import { join } from "path";
 import { getClaudeSessionId } from "./session";
+import type { LastTurn } from "./conditions";
 
 /**
  * Convert a directory path to Claude Code's project slug format.
@@ -100,3 +102,61 @@ export async function countExchanges(transcriptPath: string): Promise<number> {
     return 0;
   }
 }
+
+/** The file a tool call targets: `file_path` (Edit/Write), `notebook_path`, or `path`. */
+function toolPath(input: unknown): string | undefined {
+  if (!input || typeof input !== "object") return undefined;
+  const { file_path, notebook_path, path } = input as Record<string, unknown>;
+  const found = [file_path, notebook_path, path].find((p) => typeof p === "string");
+  return found as string | undefined;
+}
+
+/**
+ * Read the last turn of a transcript for slot conditions: everything after the
+ * last human message. The assistant text is that of the last assistant entry
+ * with text; tool calls are marked failed when their tool_result has is_error.
+ */
+export async function readLastTurn(transcriptPath: string): Promise<LastTurn> {
+  const empty: LastTurn = { assistantText: "", toolCalls: [] };
+  try {
+    const file = Bun.file(transcriptPath);
+    if (!(await file.exists())) return empty;
+
+    const entries: any[] = [];
+    for (const line of (await file.text()).trim().split("\n")) {
+      try {
+        if (line) entries.push(JSON.parse(line));
+      } catch {
+        // Skip malformed lines
+      }
+    }
+    let start = 0;
+    entries.forEach((entry, i) => {
+      if (entry.type === "user" && !entry.toolUseResult) start = i + 1;
+    });
+
+    let assistantText = "";
+    const calls = new Map<string, LastTurn["toolCalls"][number]>();
+    for (const entry of entries.slice(start)) {
+      const content = entry.message?.content;
+      if (!Array.isArray(content)) continue;
+      if (entry.type === "assistant") {
+        const text = content.filter((b) => b?.type === "text").map((b) => b.text).join("\n");
+        if (text) assistantText = text;
+        for (const block of content) {
+          if (block?.type !== "tool_use") continue;
+          const path = toolPath(block.input);
+          calls.set(block.id, { tool: String(block.name), failed: false, ...(path !== undefined ? { path } : {}) });
+        }
+      } else if (entry.type === "user") {
+        for (const block of content) {
+          const call = block?.type === "tool_result" && block.is_error ? calls.get(block.tool_use_id) : undefined;
+          if (call) call.failed = true;
+        }
+      }
+    }
+    return { assistantText, toolCalls: [...calls.values()] };
+  } catch {
+    return empty;
+  }
+}
@@ -4,24 +4,153 @@
  * All interfaces and types for the dice trigger system.
  */
 
+/**
+ * Trigger target: a single face, a set of faces (e.g. [1, 20] for "crit or
+ * fumble"), or a closed range of faces ({ min: 12, max: 14 }). Sets and ranges
+ * match by membership; targetMode only shapes single-number targets.
+ */
+export type DiceTarget = number | number[] | { min: number; max: number };
+
+/**
+ * How rolls are compared to the target. 'exact'/'gte'/'lte' ask whether any one
+ * die matches; the 'sum-*' modes compare the total of the whole pool instead.
+ */
+export type TargetMode = "exact" | "gte" | "lte" | "sum-exact" | "sum-gte" | "sum-lte";
+
+/**
+ * Advantage rolls each die `advantageDice` times (default 2) and keeps the
+ * highest; disadvantage keeps the lowest.
+ */
+export type Advantage = "none" | "advantage" | "disadvantage";
+
+/**
+ * One face of a custom die. Numeric faces roll their value (Fate dice:
+ * [-1, 0, 0, 1]); string faces roll their 1-based position and are labelled.
+ */
+export type DiceFace = number | string;
+
+/**
+ * Per-turn trigger chance as a function of depth since the last trigger, for
+ * accumulator slots. Percentages are 0-100; unset parameters take the shape's
+ * defaults (see curveValue in src/core/accumulator.ts).
+ */
+export interface ProbabilityCurve {
+  shape: "linear" | "exponential" | "logistic";
+  floor?: number;                        // lowest chance, and the value at depth 0 (default 0; exponential 1)
+  ceiling?: number;                      // highest chance (default 100)
+  slope?: number;                        // linear: points added per turn (default 1)
+  growth?: number;                       // exponential: multiplier per turn (default 1.1)
+  midpoint?: number;                     // logistic: depth at the halfway point (default 20)
+  steepness?: number;                    // logistic: how sharply it rises (default 0.25)
+}
+
+/**
+ * When a slot may trigger again: 'per-session' (once per session), 'none',
+ * 'turns:N' (silent for N depth units after a trigger), 'duration:30m' (silent
+ * for a wall-clock window; s/m/h/d units), or 'max:N' (at most N triggers per
+ * session). See src/core/cooldown.ts.
+ */
+export type CooldownSpec = "per-session" | "none" | `turns:${number}` | `duration:${string}` | `max:${number}`;
+
+/**
+ * What a slot's state and cooldown are shared across: one session (default),
+ * every session in the project directory, or every session anywhere. The
+ * adapter resolves each scope to a storage key.
+ */
+export type SlotScope = "session" | "project" | "global";
+
+/**
+ * What must have happened in the conversation's last turn (since the last user
+ * message) for a slot to roll; every field given must hold. The adapter checks
+ * it against its own transcript; see src/conditions.ts.
+ */
+export interface SlotCondition {
+  assistantMatches?: string;             // regex (case-insensitive) found in the last assistant message
+  toolFailed?: string;                   // a call to this tool came back as an error ('*' = any tool)
+  fileTouched?: string;                  // an edit/write tool call touched a path matching this glob
+}
+
+/**
+ * When and where a slot may roll; outside it the slot rolls 0 dice. Every
+ * field given must hold. The adapter resolves the clock and environment into
+ * an ActivationContext; see src/core/activation.ts.
+ */
+export interface ActivationWindow {
+  days?: string;                         // weekdays | weekends | daily | day names and ranges ("mon-fri", "sat,sun")
+  hours?: string;                        // local time range, end exclusive: "9-18", "09:30-22:00" ("22-6" wraps midnight)
+  skipCi?: boolean;                      // off when the CI environment variable is set
+  interactiveOnly?: boolean;             // off for non-interactive runs (claude -p, Pi without a UI)
+  termProgram?: string;                  // regex (case-insensitive) TERM_PROGRAM must match
+}
+
+/** The clock and environment of one check, as resolved by the adapter. */
+export interface ActivationContext {
+  weekday: number;                       // local day of the week, 0 = Sunday
+  minute: number;                        // local minutes since midnight
+  ci: boolean;
+  interactive: boolean;
+  termProgram?: string;
+}
+
 export interface DiceSlotConfig {
   name: string;                          // unique slot identifier
   die: number;                           // die size (20 for d20, 6 for d6, etc.)
-  target: number;                        // trigger value
-  targetMode: "exact" | "gte" | "lte";   // how to check (default 'exact')
+  target: DiceTarget;                    // trigger value, face set, or face range
+  targetMode: TargetMode;                // how to check (default 'exact')
 
   // Dice type
-  type: "accumulator" | "fixed" | "single";
+  type: "accumulator" | "fixed" | "single" | "expression" | "deck" | "scheduled";
 
   // Accumulator config
   accumulationRate: number;              // turns per +1 die (default 7)
   maxDice: number;                       // cap on dice (default: 100)
+  curve?: ProbabilityCurve;              // chance by depth instead of dice counting (one uniform draw per turn)
+  curveMarks?: number[];                 // percent levels status reports crossing depths for (default 25, 50, 75)
 
   // Fixed config
   fixedCount: number;                    // always roll N dice (default 1)
 
+  // Expression config
+  expression?: string;                   // dice notation, e.g. "2d6+1" or "4d6kh3" (type 'expression')
+
+  // Deck config (type 'deck': draw without replacement, reshuffle when empty)
+  deckSize?: number;                     // cards in the bag (default 20)
+  deckHits?: number;                     // hit cards among them (default 1)
+
+  // Schedule config (type 'scheduled': fires at fixed depths, no dice)
+  every?: number;                        // fire every N user messages
+  atDepths?: number[];                   // fire at each of these depths
+
+  // Custom die (replaces the uniform 1..die; `die` then holds the face count)
+  faces?: DiceFace[];                    // explicit face list
+  weights?: number[];                    // relative weight per face (default all equal)
+  faceMessages?: Record<string, string>; // per-face trigger message, keyed by face label
+
+  // Modifiers
+  advantage?: Advantage;                 // keep the best/worst of N rolls per die (default 'none')
+  advantageDice?: number;                // N for advantage/disadvantage (default 2)
+  explode?: boolean;                     // a max face rolls again (default false)
+  explodeDepth?: number;                 // cap on extra rolls per die (default 5)
+  minHits?: number;                      // per-die modes: dice that must match to trigger (default 1)
+
   // Behavior
-  cooldown: "per-session" | "none";      // default 'per-session'
+  guaranteeAfter?: number;               // accumulator/single: force a trigger after N depth units without one (pity timer)
+  cooldown: CooldownSpec;                // default 'per-session'
+  scope?: SlotScope;                     // default 'session'; project/global state and cooldowns outlive the session
+  group?: string;                        // exclusion group: at most one slot per group triggers per check
+  priority?: number;                     // default 0; within a group the highest priority wins (ties: registry order)
+  requires?: string[];                   // chain: dormant (0 dice) until every named slot has triggered in its scope
+  requiresWithin?: number;               // chain: ...and each within the last N depth units
+  when?: SlotCondition;                  // 0 dice unless the last turn matches
+  active?: ActivationWindow;             // 0 dice outside these days/hours/environments
+  pool?: string;                         // shared-roll pool name, or "independent"; default: every slot with the same die (see src/core/pool.ts)
+  veto?: boolean;                        // veto slot: its hit cancels every other trigger in the check (and is never shown to the agent)
+  refractory?: ProbabilityCurve;         // percent of normal odds by depth since the last trigger (softens instead of locking out)
+  enabled?: boolean;                     // default true; false = silenced until resumed (see src/core/pause.ts)
+  paused?: {                             // snoozed: silenced until a time, or for one session
+    until?: string;                      // ISO time the pause ends
+    session?: string;                    // the session it holds for
+  };
   clearOnSessionStart: boolean;          // default true
   resetOnTrigger: boolean;               // default true - auto-reset accumulator on trigger
 
@@ -32,9 +161,35 @@ export interface DiceSlotConfig {
   };
 }
 
+/** What is left of a deck slot's current shuffle. */
+export interface DeckState {
+  remaining: number;                     // cards not yet drawn
+  hits: number;                          // hit cards among them
+}
+
 export interface DiceState {
   depth_at_last_trigger: number;
   last_reset: string;                    // ISO timestamp
+  deck?: DeckState;                      // deck slots: the current shuffle (absent = fresh deck)
+  carry?: {                              // project/global slots: maps session depth onto a depth continuous across sessions
+    depth: number;                       // continuous depth: turns counted across every session
+    last_depth: Record<string, number>;  // last session depth read, per session (most recent last)
+  };
+  triggers?: {                           // slots another slot requires: trigger history (see src/core/chain.ts)
+    count: number;                       // triggers so far
+    last_at: string;                     // ISO timestamp of the last one
+    last_depth?: number;                 // its depth, recorded when a dependent uses requiresWithin
+  };
+}
+
+/**
+ * A slot's cooldown marker for one session. Legacy markers hold only the ISO
+ * timestamp; they read as one trigger at an unknown depth.
+ */
+export interface CooldownMarker {
+  triggeredAt: string;                   // ISO timestamp of the last trigger
+  depth?: number;                        // depth at the last trigger (recorded for turns/refractory)
+  count: number;                         // triggers this session
 }
 
 export interface CheckContext {
@@ -42,16 +197,50 @@ export interface CheckContext {
   sessionId?: string;
 }
 
+/**
+ * Why a slot was passed over before rolling: paused or disabled, cooling down,
+ * a chain not yet armed, a `when` condition unmet, or outside its activation
+ * window.
+ */
+export type SkipReason = "paused" | "cooldown" | "dormant" | "condition" | "inactive";
+
 export interface DiceResult {
   triggered: boolean;
   rolls: number[];
   best: number;
   triggerValue?: number;                 // the specific roll that matched the target
+  total?: number;                        // expression slots and sum modes: the evaluated total
+  dropped?: number[];                    // expression slots: indices into rolls discarded by keep/drop
+  advantageRolls?: number[][];           // advantage slots: every roll behind each kept die (one set per die, extras excluded)
+  exploded?: number[];                   // exploding slots: indices into rolls of max faces that rolled again
+  hits?: number;                         // slots with minHits: how many rolls matched the target
+  face?: string;                         // custom dice: label of the face that triggered
+  labels?: string[];                     // string-face dice: label of each roll in rolls
+  deck?: DeckState;                      // deck slots: the deck left after this draw
+  percentile?: number;                   // curve slots: the uniform 0-100 draw; triggers when below probability
+  refractory?: number;                   // refractory slots: percent of normal odds allowed this turn (probability is already scaled)
+  forced?: "pity" | "scheduled";         // set when the trigger was not rolled: a due pity timer, or a scheduled depth
+  suppressedBy?: string;                 // a hit dropped because this higher-priority slot in its group triggered
+  vetoedBy?: string;                     // a hit cancelled by this veto slot
+  vetoed?: string[];                     // veto slots: the hits this veto cancelled
+  skipped?: SkipReason;                  // why the slot rolled nothing this check (gated before any dice)
   diceCount: number;
   probability: number;                   // chance as 0-100
   slotName: string;
 }
 
+/** One slot's outcome in one check, as kept in the roll history (DiceHost.appendHistory). */
+export interface RollRecord {
+  at: string;                            // ISO time of the check
+  depth?: number;                        // session depth at the check, when the check read it
+  slot: string;
+  diceCount: number;
+  rolls: number[];
+  probability: number;                   // chance as 0-100
+  triggered: boolean;
+  reason?: string;                       // `vetoed by x`, `suppressed by y`, a SkipReason, or `pity`/`scheduled` for forced triggers
+}
+
 export interface SlotStatus {
   name: string;
   type: string;
@@ -60,5 +249,42 @@ export interface SlotStatus {
   depthSinceTrigger: number;
   probability: number;
   nextDiceAt: number;
+  expression?: string;                   // expression slots: the normalized notation
+  minHits?: number;                      // slots with minHits: dice that must match to trigger
+  deck?: DeckState;                      // deck slots: the deck the next draw comes from
+  cooldown?: {                           // slots that have triggered this session under a cooldown or refractory curve
+    active: boolean;                     // the slot is silenced this turn
+    triggers: number;                    // triggers counted this session
+    untilDepth?: number;                 // turns mode: first depth the slot may trigger again
+    until?: string;                      // duration mode: ISO time the slot may trigger again
+  };
+  refractory?: {                         // refractory slots: percent of normal odds now, and the depth they are back to full
+    percent: number;
+    fullAt: number | null;
+  };
+  guaranteeAt?: number;                  // slots with guaranteeAfter: depth at which the next check is forced to trigger
+  scope?: SlotScope;                     // project/global slots (depths are then continuous across sessions)
+  group?: { name: string; priority: number }; // slots in an exclusion group
+  veto?: boolean;                        // veto slots
+  paused?: {                             // silenced right now: off until resumed, or snoozed (0%)
+    disabled?: true;
+    until?: string;
+    session?: string;
+  };
+  condition?: { met: boolean };          // slots with when: whether the last turn matches (0% when not)
+  active?: { open: boolean };            // slots with an activation window: whether it is open now (0% when not)
+  chain?: {                              // slots with requires: armed, or dormant until the listed prerequisites trigger
+    armed: boolean;
+    waitingOn: string[];
+    until?: number;                      // requiresWithin: depth after which the earliest prerequisite trigger lapses
+  };
+  schedule?: {                           // scheduled slots: the formatted schedule and its next depth (null = run out)
+    spec: string;
+    nextAt: number | null;
+  };
+  curve?: {                              // curve slots: the formatted spec, and depths where it crosses each mark
+    spec: string;
+    crossings: Array<{ percent: number; depth: number | null }>;
+  };
   sessionId?: string;
 }
@@ -0,0 +1,72 @@
+/**
+ * Activation window conformance: days, hours, CI, interactivity and
+ * TERM_PROGRAM gate a slot against an ActivationContext the adapter resolves
+ * from the clock and environment (the engine reads neither). Outside its
+ * window a slot gets 0 dice and draws no RNG; without a context it stays shut.
+ */
+
+import { type Check, assertEqual } from "./harness";
+import { coreCtx, makeMemoryHost, slot } from "./fixtures";
+import { activationContext, activationError, formatActivation, parseDays, parseHours, windowOpen } from "../../src/core/activation";
+import { claudeInteractive, resolveCoreContext } from "../../src/adapters/claude-code";
+import { checkAllSlots, getSlotStatus } from "../../src/core/engine";
+import type { ActivationContext } from "../../src/types";
+
+/** Wednesday 10:30, interactive, not CI, in VS Code. */
+const WED: ActivationContext = { weekday: 3, minute: 10 * 60 + 30, ci: false, interactive: true, termProgram: "vscode" };
+
+export const checks: Check[] = [
+  {
+    name: "activation: days and hours parse, wrap, and reject junk",
+    fn: () => {
+      assertEqual([...parseDays("weekdays")!], [1, 2, 3, 4, 5], "weekdays");
+      assertEqual([...parseDays("fri-mon")!].sort(), [0, 1, 5, 6], "range wraps the weekend");
+      assertEqual([...parseDays("Sat, sunday")!], [6, 0], "names and abbreviations");
+      assertEqual([parseDays("mon-"), parseDays("funday"), parseDays("")], [null, null, null], "junk");
+      assertEqual([parseHours("9-18"), parseHours("22:30-6")], [{ from: 540, to: 1080 }, { from: 1350, to: 360 }], "hours");
+      assertEqual([parseHours("9"), parseHours("9-9"), parseHours("25-3"), parseHours("9:75-10")], [null, null, null, null], "bad hours");
+      assertEqual(activationError({}), "needs days, hours, skipCi, interactiveOnly, or termProgram", "empty");
+      assertEqual(activationError({ hours: "9-" }), `hours "9-" is not a time range like 9-18 or 09:30-22:00`, "bad hours message");
+      assertEqual(activationError({ days: "mon-fri", hours: "0-22", skipCi: true }), null, "valid");
+      assertEqual(formatActivation({ days: "weekdays", hours: "9-18", skipCi: true, interactiveOnly: true }), "weekdays 9-18, not in CI, interactive only", "format");
+    },
+  },
+  {
+    name: "activation: every field given must hold",
+    fn: () => {
+      assertEqual([windowOpen({ days: "weekdays", hours: "9-18" }, WED), windowOpen({ days: "weekends" }, WED)], [true, false], "days");
+      assertEqual([windowOpen({ hours: "0-22" }, { ...WED, minute: 22 * 60 }), windowOpen({ hours: "22-6" }, { ...WED, minute: 60 })], [false, true], "end exclusive, wraps");
+      assertEqual([windowOpen({ skipCi: true }, WED), windowOpen({ skipCi: true }, { ...WED, ci: true })], [true, false], "CI");
+      assertEqual(windowOpen({ interactiveOnly: true }, { ...WED, interactive: false }), false, "claude -p");
+      assertEqual([windowOpen({ termProgram: "^VSCode$" }, WED), windowOpen({ termProgram: "iterm" }, WED)], [true, false], "TERM_PROGRAM");
+      assertEqual([windowOpen({ days: "weekdays" }, undefined), windowOpen({ hours: "junk" }, WED)], [false, false], "no context or malformed: shut");
+    },
+  },
+  {
+    name: "activation: the adapters resolve the clock and environment",
+    fn: () => {
+      const at = new Date(2026, 0, 3, 21, 5); // a Saturday, local time
+      assertEqual(activationContext(at, { CI: "true", TERM_PROGRAM: "iTerm.app" }, false), { weekday: 6, minute: 21 * 60 + 5, ci: true, interactive: false, termProgram: "iTerm.app" }, "resolved");
+      assertEqual([activationContext(at, { CI: "false" }, true).ci, activationContext(at, { CI: "0" }, true).ci, activationContext(at, {}, true).ci], [false, false, false], "CI unset");
+      assertEqual([claudeInteractive({}), claudeInteractive({ CLAUDE_CODE_ENTRYPOINT: "cli" }), claudeInteractive({ CLAUDE_CODE_ENTRYPOINT: "sdk-cli" })], [true, true, false], "claude -p");
+      assertEqual(typeof resolveCoreContext({ sessionId: "s" }).activation?.weekday, "number", "claude context carries it");
+    },
+  },
+  {
+    name: "activation: outside the window a slot gets 0 dice and draws no RNG; status reports it",
+    fn: async () => {
+      let calls = 0;
+      const config = slot({ name: "w", type: "fixed", fixedCount: 2, cooldown: "none", active: { days: "weekdays", hours: "9-18" } });
+      const host = makeMemoryHost([config], { rng: () => (calls++, 0.5) });
+      const at = (activation: ActivationContext) => ({ ...coreCtx("s"), activation });
+      const [evening] = await checkAllSlots(host, at({ ...WED, minute: 19 * 60 }));
+      assertEqual([evening.diceCount, calls], [0, 0], "shut: no dice, no RNG");
+      assertEqual((await checkAllSlots(host, coreCtx("s")))[0].diceCount, 0, "no context: shut");
+      assertEqual((await checkAllSlots(host, at(WED)))[0].diceCount, 2, "open: rolls");
+
+      const shut = await getSlotStatus(host, "w", at({ ...WED, weekday: 0 }));
+      assertEqual([shut?.active, shut?.probability], [{ open: false }, 0], "status: shut, 0%");
+      assertEqual((await getSlotStatus(host, "w", at(WED)))?.active, { open: true }, "status: open");
+    },
+  },
+];
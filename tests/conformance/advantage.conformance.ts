@@ -0,0 +1,86 @@
+/**
+ * Advantage/disadvantage conformance: the kept-die face distribution, odds, and
+ * how an advantage slot observes a shared pool without disturbing its neighbours.
+ */
+
+import { type Check, assert, assertEqual } from "./harness";
+import { coreCtx, makeMemoryHost, makeRng, slot } from "./fixtures";
+import { calculateProbability, keptDieDistribution, rollDice } from "../../src/roll";
+import { checkAllSlots, previewSlot } from "../../src/core/engine";
+
+/** Brute-force P(kept face = v) for n rolls of a dN, by enumerating every outcome. */
+function bruteKept(die: number, n: number, highest: boolean): Map<number, number> {
+  const dist = new Map<number, number>();
+  const total = Math.pow(die, n);
+  for (let i = 0; i < total; i++) {
+    const faces: number[] = [];
+    let x = i;
+    for (let d = 0; d < n; d++) {
+      faces.push((x % die) + 1);
+      x = Math.floor(x / die);
+    }
+    const kept = highest ? Math.max(...faces) : Math.min(...faces);
+    dist.set(kept, (dist.get(kept) ?? 0) + 1 / total);
+  }
+  return dist;
+}
+
+export const checks: Check[] = [
+  {
+    name: "advantage: kept-die distribution matches brute force",
+    fn: () => {
+      for (const [die, n, highest] of [[20, 2, true], [6, 3, false], [8, 4, true]] as Array<[number, number, boolean]>) {
+        const actual = keptDieDistribution(die, highest ? "highest" : "lowest", n);
+        const expected = bruteKept(die, n, highest);
+        for (let face = 1; face <= die; face++) {
+          const diff = Math.abs((actual.get(face) ?? 0) - (expected.get(face) ?? 0));
+          assert(diff < 1e-12, `d${die} x${n} ${highest ? "highest" : "lowest"}: P(${face}) differs`);
+        }
+      }
+    },
+  },
+  {
+    name: "advantage: probability reflects the kept die in every mode",
+    fn: () => {
+      const adv = keptDieDistribution(20, "highest", 2);
+      const dis = keptDieDistribution(20, "lowest", 2);
+      assertEqual(calculateProbability(1, 20, 20, "exact", { face: adv }), 9.75, "nat 20 with advantage: 1 - (19/20)^2");
+      assertEqual(calculateProbability(1, 20, 20, "exact", { face: dis }), 0.25, "nat 20 with disadvantage: (1/20)^2");
+      assertEqual(calculateProbability(1, 20, 15, "gte", { face: adv }), 51, ">= 15 with advantage: 1 - (14/20)^2");
+      assertEqual(calculateProbability(2, 20, [1, 20], "exact", { face: adv }), 19, "P(kept in {1, 20}) = 40/400, so 1 - 0.9^2");
+      assert(
+        calculateProbability(2, 6, 10, "sum-gte", { face: keptDieDistribution(6, "highest", 2) }) > calculateProbability(2, 6, 10, "sum-gte"),
+        "advantage raises sum-gte odds"
+      );
+    },
+  },
+  {
+    name: "advantage: each die keeps the best (worst) of N rolls; N RNG draws per die",
+    fn: () => {
+      const adv = previewSlot(slot({ name: "a", type: "fixed", fixedCount: 3, advantage: "advantage", advantageDice: 3 }), 3, makeRng(9));
+      assertEqual(adv.rolls, adv.advantageRolls!.map((set) => Math.max(...set)), "kept = highest of each set");
+      assertEqual(adv.advantageRolls!.flat(), rollDice(9, 20, makeRng(9)), "3 dice x 3 rolls, drawn in order");
+      const dis = previewSlot(slot({ name: "d", type: "single", advantage: "disadvantage" }), 1, makeRng(9));
+      assertEqual(dis.rolls, [Math.min(...dis.advantageRolls![0])], "disadvantage keeps the lowest");
+      const plain = previewSlot(slot({ name: "p", type: "single" }), 1, makeRng(9));
+      assertEqual(plain.advantageRolls, undefined, "plain slots report no advantage rolls");
+    },
+  },
+  {
+    name: "advantage: shared base is the first roll of the slot's first die; earlier slots are unaffected",
+    fn: async () => {
+      const pool = [
+        slot({ name: "plain", type: "single", die: 20, target: 20, cooldown: "none" }),
+        slot({ name: "fix", type: "fixed", die: 20, fixedCount: 2, target: 20, cooldown: "none" }),
+      ];
+      const adv = slot({ name: "adv", type: "fixed", die: 20, fixedCount: 2, target: 20, advantage: "advantage", cooldown: "none" });
+      const without = await checkAllSlots(makeMemoryHost(pool, { rng: makeRng(777) }), coreCtx("s"));
+      const withAdv = await checkAllSlots(makeMemoryHost([...pool, adv], { rng: makeRng(777) }), coreCtx("s"));
+      assertEqual(withAdv.slice(0, 2), without, "slots rolled before the advantage slot are unchanged");
+      const a = withAdv[2];
+      assertEqual(a.advantageRolls?.[0][0], without[0].rolls[0], "advantage observes the shared base");
+      assertEqual(a.advantageRolls?.map((set) => set.length), [2, 2], "two rolls behind each kept die");
+      assertEqual(a.probability, calculateProbability(2, 20, 20, "exact", { face: keptDieDistribution(20, "highest", 2) }), "odds use the kept die");
+    },
+  },
+];
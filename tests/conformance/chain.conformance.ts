@@ -0,0 +1,100 @@
+/**
+ * Chain conformance: a slot with `requires` stays dormant (no dice, no RNG)
+ * until each prerequisite has triggered in the prerequisite's own scope,
+ * optionally within N depth units; prerequisites keep their trigger history
+ * across resets, and status reports armed or dormant.
+ */
+
+import { type Check, assertEqual } from "./harness";
+import { coreCtx, makeMemoryHost, slot } from "./fixtures";
+import { chainStatus, chainError, prerequisitesOf, nextTriggers } from "../../src/core/chain";
+import { checkAllSlots, getSlotStatus, resetSlot } from "../../src/core/engine";
+
+/** An RNG that counts its calls. */
+function counted(): { rng: () => number; calls: () => number } {
+  let n = 0;
+  return { rng: () => (n++, 0.5), calls: () => n };
+}
+
+const at = "2026-01-01T00:00:00.000Z";
+
+export const checks: Check[] = [
+  {
+    name: "chain: armed once every prerequisite has triggered, within the window when one is set",
+    fn: () => {
+      const fired = { count: 1, last_at: at, last_depth: 10 };
+      assertEqual(chainStatus(undefined, [{ name: "a" }, { name: "b", triggers: fired }]), { armed: false, waitingOn: ["a"] }, "a never fired");
+      assertEqual(chainStatus(undefined, [{ name: "b", triggers: fired }]), { armed: true, waitingOn: [] }, "armed");
+      assertEqual(chainStatus(5, [{ name: "b", triggers: fired, currentDepth: 15 }]), { armed: true, waitingOn: [], until: 15 }, "5 back: still armed");
+      assertEqual(chainStatus(5, [{ name: "b", triggers: fired, currentDepth: 16 }]).waitingOn, ["b"], "6 back: lapsed");
+      assertEqual(chainStatus(5, [{ name: "b", triggers: { count: 1, last_at: at }, currentDepth: 0 }]).armed, false, "no recorded depth: dormant");
+
+      const slots = [slot({ name: "x", requires: ["a"] }), slot({ name: "y", requires: ["a", "b"], requiresWithin: 3 })];
+      assertEqual([...prerequisitesOf(slots)], [["a", "depth"], ["b", "depth"]], "requiresWithin needs the depth");
+      assertEqual(nextTriggers(fired, "later"), { count: 2, last_at: "later" }, "history counts up");
+    },
+  },
+  {
+    name: "chain: validation",
+    fn: () => {
+      assertEqual(chainError({ name: "x", requires: ["a"], requiresWithin: 3 }), null, "valid");
+      assertEqual(chainError({ name: "x", requires: ["x"] }), "a slot cannot require itself", "self");
+      assertEqual(chainError({ name: "x", requires: [] }), "requires needs at least one slot", "empty");
+      assertEqual(chainError({ name: "x", requiresWithin: 3 }), "requiresWithin needs requires", "within alone");
+      assertEqual(chainError({ name: "x", requires: ["a"], requiresWithin: 0.5 }), "requiresWithin must be an integer >= 1", "fractional");
+    },
+  },
+  {
+    name: "chain: a dormant slot rolls nothing until its prerequisite triggers, then arms on the next check",
+    fn: async () => {
+      const a = slot({ name: "a", type: "single", die: 1, target: 1, cooldown: "none" });
+      const b = slot({ name: "b", type: "fixed", die: 6, target: 6, fixedCount: 3, cooldown: "none", requires: ["a"] });
+      const r = counted();
+      const host = makeMemoryHost([b, a], { rng: r.rng });
+      const [dormant] = await checkAllSlots(host, coreCtx("s"));
+      assertEqual([dormant.diceCount, dormant.rolls], [0, []], "first check: b dormant");
+      assertEqual(r.calls(), 1, "only a's die was rolled");
+      assertEqual((await host.loadState("a", "s")).triggers?.count, 1, "a's trigger recorded");
+
+      const [armed] = await checkAllSlots(host, coreCtx("s"));
+      assertEqual(armed.diceCount, 3, "second check: b rolls");
+      assertEqual(host._state.has("b::s"), false, "the dependent keeps no history of its own");
+    },
+  },
+  {
+    name: "chain: requiresWithin lapses; trigger history survives the prerequisite's reset",
+    fn: async () => {
+      const a = slot({ name: "a", die: 1, target: 1, accumulationRate: 1 });
+      const b = slot({ name: "b", type: "single", die: 1, target: 1, cooldown: "none", requires: ["a"], requiresWithin: 3 });
+      const host = makeMemoryHost([a, b]);
+      const fired = await checkAllSlots(host, coreCtx("s", 10));
+      assertEqual(["a", "b"].map((n) => fired.find((r) => r.slotName === n)?.triggered), [true, false], "a fires at 10");
+      const state = await host.loadState("a", "s");
+      assertEqual([state.depth_at_last_trigger, state.triggers?.last_depth], [10, 10], "reset and history together");
+      const b13 = (await checkAllSlots(host, coreCtx("s", 13))).find((r) => r.slotName === "b");
+      assertEqual(b13?.triggered, true, "3 turns on: armed");
+      const b14 = (await checkAllSlots(host, coreCtx("s", 14))).find((r) => r.slotName === "b");
+      assertEqual(b14?.diceCount, 0, "4 turns on: dormant again");
+
+      await resetSlot(host, "a", coreCtx("s", 14));
+      assertEqual((await host.loadState("a", "s")).triggers?.count, 1, "manual reset keeps the history");
+    },
+  },
+  {
+    name: "chain: prerequisites are read in their own scope; status shows armed or dormant",
+    fn: async () => {
+      const scoped = (session: string, depth?: number) => ({ ...coreCtx(session, depth), scopeKeys: { global: "global" } });
+      const a = slot({ name: "a", type: "single", die: 1, target: 1, scope: "global", cooldown: "none" });
+      const b = slot({ name: "b", type: "single", die: 1, target: 1, cooldown: "none", requires: ["a", "gone"] });
+      const c = slot({ name: "c", type: "single", die: 1, target: 1, cooldown: "none", requires: ["a"], requiresWithin: 5 });
+      const host = makeMemoryHost([a, b, c]);
+
+      const before = await getSlotStatus(host, "c", scoped("A", 2));
+      assertEqual([before?.chain, before?.probability], [{ armed: false, waitingOn: ["a"] }, 0], "dormant: 0%");
+      await checkAllSlots(host, scoped("A", 2));
+      const after = await getSlotStatus(host, "c", scoped("B", 1));
+      assertEqual([after?.chain, after?.probability], [{ armed: true, waitingOn: [], until: 7 }, 100], "armed in session B until continuous depth 7");
+      assertEqual((await getSlotStatus(host, "b", scoped("B")))?.chain, { armed: false, waitingOn: ["gone"] }, "an unregistered prerequisite never arms");
+    },
+  },
+];
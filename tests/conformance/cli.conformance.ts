@@ -63,6 +63,51 @@ export const checks: Check[] = [
       assert(f.code === 0 && f.stdout.includes("Registered: fix (fixed, d6, target=6 gte)"), `register fixed: ${f.stdout}${f.stderr}`);
     },
   },
+  {
+    name: "CLI: register accepts face-set and range targets; rejects malformed ones",
+    fn: async () => {
+      const env = freshEnv();
+      const set = await reg(env, "edge", "--type", "single", "--target", "1,20");
+      assert(set.code === 0 && set.stdout.includes("Registered: edge (single, d20, target=1,20 exact)"), `face set: ${set.stdout}${set.stderr}`);
+      const range = await reg(env, "mid", "--type", "single", "--target", "12..14");
+      assert(range.code === 0 && range.stdout.includes("target=12..14"), `range: ${range.stdout}${range.stderr}`);
+      const list = await cli(["list"], env);
+      assert(list.stdout.includes("edge (single, 20-sided, target=1,20 exact, pool d20 with mid)"), `list shows the face set: ${list.stdout}`);
+      const bad = await reg(env, "bad", "--target", "a,b");
+      assert(bad.code === 1 && bad.stderr.includes("--target must be"), `malformed target rejected: ${bad.stderr}`);
+      const over = await reg(env, "over", "--die", "20", "--target", "1,25");
+      assert(over.code === 1 && over.stderr.includes("25 exceeds die size 20"), `face past the die rejected: ${over.stderr}`);
+      const zero = await reg(env, "zero", "--target", "0..30");
+      assert(zero.code === 1 && zero.stderr.includes("integers >= 1"), `range from 0 rejected: ${zero.stderr}`);
+      const sum = await reg(env, "sum", "--type", "fixed", "--fixed-count", "3", "--target", "40", "--target-mode", "sum-gte");
+      assert(sum.code === 0, `sum targets run past one face: ${sum.stderr}`);
+      const mode = await reg(env, "mode", "--target-mode", "most");
+      assert(mode.code === 1 && mode.stderr.includes('invalid target mode "most"'), `unknown mode rejected: ${mode.stderr}`);
+      const type = await reg(env, "kind", "--type", "dice");
+      assert(type.code === 1 && type.stderr.includes('invalid type "dice"'), `unknown type rejected: ${type.stderr}`);
+      for (const [size, shown] of [["0", "0"], ["-3", "-3"], ["abc", "NaN"], ["1", "1"], ["2.5", "2.5"]]) {
+        const die = await reg(env, "sides", "--die", size, "--target", "1");
+        assert(die.code === 1 && die.stderr.includes(`invalid die size ${shown}: must be a whole number >= 2`), `--die ${size} rejected: ${die.stderr}`);
+      }
+      assert(!(await cli(["list"], env)).stdout.match(/over|zero|mode|kind|sides/), "nothing invalid registered");
+    },
+  },
+  {
+    name: "CLI: expression slots register, report exact odds, and dry-run the notation",
+    fn: async () => {
+      const env = freshEnv();
+      const r = await reg(env, "stat", "--type", "expression", "--expression", "4d6kh3", "--target", "18");
+      assert(r.code === 0 && r.stdout.includes("Registered: stat (expression, 4d6kh3, target=18 exact)"), `register: ${r.stdout}${r.stderr}`);
+      const status = await cli(["status", "stat"], env);
+      assert(status.stdout.includes("Expression:      4d6kh3") && status.stdout.includes("Probability:     1.62%"), `status: ${status.stdout}`);
+      const roll = await cli(["roll", "stat"], env);
+      assert(/stat: 4d6kh3 = \[[\d, ()]+\] → \d+ \(1\.62%\)/.test(roll.stdout), `roll: ${roll.stdout}`);
+      const missing = await reg(env, "bare", "--type", "expression");
+      assert(missing.code === 1 && missing.stderr.includes("--expression required"), `missing notation: ${missing.stderr}`);
+      const bad = await reg(env, "bad", "--type", "expression", "--expression", "4d6kh9");
+      assert(bad.code === 1 && bad.stderr.includes("Invalid dice expression"), `bad notation: ${bad.stderr}`);
+    },
+  },
   {
     name: "CLI: list shows all registered slots",
     fn: async () => {
@@ -82,7 +127,7 @@ export const checks: Check[] = [
       const env = freshEnv();
       await reg(env, "acc", "--type", "accumulator", "--accumulation-rate", "7");
       await reg(env, "sng", "--type", "single");
-      await reg(env, "fix", "--type", "fixed", "--die", "6", "--fixed-count", "3");
+      await reg(env, "fix", "--type", "fixed", "--die", "6", "--target", "6", "--fixed-count", "3");
       const a = await cli(["status", "acc"], env);
       assert(a.code === 0 && a.stdout.includes("Dice count:      0") && a.stdout.includes("Next die at:     depth 7"), `acc status: ${a.stdout}`);
       const s = await cli(["status", "sng"], env);
@@ -97,7 +142,7 @@ export const checks: Check[] = [
       const env = freshEnv();
       await reg(env, "acc", "--type", "accumulator");
       await reg(env, "sng", "--type", "single", "--die", "20");
-      await reg(env, "fix", "--type", "fixed", "--die", "6", "--fixed-count", "3");
+      await reg(env, "fix", "--type", "fixed", "--die", "6", "--target", "6", "--fixed-count", "3");
       const a = await cli(["roll", "acc"], env);
       assert(a.code === 0 && a.stdout.includes("acc: 0 dice (no roll)"), `roll acc (0 dice): ${a.stdout}`);
       const s = await cli(["roll", "sng"], env);
@@ -123,7 +168,7 @@ export const checks: Check[] = [
     name: "CLI: every per-slot command errors on a missing slot (exit 1 + 'Slot not found')",
     fn: async () => {
       const env = freshEnv();
-      for (const cmd of ["status", "roll", "reset", "clear", "unregister"]) {
+      for (const cmd of ["status", "roll", "reset", "clear", "unregister", "pause", "resume"]) {
         const r = await cli([cmd, "ghost"], env);
         assert(r.code === 1, `\`${cmd} ghost\` exits 1 (got ${r.code})`);
         assert(r.stderr.includes("Slot not found: ghost"), `\`${cmd} ghost\` says Slot not found (got: ${r.stderr || r.stdout})`);
@@ -134,7 +179,7 @@ export const checks: Check[] = [
     name: "CLI: missing name and unknown command → exit 1",
     fn: async () => {
       const env = freshEnv();
-      for (const cmd of ["register", "status", "roll", "reset", "clear", "unregister"]) {
+      for (const cmd of ["register", "status", "roll", "reset", "clear", "unregister", "pause", "resume"]) {
         const r = await cli([cmd], env);
         assert(r.code === 1, `\`${cmd}\` with no name exits 1 (got ${r.code})`);
         assert(r.stderr.includes("slot name required"), `\`${cmd}\` reports missing name (got: ${r.stderr})`);
@@ -0,0 +1,132 @@
+/**
+ * Condition conformance: `when` conditions (assistant regex, failed tool, edited
+ * file glob) evaluated in the adapter layer against the last turn — the Claude
+ * JSONL transcript and Pi session entries read the same — and the engine's gate
+ * that gives an unmatched slot 0 dice without drawing RNG.
+ */
+
+import { writeFileSync } from "fs";
+import { join } from "path";
+import { type Check, assertEqual, withTempBase } from "./harness";
+import { coreCtx, makeMemoryHost, slot } from "./fixtures";
+import { type LastTurn, conditionMet, conditionError, formatCondition, globToRegExp } from "../../src/conditions";
+import { readLastTurn } from "../../src/transcript";
+import { resolveCoreContext } from "../../src/adapters/claude-code";
+import { lastTurn } from "../../src/adapters/pi/turn";
+import { checkAllSlots, getSlotStatus } from "../../src/core/engine";
+import type { SlotCondition } from "../../src/types";
+
+const TURN: LastTurn = {
+  assistantText: "Done. All tests pass now.",
+  toolCalls: [
+    { tool: "Bash", failed: true },
+    { tool: "Edit", failed: false, path: "/repo/src/roll.test.ts" },
+    { tool: "Read", failed: false, path: "/repo/src/deck.ts" },
+  ],
+};
+
+/** A Claude transcript: an earlier turn (ignored), then the last one. */
+const JSONL = [
+  { type: "user", message: { role: "user", content: "first" } },
+  { type: "assistant", message: { content: [{ type: "tool_use", id: "old", name: "Write", input: { file_path: "/repo/old.ts" } }] } },
+  { type: "user", message: { role: "user", content: "fix the tests" } },
+  { type: "assistant", message: { content: [{ type: "tool_use", id: "t1", name: "Bash", input: { command: "bun test" } }] } },
+  { type: "user", toolUseResult: "Error: exit 1", message: { content: [{ type: "tool_result", tool_use_id: "t1", is_error: true }] } },
+  { type: "assistant", message: { content: [{ type: "tool_use", id: "t2", name: "Edit", input: { file_path: "/repo/src/roll.test.ts" } }] } },
+  { type: "user", toolUseResult: {}, message: { content: [{ type: "tool_result", tool_use_id: "t2" }] } },
+  { type: "assistant", message: { content: [{ type: "text", text: "Done. All tests pass now." }] } },
+];
+
+/** The same conversation as Pi session entries. */
+const PI_ENTRIES = [
+  { type: "message", message: { role: "user", content: "first" } },
+  { type: "message", message: { role: "assistant", content: [{ type: "toolCall", id: "old", name: "write", arguments: { path: "/repo/old.ts" } }] } },
+  { type: "message", message: { role: "user", content: "fix the tests" } },
+  { type: "message", message: { role: "assistant", content: [{ type: "toolCall", id: "t1", name: "bash", arguments: { command: "bun test" } }] } },
+  { type: "message", message: { role: "toolResult", toolCallId: "t1", toolName: "bash", content: [], isError: true } },
+  { type: "message", message: { role: "assistant", content: [{ type: "toolCall", id: "t2", name: "edit", arguments: { path: "/repo/src/roll.test.ts" } }] } },
+  { type: "message", message: { role: "toolResult", toolCallId: "t2", toolName: "edit", content: [], isError: false } },
+  { type: "message", message: { role: "assistant", content: [{ type: "text", text: "Done. All tests pass now." }] } },
+];
+
+/** A check context whose conditions hold exactly when `met` says so. */
+function conditioned(met: (when: SlotCondition) => boolean) {
+  return { ...coreCtx("s", 5), matchesCondition: async (when: SlotCondition) => met(when) };
+}
+
+export const checks: Check[] = [
+  {
+    name: "conditions: every given field must hold for the last turn",
+    fn: () => {
+      assertEqual(conditionMet({ assistantMatches: "tests? pass" }, TURN), true, "regex, case-insensitive");
+      assertEqual(conditionMet({ assistantMatches: "^failed" }, TURN), false, "regex miss");
+      assertEqual([conditionMet({ toolFailed: "bash" }, TURN), conditionMet({ toolFailed: "*" }, TURN), conditionMet({ toolFailed: "Edit" }, TURN)], [true, true, false], "failed tool");
+      assertEqual([conditionMet({ fileTouched: "*.test.ts" }, TURN), conditionMet({ fileTouched: "*.ts" }, { ...TURN, toolCalls: [TURN.toolCalls[2]] })], [true, false], "edits only, not reads");
+      assertEqual(conditionMet({ toolFailed: "Bash", fileTouched: "src/**/*.ts" }, TURN), true, "both hold");
+      assertEqual(conditionMet({ toolFailed: "Bash", assistantMatches: "nope" }, TURN), false, "one fails: all fail");
+      assertEqual(["/a/b/x.test.ts", "x.test.ts", "/a/xtest.ts"].map((p) => globToRegExp("*.test.ts").test(p)), [true, true, false], "glob");
+    },
+  },
+  {
+    name: "conditions: validation and formatting",
+    fn: () => {
+      assertEqual(conditionError({}), "needs assistantMatches, toolFailed, or fileTouched", "empty");
+      assertEqual(conditionError({ assistantMatches: "(" })?.startsWith("assistantMatches is not a valid regex"), true, "bad regex");
+      assertEqual(conditionError({ toolFailed: " " }), "toolFailed needs a tool name (or *)", "blank tool");
+      assertEqual(conditionError({ fileTouched: "*.ts" }), null, "valid");
+      assertEqual(formatCondition({ toolFailed: "Bash", fileTouched: "*.test.ts" }), "Bash failed, edited *.test.ts", "formatCondition");
+    },
+  },
+  {
+    name: "conditions: the Claude transcript and Pi entries read the same last turn",
+    fn: () =>
+      withTempBase(async (base) => {
+        const path = join(base, "session.jsonl");
+        writeFileSync(path, JSONL.map((e) => JSON.stringify(e)).join("\n") + "\n");
+        const claude = await readLastTurn(path);
+        assertEqual(claude, {
+          assistantText: "Done. All tests pass now.",
+          toolCalls: [
+            { tool: "Bash", failed: true },
+            { tool: "Edit", failed: false, path: "/repo/src/roll.test.ts" },
+          ],
+        }, "claude: the earlier turn is ignored");
+
+        const pi = lastTurn({ sessionManager: { getEntries: () => PI_ENTRIES } } as never);
+        assertEqual([pi.assistantText, pi.toolCalls.map((c) => [c.failed, c.path])], [claude.assistantText, claude.toolCalls.map((c) => [c.failed, c.path])], "pi parity");
+
+        const ctx = resolveCoreContext({ sessionId: "s", transcriptPath: path });
+        assertEqual(await ctx.matchesCondition!({ toolFailed: "Bash", fileTouched: "*.test.ts" }), true, "adapter evaluates");
+        assertEqual(await resolveCoreContext({ sessionId: "s" }).matchesCondition!({ toolFailed: "*" }), false, "no transcript: nothing holds");
+        assertEqual(await readLastTurn(join(base, "missing.jsonl")), { assistantText: "", toolCalls: [] }, "missing file");
+      }),
+  },
+  {
+    name: "conditions: an unmatched slot gets 0 dice and draws no RNG; status reports it",
+    fn: async () => {
+      let calls = 0;
+      const config = slot({ name: "c", type: "fixed", fixedCount: 2, cooldown: "none", when: { toolFailed: "Bash" } });
+      const host = makeMemoryHost([config], { rng: () => (calls++, 0.5) });
+      const [quiet] = await checkAllSlots(host, conditioned(() => false));
+      assertEqual([quiet.diceCount, calls], [0, 0], "not met: dormant");
+      assertEqual((await checkAllSlots(host, coreCtx("s")))[0].diceCount, 0, "no evaluator: dormant");
+      assertEqual((await checkAllSlots(host, conditioned(() => true)))[0].diceCount, 2, "met: rolls");
+
+      const unmet = await getSlotStatus(host, "c", conditioned(() => false));
+      assertEqual([unmet?.condition, unmet?.probability], [{ met: false }, 0], "status: not met, 0%");
+      assertEqual((await getSlotStatus(host, "c", conditioned(() => true)))?.condition, { met: true }, "status: met");
+    },
+  },
+  {
+    name: "conditions: a malformed condition stays unmet for its slot only",
+    fn: async () => {
+      assertEqual(conditionMet({ assistantMatches: "(" }, TURN), false, "bad regex: unmet, no throw");
+      const host = makeMemoryHost([
+        slot({ name: "broken", type: "fixed", fixedCount: 1, cooldown: "none", when: { assistantMatches: "(" } }),
+        slot({ name: "fine", type: "fixed", fixedCount: 1, cooldown: "none", when: { toolFailed: "Bash" } }),
+      ]);
+      const results = await checkAllSlots(host, { ...coreCtx("s"), matchesCondition: async (when) => conditionMet(when, TURN) });
+      assertEqual(results.map((r) => [r.slotName, r.diceCount, r.skipped]), [["broken", 0, "condition"], ["fine", 1, undefined]], "the other slot still rolls");
+    },
+  },
+];
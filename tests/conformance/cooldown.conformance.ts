@@ -0,0 +1,188 @@
+/**
+ * Cooldown conformance: the per-session / none / turns:N / duration / max:N
+ * specs, the JSON marker (and legacy bare-timestamp markers), the engine's
+ * cooldown gate, refractory curves that scale odds after a trigger without
+ * disturbing pool rolls, and the cooldown/refractory fields in status.
+ */
+
+import { type Check, assertEqual, assertThrows } from "./harness";
+import { coreCtx, makeMemoryHost, makeRng, slot } from "./fixtures";
+import {
+  parseCooldown,
+  parseDuration,
+  cooldownError,
+  cooldownWindow,
+  defaultCooldown,
+  nextMarker,
+  parseMarker,
+  refractoryPercent,
+  refractoryLength,
+} from "../../src/core/cooldown";
+import { checkAllSlots, getSlotStatus } from "../../src/core/engine";
+import type { ProbabilityCurve } from "../../src/types";
+
+/** An RNG that replays `values` in order, then repeats the last one. */
+function seq(...values: number[]): () => number {
+  let i = 0;
+  return () => values[Math.min(i++, values.length - 1)];
+}
+
+const minutesAgo = (m: number) => new Date(Date.now() - m * 60_000).toISOString();
+
+export const checks: Check[] = [
+  {
+    name: "cooldown: specs parse into modes; bad specs are rejected with a reason",
+    fn: async () => {
+      assertEqual(parseCooldown("per-session"), { kind: "per-session" }, "per-session");
+      assertEqual(parseCooldown("turns:5"), { kind: "turns", turns: 5 }, "turns");
+      assertEqual(parseCooldown("duration:30m"), { kind: "duration", ms: 1_800_000 }, "duration");
+      assertEqual(parseCooldown("max:3"), { kind: "max", max: 3 }, "max");
+      assertEqual([parseDuration("45s"), parseDuration("1.5h"), parseDuration("2d")], [45_000, 5_400_000, 172_800_000], "units");
+      for (const bad of ["session", "turns:0", "turns:2.5", "max:", "duration:30", "duration:0m", "duration:5w"]) {
+        await assertThrows(() => parseCooldown(bad), `"${bad}" should be rejected`);
+      }
+      assertEqual(cooldownError("turns:x"), 'Invalid cooldown "turns:x": turns needs a whole number >= 1, e.g. turns:3', "readable error");
+      assertEqual(cooldownError("none"), null, "valid");
+    },
+  },
+  {
+    name: "cooldown: slots that must fire again default to none, the rest to per-session",
+    fn: () => {
+      assertEqual(defaultCooldown({}), "per-session", "accumulator");
+      assertEqual(defaultCooldown({ type: "single" }), "per-session", "single");
+      for (const config of [{ type: "scheduled" as const }, { type: "deck" as const }, { veto: true }, { refractory: "linear:slope=10" }]) {
+        assertEqual(defaultCooldown(config), "none", JSON.stringify(config));
+      }
+    },
+  },
+  {
+    name: "cooldown: windows by mode; legacy markers still hold a per-session cooldown",
+    fn: () => {
+      const now = Date.parse("2026-01-01T12:00:00.000Z");
+      const marker = { triggeredAt: "2026-01-01T11:50:00.000Z", depth: 10, count: 2 };
+      assertEqual(cooldownWindow(parseCooldown("turns:5"), marker, now, 15), { active: true, untilDepth: 16 }, "turns: 5 of 5");
+      assertEqual(cooldownWindow(parseCooldown("turns:5"), marker, now, 16).active, false, "turns: over at depth 16");
+      assertEqual(cooldownWindow(parseCooldown("turns:1"), marker, now, 11).active, true, "turns:1 silences the next message");
+      assertEqual(cooldownWindow(parseCooldown("duration:30m"), marker, now), { active: true, until: "2026-01-01T12:20:00.000Z" }, "duration: 10 of 30 minutes");
+      assertEqual(cooldownWindow(parseCooldown("duration:5m"), marker, now).active, false, "duration: over");
+      assertEqual([2, 3].map((max) => cooldownWindow(parseCooldown(`max:${max}`), marker, now).active), [true, false], "max: count against cap");
+
+      const legacy = parseMarker("2025-01-01\n");
+      assertEqual(legacy, { triggeredAt: "2025-01-01", count: 1 }, "bare timestamp reads as one trigger");
+      assertEqual(cooldownWindow(parseCooldown("per-session"), legacy, now).active, true, "legacy per-session marker holds");
+      assertEqual(cooldownWindow(parseCooldown("turns:5"), legacy, now, 1).active, false, "no depth: no turns lockout");
+      assertEqual(parseMarker(JSON.stringify(nextMarker(marker, "2026-01-01T13:00:00.000Z", 20))), {
+        triggeredAt: "2026-01-01T13:00:00.000Z",
+        depth: 20,
+        count: 3,
+      }, "markers round-trip and count triggers");
+    },
+  },
+  {
+    name: "cooldown: the engine gates turns, duration, and max cooldowns from the marker",
+    fn: async () => {
+      const turns = slot({ name: "t", type: "single", cooldown: "turns:3" });
+      const host = makeMemoryHost([turns], { rng: () => 0.99 });
+      assertEqual((await checkAllSlots(host, coreCtx("s", 10)))[0].triggered, true, "fires at depth 10");
+      assertEqual(await host.loadCooldown("t", "s").then((m) => [m?.depth, m?.count]), [10, 1], "marker records depth");
+      assertEqual((await checkAllSlots(host, coreCtx("s", 13)))[0].triggered, false, "held through depth 13");
+      assertEqual((await checkAllSlots(host, coreCtx("s", 14)))[0].triggered, true, "free again at depth 14");
+
+      const timed = slot({ name: "d", type: "single", cooldown: "duration:30m" });
+      const timedHost = makeMemoryHost([timed], { rng: () => 0.99 });
+      await timedHost.markTriggered("d", "s", { triggeredAt: minutesAgo(10), count: 1 });
+      assertEqual((await checkAllSlots(timedHost, coreCtx("s")))[0].triggered, false, "10 minutes in: held");
+      await timedHost.markTriggered("d", "s", { triggeredAt: minutesAgo(31), count: 1 });
+      assertEqual((await checkAllSlots(timedHost, coreCtx("s")))[0].triggered, true, "31 minutes in: fires");
+
+      const capped = slot({ name: "m", type: "single", cooldown: "max:2" });
+      const cappedHost = makeMemoryHost([capped], { rng: () => 0.99 });
+      const fired: boolean[] = [];
+      for (let i = 0; i < 3; i++) fired.push((await checkAllSlots(cappedHost, coreCtx("s")))[0].triggered);
+      assertEqual(fired, [true, true, false], "two triggers, then capped");
+      assertEqual((await cappedHost.loadCooldown("m", "s"))?.count, 2, "count kept in the marker");
+    },
+  },
+  {
+    name: "cooldown: per-session markers stay depth-free and 'none' writes no marker",
+    fn: async () => {
+      const host = makeMemoryHost([slot({ name: "p", type: "single" }), slot({ name: "n", type: "single", cooldown: "none" })], {
+        rng: () => 0.99,
+      });
+      await checkAllSlots(host, coreCtx("s", 10));
+      const marker = await host.loadCooldown("p", "s");
+      assertEqual([marker?.count, marker?.depth], [1, undefined], "per-session: one trigger, no depth read");
+      assertEqual(await host.loadCooldown("n", "s"), null, "none: no marker");
+    },
+  },
+  {
+    name: "refractory: odds scale by the curve after a trigger; a held trigger needs one extra draw",
+    fn: async () => {
+      const curve = { shape: "linear" as const, slope: 10 };
+      assertEqual([0, 5, 12].map((d) => refractoryPercent(curve, d)), [0, 50, 100], "percent by turns since");
+      assertEqual([refractoryLength(curve), refractoryLength({ ...curve, ceiling: 80 })], [10, null], "full odds at 10 turns, or never");
+
+      const config = slot({ name: "r", type: "single", cooldown: "none", refractory: curve });
+      const host = makeMemoryHost([config], { rng: seq(0.99, 0.6) });
+      await host.markTriggered("r", "s", { triggeredAt: minutesAgo(1), depth: 10, count: 1 });
+      const [dropped] = await checkAllSlots(host, coreCtx("s", 15));
+      assertEqual([dropped.triggered, dropped.refractory, dropped.probability], [false, 50, 2.5], "rolled a 20, 60 ≥ 50: dropped");
+      assertEqual((await host.loadCooldown("r", "s"))?.count, 1, "a dropped trigger commits nothing");
+
+      host.rng = seq(0.99, 0.4);
+      const [kept] = await checkAllSlots(host, coreCtx("s", 15));
+      assertEqual([kept.triggered, kept.refractory], [true, 50], "40 < 50: kept");
+      assertEqual(await host.loadCooldown("r", "s").then((m) => [m?.depth, m?.count]), [15, 2], "kept trigger restarts the curve");
+
+      host.rng = seq(0.99, 0.99);
+      const [full] = await checkAllSlots(host, coreCtx("s", 30));
+      assertEqual([full.triggered, full.refractory], [true, undefined], "back to full odds: no extra draw");
+    },
+  },
+  {
+    name: "refractory: a due pity timer still forces a trigger the refractory draw drops",
+    fn: async () => {
+      const config = slot({ name: "r", type: "single", cooldown: "none", guaranteeAfter: 3, refractory: { shape: "linear", slope: 10 } });
+      const host = makeMemoryHost([config], { rng: seq(0.99, 0.6) });
+      await host.markTriggered("r", "s", { triggeredAt: minutesAgo(1), depth: 10, count: 1 });
+      const [forced] = await checkAllSlots(host, coreCtx("s", 15));
+      assertEqual([forced.triggered, forced.forced, forced.probability], [true, "pity", 100], "rolled a 20, 60 ≥ 50, pity due: forced");
+      assertEqual((await host.loadCooldown("r", "s"))?.count, 2, "the forced trigger commits");
+    },
+  },
+  {
+    name: "refractory: held draws come last, leaving shared-pool rolls unchanged",
+    fn: async () => {
+      const pool = (refractory?: ProbabilityCurve) => [
+        slot({ name: "g_a", type: "single", die: 20, target: 20, targetMode: "lte", cooldown: "none", refractory }),
+        slot({ name: "g_b", type: "accumulator", die: 20, target: 19, targetMode: "gte", cooldown: "none" }),
+      ];
+      const plain = await checkAllSlots(makeMemoryHost(pool(), { rng: makeRng(777) }), coreCtx("s", 30));
+      const host = makeMemoryHost(pool({ shape: "linear", slope: 10 }), { rng: makeRng(777) });
+      await host.markTriggered("g_a", "s", { triggeredAt: minutesAgo(1), depth: 25, count: 1 });
+      const softened = await checkAllSlots(host, coreCtx("s", 30));
+      assertEqual(softened.map((r) => r.rolls), plain.map((r) => r.rolls), "identical rolls");
+      assertEqual(softened[1], plain[1], "the other slot is untouched");
+    },
+  },
+  {
+    name: "cooldown: status reports the window, trigger count, and refractory recovery",
+    fn: async () => {
+      const turns = slot({ name: "t", type: "single", cooldown: "turns:5" });
+      const host = makeMemoryHost([turns]);
+      assertEqual((await getSlotStatus(host, "t", coreCtx("s", 12)))?.cooldown, undefined, "never triggered");
+      await host.markTriggered("t", "s", { triggeredAt: minutesAgo(1), depth: 10, count: 2 });
+      assertEqual((await getSlotStatus(host, "t", coreCtx("s", 12)))?.cooldown, { active: true, triggers: 2, untilDepth: 16 }, "turns window");
+
+      const legacy = makeMemoryHost([slot({ name: "p" })]);
+      await legacy.markTriggered("p", "s");
+      assertEqual((await getSlotStatus(legacy, "p", coreCtx("s")))?.cooldown, { active: true, triggers: 1 }, "per-session");
+
+      const soft = slot({ name: "r", type: "single", cooldown: "none", refractory: { shape: "linear", slope: 10 } });
+      const softHost = makeMemoryHost([soft]);
+      await softHost.markTriggered("r", "s", { triggeredAt: minutesAgo(1), depth: 10, count: 1 });
+      const st = await getSlotStatus(softHost, "r", coreCtx("s", 15));
+      assertEqual([st?.refractory, st?.probability, st?.cooldown?.active], [{ percent: 50, fullAt: 20 }, 2.5, false], "half odds until depth 20");
+    },
+  },
+];
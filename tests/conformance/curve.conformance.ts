@@ -0,0 +1,118 @@
+/**
+ * Curve conformance: linear/exponential/logistic chance curves with floor and
+ * ceiling, percentile crossings, the `--curve` spec parser, and curve
+ * accumulators in the engine (one uniform draw, reset on trigger, status).
+ */
+
+import { type Check, assert, assertEqual, assertThrows } from "./harness";
+import { coreCtx, makeMemoryHost, makeRng, slot } from "./fixtures";
+import {
+  computeAccumulator,
+  curveValue,
+  curveCrossings,
+  parseCurve,
+  formatCurve,
+} from "../../src/core/accumulator";
+import { checkAllSlots, getSlotStatus, previewSlot } from "../../src/core/engine";
+import { renderTrigger } from "../../src/adapters/claude-renderer";
+
+const STATE = { depth_at_last_trigger: 0, last_reset: "" };
+
+export const checks: Check[] = [
+  {
+    name: "curve: each shape follows its formula and stays within floor/ceiling",
+    fn: () => {
+      const linear = { shape: "linear" as const, floor: 1, slope: 2, ceiling: 60 };
+      assertEqual([0, 10, 40].map((d) => curveValue(linear, d)), [1, 21, 60], "linear ramp capped at the ceiling");
+      const exponential = { shape: "exponential" as const, growth: 2 };
+      assertEqual([0, 3, 10].map((d) => curveValue(exponential, d)), [1, 8, 100], "exponential doubles from floor 1");
+      const logistic = { shape: "logistic" as const, ceiling: 60, midpoint: 20, steepness: 0.3 };
+      assertEqual(curveValue(logistic, 20), 30, "logistic is halfway at the midpoint");
+      assert(curveValue(logistic, 0) < 1 && curveValue(logistic, 60) > 59.9, "logistic flattens at both ends");
+      assertEqual(curveValue({ shape: "logistic", floor: 5 }, 0) >= 5, true, "floor holds at depth 0");
+    },
+  },
+  {
+    name: "curve: crossings give the first depth at each mark, null above the ceiling",
+    fn: () => {
+      assertEqual(curveCrossings({ shape: "linear", slope: 2 }), [
+        { percent: 25, depth: 13 },
+        { percent: 50, depth: 25 },
+        { percent: 75, depth: 38 },
+      ], "default marks 25/50/75");
+      assertEqual(curveCrossings({ shape: "linear", slope: 2, ceiling: 40 }, [10, 50]), [
+        { percent: 10, depth: 5 },
+        { percent: 50, depth: null },
+      ], "a mark above the ceiling is never reached");
+    },
+  },
+  {
+    name: "curve: spec parser reads shape and parameters; formatCurve round-trips",
+    fn: async () => {
+      assertEqual(parseCurve("linear"), { shape: "linear" }, "bare shape");
+      assertEqual(parseCurve(" logistic:midpoint=30, steepness=0.2 "), { shape: "logistic", midpoint: 30, steepness: 0.2 }, "parameters");
+      for (const text of ["linear:floor=1,slope=2", "exponential:ceiling=50,growth=1.2"]) {
+        assertEqual(formatCurve(parseCurve(text)), text, `${text} round-trips`);
+      }
+      for (const bad of ["cubic", "linear:speed=2", "linear:slope=x", "linear:slope=0", "exponential:floor=0", "logistic:floor=60,ceiling=40", "linear:ceiling=120"]) {
+        await assertThrows(() => parseCurve(bad), `"${bad}" should be rejected`);
+      }
+    },
+  },
+  {
+    name: "curve: computeAccumulator reports the chance and one draw (none at 0%)",
+    fn: () => {
+      const config = slot({ name: "c", curve: { shape: "linear", slope: 1 } });
+      assertEqual(computeAccumulator(config, 12, STATE), { diceCount: 1, currentDepth: 12, depthSinceTrigger: 12, curveChance: 12, calibratedState: undefined }, "12 turns → 12%");
+      assertEqual(computeAccumulator(config, 0, STATE).diceCount, 0, "0% → no draw");
+      assertEqual(computeAccumulator(slot({ name: "d" }), 14, STATE).curveChance, undefined, "dice accumulators are unchanged");
+    },
+  },
+  {
+    name: "curve: the engine draws one percentile against the chance and resets on trigger",
+    fn: async () => {
+      const config = slot({ name: "c", curve: { shape: "linear", slope: 1 }, cooldown: "none", onTrigger: { message: "m" } });
+      const miss = await checkAllSlots(makeMemoryHost([config], { rng: () => 0.1 }), coreCtx("s", 10));
+      assertEqual([miss[0].triggered, miss[0].percentile, miss[0].probability], [false, 10, 10], "10.00 is not under 10%");
+      const host = makeMemoryHost([config], { rng: () => 0.0999 });
+      const [hit] = await checkAllSlots(host, coreCtx("s", 10));
+      assertEqual([hit.triggered, hit.percentile], [true, 9.99], "9.99 is under 10%");
+      assertEqual(renderTrigger(hit, config), "🎲 9.99 under 10%! m", "curve flavor");
+      assertEqual((await host.loadState("c", "s")).depth_at_last_trigger, 10, "trigger resets the curve");
+      assertEqual((await getSlotStatus(host, "c", coreCtx("s", 10)))?.probability, 0, "back at the floor");
+      assertEqual(previewSlot(config, 1, () => 0.5, { depthSinceTrigger: 60 }).triggered, true, "preview reads the given depth");
+    },
+  },
+  {
+    name: "curve: curve slots sit outside the shared pools, leaving pool rolls unchanged",
+    fn: async () => {
+      const pool = [
+        slot({ name: "g_a", type: "single", die: 20, target: 20, cooldown: "none" }),
+        slot({ name: "g_b", type: "accumulator", die: 20, target: 19, targetMode: "gte", cooldown: "none" }),
+      ];
+      const curve = slot({ name: "c", curve: { shape: "logistic" }, cooldown: "none" });
+      const without = await checkAllSlots(makeMemoryHost(pool, { rng: makeRng(777) }), coreCtx("s", 30));
+      const withCurve = await checkAllSlots(makeMemoryHost([curve, ...pool], { rng: makeRng(777) }), coreCtx("s", 30));
+      assertEqual(withCurve.filter((r) => r.slotName !== "c"), without, "pool results identical with a curve slot listed first");
+      assertEqual(withCurve.find((r) => r.slotName === "c")?.rolls, [], "no dice rolled");
+    },
+  },
+  {
+    name: "curve: status shows the current chance and crossings as absolute depths",
+    fn: async () => {
+      const config = slot({ name: "c", curve: { shape: "linear", slope: 5 }, curveMarks: [25, 50, 120] });
+      const host = makeMemoryHost([config], { state: { "c::s": { depth_at_last_trigger: 5, last_reset: "" } } });
+      const st = await getSlotStatus(host, "c", coreCtx("s", 10));
+      assertEqual(st?.probability, 25, "5 turns since trigger → 25%");
+      assertEqual(st?.curve, {
+        spec: "linear:slope=5",
+        crossings: [
+          { percent: 25, depth: 10 },
+          { percent: 50, depth: 15 },
+          { percent: 120, depth: null },
+        ],
+      }, "crossings offset by the last trigger depth");
+      assertEqual(st?.nextDiceAt, 0, "no next-die depth for curves");
+    },
+  },
+];
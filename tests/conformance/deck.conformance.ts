@@ -0,0 +1,124 @@
+/**
+ * Deck conformance: shuffle-bag draws without replacement, reshuffle on empty,
+ * fairness over a full pass (a cancelled hit card goes back), exact next-draw
+ * odds in status, deck slots sitting outside the shared pools, and the library
+ * registries defaulting decks to no cooldown.
+ */
+
+import { type Check, assert, assertEqual, withTempBase } from "./harness";
+import { coreCtx, makeMemoryHost, makeRng, slot } from "./fixtures";
+import { freshDeck, currentDeck, deckProbability, drawCard } from "../../src/core/deck";
+import { checkAllSlots, getSlotStatus, previewSlot } from "../../src/core/engine";
+import { renderTrigger } from "../../src/adapters/claude-renderer";
+import { registerSlot } from "../../src/registry";
+import { registerSlot as piRegisterSlot } from "../../src/adapters/pi/store";
+
+const STATE = { depth_at_last_trigger: 0, last_reset: "" };
+
+export const checks: Check[] = [
+  {
+    name: "deck: fresh decks, reshuffle on empty, and stale decks after a re-register",
+    fn: () => {
+      const config = slot({ name: "d", type: "deck", deckSize: 10, deckHits: 2 });
+      assertEqual(freshDeck(config), { remaining: 10, hits: 2 }, "configured deck");
+      assertEqual(freshDeck(slot({ name: "d", type: "deck" })), { remaining: 20, hits: 1 }, "defaults: 1 hit in 20");
+      assertEqual(currentDeck(config, STATE), { remaining: 10, hits: 2 }, "no saved deck → fresh");
+      assertEqual(currentDeck(config, { ...STATE, deck: { remaining: 4, hits: 1 } }), { remaining: 4, hits: 1 }, "saved deck continues");
+      assertEqual(currentDeck(config, { ...STATE, deck: { remaining: 0, hits: 0 } }), { remaining: 10, hits: 2 }, "empty deck reshuffles");
+      assertEqual(currentDeck(config, { ...STATE, deck: { remaining: 15, hits: 1 } }), { remaining: 10, hits: 2 }, "deck larger than config reshuffles");
+    },
+  },
+  {
+    name: "deck: a draw is one RNG call and a hit with chance hits/remaining",
+    fn: () => {
+      let calls = 0;
+      const rng = (v: number) => () => (calls++, v);
+      assertEqual(drawCard({ remaining: 4, hits: 1 }, rng(0.2)), { hit: true, deck: { remaining: 3, hits: 0 } }, "low draw hits");
+      assertEqual(drawCard({ remaining: 4, hits: 1 }, rng(0.3)), { hit: false, deck: { remaining: 3, hits: 1 } }, "draw past the hits misses");
+      assertEqual(calls, 2, "one call per draw");
+      assertEqual(deckProbability({ remaining: 7, hits: 2 }), 28.57, "2 of 7");
+      assertEqual(deckProbability({ remaining: 3, hits: 0 }), 0, "no hits left");
+    },
+  },
+  {
+    name: "deck: every full pass fires exactly deckHits times, then reshuffles",
+    fn: async () => {
+      const config = slot({ name: "bag", type: "deck", deckSize: 8, deckHits: 3, cooldown: "none" });
+      const host = makeMemoryHost([config], { rng: makeRng(42) });
+      for (let pass = 0; pass < 3; pass++) {
+        let hits = 0;
+        for (let turn = 0; turn < 8; turn++) {
+          const [r] = await checkAllSlots(host, coreCtx("s"));
+          if (r.triggered) hits++;
+        }
+        assertEqual(hits, 3, `pass ${pass + 1}: 3 hits in 8 draws`);
+        assertEqual((await host.loadState("bag", "s")).deck, { remaining: 0, hits: 0 }, "deck spent at the end of a pass");
+      }
+    },
+  },
+  {
+    name: "deck: a hit cancelled by a veto or its group goes back in the deck",
+    fn: async () => {
+      const bag = slot({ name: "bag", type: "deck", deckSize: 4, deckHits: 4, cooldown: "none", group: "g" });
+      const always = { type: "single" as const, die: 1, target: 1, cooldown: "none" as const };
+      for (const other of [slot({ name: "v", ...always, veto: true }), slot({ name: "w", ...always, group: "g", priority: 1 })]) {
+        const host = makeMemoryHost([bag, other], { rng: makeRng(5) });
+        const r = (await checkAllSlots(host, coreCtx("s"))).find((x) => x.slotName === "bag")!;
+        assert(!r.triggered && (r.vetoedBy === "v" || r.suppressedBy === "w"), `cancelled by ${other.name}`);
+        assertEqual(r.deck, { remaining: 4, hits: 4 }, "result shows the card returned");
+        assertEqual((await host.loadState("bag", "s")).deck, { remaining: 4, hits: 4 }, "saved deck keeps the hit card");
+      }
+    },
+  },
+  {
+    name: "deck: status reports cards left and the exact odds of the next draw",
+    fn: async () => {
+      const config = slot({ name: "bag", type: "deck", deckSize: 5, deckHits: 1, cooldown: "none" });
+      const host = makeMemoryHost([config], { rng: () => 0.99 });
+      const before = await getSlotStatus(host, "bag", coreCtx("s"));
+      assertEqual([before?.deck, before?.probability], [{ remaining: 5, hits: 1 }, 20], "fresh deck: 1 in 5");
+      const [r] = await checkAllSlots(host, coreCtx("s"));
+      assertEqual([r.triggered, r.probability, r.deck], [false, 20, { remaining: 4, hits: 1 }], "miss drawn at 20%");
+      const after = await getSlotStatus(host, "bag", coreCtx("s"));
+      assertEqual([after?.deck, after?.probability], [{ remaining: 4, hits: 1 }, 25], "odds rise as misses leave the bag");
+    },
+  },
+  {
+    name: "deck: deck slots roll after the shared pools, leaving pool rolls unchanged",
+    fn: async () => {
+      const pool = [
+        slot({ name: "g_a", type: "single", die: 20, target: 20, cooldown: "none" }),
+        slot({ name: "g_c", type: "fixed", die: 6, fixedCount: 2, target: 6, targetMode: "gte", cooldown: "none" }),
+      ];
+      const deck = slot({ name: "bag", type: "deck", deckSize: 4, deckHits: 4, cooldown: "none", onTrigger: { message: "m" } });
+      const without = await checkAllSlots(makeMemoryHost(pool, { rng: makeRng(777) }), coreCtx("s"));
+      const withDeck = await checkAllSlots(makeMemoryHost([deck, ...pool], { rng: makeRng(777) }), coreCtx("s"));
+      assertEqual(withDeck.filter((r) => r.slotName !== "bag"), without, "pool results identical with a deck slot listed first");
+      const bag = withDeck.find((r) => r.slotName === "bag")!;
+      assert(bag.triggered, "an all-hit deck always triggers");
+      assertEqual(renderTrigger(bag, deck), "🃏 Hit card (3 left)! m", "deck flavor");
+    },
+  },
+  {
+    name: "deck: preview draws from the given deck without saving it",
+    fn: async () => {
+      const config = slot({ name: "bag", type: "deck", deckSize: 10, deckHits: 1 });
+      const r = previewSlot(config, 1, () => 0, { deck: { remaining: 2, hits: 1 } });
+      assertEqual([r.triggered, r.probability, r.deck], [true, 50, { remaining: 1, hits: 0 }], "drawn from the current deck");
+      assertEqual(previewSlot(config, 1, () => 0).probability, 10, "no deck given → fresh deck");
+      const host = makeMemoryHost([config]);
+      await getSlotStatus(host, "bag", coreCtx("s"));
+      assertEqual((await host.loadState("bag", "s")).deck, undefined, "status does not draw");
+    },
+  },
+  {
+    name: "deck: the library registries default deck slots to no cooldown",
+    fn: () =>
+      withTempBase(async () => {
+        const base = { die: 20, target: 1, onTrigger: { message: "m" } };
+        assertEqual((await registerSlot({ ...base, name: "bag", type: "deck", deckSize: 10 })).cooldown, "none", "registerSlot");
+        assertEqual(piRegisterSlot({ ...base, name: "pibag", type: "deck", deckSize: 10 }).cooldown, "none", "Pi store");
+        assertEqual((await registerSlot({ ...base, name: "kept", type: "deck", cooldown: "max:2" })).cooldown, "max:2", "explicit kept");
+      }),
+  },
+];
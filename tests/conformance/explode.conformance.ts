@@ -0,0 +1,100 @@
+/**
+ * Exploding-dice conformance: the reroll loop, chain distributions (checked
+ * against brute-force enumeration), odds, and how explosions land in `rolls`.
+ */
+
+import { type Check, assert, assertEqual } from "./harness";
+import { coreCtx, makeMemoryHost, makeRng, slot } from "./fixtures";
+import { calculateProbability, explodeRerolls, explodingDistribution, formatRolls, uniformDie } from "../../src/roll";
+import { checkAllSlots, previewSlot } from "../../src/core/engine";
+
+/** Every exploding chain of a dN with its probability, by direct enumeration. */
+function bruteChains(die: number, depth: number): Array<{ rolls: number[]; p: number }> {
+  const out: Array<{ rolls: number[]; p: number }> = [];
+  const walk = (rolls: number[], p: number, left: number) => {
+    for (let face = 1; face <= die; face++) {
+      const next = [...rolls, face];
+      if (face === die && left > 0) walk(next, p / die, left - 1);
+      else out.push({ rolls: next, p: p / die });
+    }
+  };
+  walk([], 1, depth);
+  return out;
+}
+
+export const checks: Check[] = [
+  {
+    name: "explode: rerolls only on the max face and stop at the depth cap",
+    fn: () => {
+      assertEqual(explodeRerolls(3, 6, 5, () => 0.99), [], "non-max face never explodes");
+      assertEqual(explodeRerolls(6, 6, 3, () => 0.99), [6, 6, 6], "capped at 3 extra rolls");
+      assertEqual(explodeRerolls(6, 6, 3, () => 0), [1], "chain ends on a non-max face");
+      assertEqual(formatRolls([6, 6, 2, 4], [0, 1]), "6!, 6!, 2, 4", "exploded dice are marked");
+    },
+  },
+  {
+    name: "explode: chain-total distribution matches brute-force enumeration",
+    fn: () => {
+      for (const [die, depth] of [[4, 2], [6, 3], [2, 5]]) {
+        const expected = new Map<number, number>();
+        for (const { rolls, p } of bruteChains(die, depth)) {
+          const total = rolls.reduce((a, b) => a + b, 0);
+          expected.set(total, (expected.get(total) ?? 0) + p);
+        }
+        const actual = explodingDistribution(uniformDie(die), die, depth);
+        for (const k of new Set([...actual.keys(), ...expected.keys()])) {
+          assert(Math.abs((actual.get(k) ?? 0) - (expected.get(k) ?? 0)) < 1e-12, `d${die}! depth ${depth}: P(${k}) differs`);
+        }
+      }
+    },
+  },
+  {
+    name: "explode: odds cover extra dice (per-die modes) and added totals (sum modes)",
+    fn: () => {
+      const chainHit = (face: number) => {
+        const p = bruteChains(6, 5).filter((c) => c.rolls.includes(face)).reduce((a, c) => a + c.p, 0);
+        return Math.round(p * 10000) / 100;
+      };
+      assertEqual(calculateProbability(1, 6, 3, "exact", { explodeDepth: 5 }), chainHit(3), "any roll in the chain shows a 3");
+      assertEqual(calculateProbability(1, 6, 6, "exact", { explodeDepth: 5 }), 16.67, "the max face hits on the first roll");
+      assertEqual(calculateProbability(1, 6, 10, "sum-gte", { explodeDepth: 5 }), 8.33, "d6! >= 10 needs 6 then >= 4: 1/6 x 3/6");
+      assertEqual(calculateProbability(1, 6, 7, "sum-gte"), 0, "a plain d6 never reaches 7");
+      assert(calculateProbability(2, 6, 1, "exact", { explodeDepth: 5 }) > calculateProbability(2, 6, 1, "exact"), "explosions add chances");
+    },
+  },
+  {
+    name: "explode: extra rolls follow the die that exploded; exploded indices mark the max faces",
+    fn: async () => {
+      // A d1 always shows its max face, so every die explodes to the cap.
+      const always = slot({ name: "d1", type: "fixed", die: 1, fixedCount: 2, explode: true, explodeDepth: 3, target: 8, targetMode: "sum-gte", cooldown: "none" });
+      const r = previewSlot(always, 2, makeRng(1));
+      assertEqual(r.rolls, [1, 1, 1, 1, 1, 1, 1, 1], "2 dice x (1 + 3 extra) rolls");
+      assertEqual(r.exploded, [0, 1, 2, 4, 5, 6], "the last roll of each chain hit the cap");
+      assertEqual(r.total, 8, "sum mode adds the extra rolls");
+      assert(r.triggered, "8 >= 8");
+      assertEqual(r.probability, 100, "odds agree");
+
+      const adv = previewSlot({ ...always, advantage: "advantage" }, 1, makeRng(1));
+      assertEqual(adv.advantageRolls, [[1, 1]], "advantage rolls first");
+      assertEqual(adv.rolls, [1, 1, 1, 1], "then the kept die explodes");
+    },
+  },
+  {
+    name: "explode: slots rolled before an exploding slot are unaffected; the base explodes privately",
+    fn: async () => {
+      const pool = [
+        slot({ name: "plain", type: "single", die: 6, target: 6, cooldown: "none" }),
+        slot({ name: "fix", type: "fixed", die: 6, fixedCount: 3, target: 6, cooldown: "none" }),
+      ];
+      const boom = slot({ name: "boom", type: "fixed", die: 6, fixedCount: 4, explode: true, target: 6, cooldown: "none" });
+      for (const seed of [1, 2, 3, 4, 5]) {
+        const without = await checkAllSlots(makeMemoryHost(pool, { rng: makeRng(seed) }), coreCtx("s"));
+        const withBoom = await checkAllSlots(makeMemoryHost([...pool, boom], { rng: makeRng(seed) }), coreCtx("s"));
+        assertEqual(withBoom.slice(0, 2), without, `seed ${seed}: earlier pool results unchanged`);
+        const b = withBoom[2];
+        assertEqual(b.rolls[0], without[0].rolls[0], `seed ${seed}: exploding slot observes the shared base`);
+        for (const i of b.exploded ?? []) assertEqual(b.rolls[i], 6, `seed ${seed}: exploded dice show the max face`);
+      }
+    },
+  },
+];
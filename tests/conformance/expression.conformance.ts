@@ -0,0 +1,144 @@
+/**
+ * Dice-expression conformance: parser, seeded evaluator, exact distribution
+ * (checked against brute-force enumeration), and expression slots in the engine.
+ */
+
+import { type Check, assert, assertEqual, assertThrows } from "./harness";
+import { coreCtx, makeMemoryHost, makeRng, slot } from "./fixtures";
+import {
+  parseExpression,
+  evaluateExpression,
+  expressionDistribution,
+  expressionProbability,
+  formatExpressionRoll,
+} from "../../src/core/expression";
+import { checkAllSlots, getSlotStatus } from "../../src/core/engine";
+
+/** Brute-force distribution of keep-highest/lowest over every ordered outcome. */
+function bruteKeep(count: number, sides: number, keep: number, highest: boolean): Map<number, number> {
+  const dist = new Map<number, number>();
+  const total = Math.pow(sides, count);
+  for (let i = 0; i < total; i++) {
+    const dice: number[] = [];
+    let x = i;
+    for (let d = 0; d < count; d++) {
+      dice.push((x % sides) + 1);
+      x = Math.floor(x / sides);
+    }
+    dice.sort((a, b) => (highest ? b - a : a - b));
+    const sum = dice.slice(0, keep).reduce((a, b) => a + b, 0);
+    dist.set(sum, (dist.get(sum) ?? 0) + 1 / total);
+  }
+  return dist;
+}
+
+function assertSameDistribution(actual: Map<number, number>, expected: Map<number, number>, label: string): void {
+  const keys = new Set([...actual.keys(), ...expected.keys()]);
+  for (const k of keys) {
+    const diff = Math.abs((actual.get(k) ?? 0) - (expected.get(k) ?? 0));
+    assert(diff < 1e-12, `${label}: P(${k}) differs (${actual.get(k)} vs ${expected.get(k)})`);
+  }
+}
+
+export const checks: Check[] = [
+  {
+    name: "expression: parser reads groups, constants, signs, and keep/drop suffixes",
+    fn: () => {
+      assertEqual(parseExpression("2d6+1").terms, [
+        { kind: "dice", sign: 1, count: 2, sides: 6 },
+        { kind: "constant", sign: 1, value: 1 },
+      ], "2d6+1");
+      assertEqual(parseExpression("d20 - 2").terms, [
+        { kind: "dice", sign: 1, count: 1, sides: 20 },
+        { kind: "constant", sign: -1, value: 2 },
+      ], "implicit count + whitespace + subtraction");
+      assertEqual(parseExpression("4d6kh3").terms[0], { kind: "dice", sign: 1, count: 4, sides: 6, keep: { which: "highest", n: 3 } }, "kh");
+      assertEqual(parseExpression("4d6dl1").terms[0], parseExpression("4d6kh3").terms[0], "dl1 normalizes to kh3");
+      assertEqual(parseExpression("2d20dh1").terms[0], parseExpression("2d20kl1").terms[0], "dh1 normalizes to kl1");
+      assertEqual(parseExpression("3d6k3").terms[0], { kind: "dice", sign: 1, count: 3, sides: 6 }, "keeping every die is a plain group");
+    },
+  },
+  {
+    name: "expression: malformed or out-of-range notation throws",
+    fn: async () => {
+      for (const bad of ["", "2d", "d", "2d6+", "2x6", "4d6kh5", "4d6dl4", "0d6", "101d6", "1d1001", "40d6kh3"]) {
+        await assertThrows(() => parseExpression(bad), `"${bad}" should be rejected`);
+      }
+    },
+  },
+  {
+    name: "expression: the outcome space is bounded so the exact odds stay cheap",
+    fn: async () => {
+      for (const bad of ["100d1000", "30d1000kh15", "3d1000+2d1000", "5d1000", "4d1000kh3"]) {
+        await assertThrows(() => parseExpression(bad), `"${bad}" should be rejected`);
+      }
+      for (const ok of ["1d1000", "4d1000", "100d20", "2d1000kh1", "30d6kh15"]) parseExpression(ok);
+    },
+  },
+  {
+    name: "expression: evaluator is seeded, one RNG call per die, and honors keep",
+    fn: () => {
+      const expr = parseExpression("4d6kh3+2");
+      const a = evaluateExpression(expr, makeRng(11));
+      const b = evaluateExpression(expr, makeRng(11));
+      assertEqual(a, b, "same seed → same roll");
+      assertEqual(a.rolls.length, 4, "four dice rolled");
+      assertEqual(a.dropped.length, 1, "one die dropped");
+      const kept = a.rolls.filter((_, i) => !a.dropped.includes(i));
+      assertEqual(a.total, kept.reduce((x, y) => x + y, 0) + 2, "total = kept dice + modifier");
+      assert(Math.min(...a.rolls) === a.rolls[a.dropped[0]], "the dropped die is a lowest one");
+      assert(formatExpressionRoll(a).includes(`(${a.rolls[a.dropped[0]]})`), "dropped die shown in parentheses");
+    },
+  },
+  {
+    name: "expression: exact distribution matches brute force for keep-highest/lowest",
+    fn: () => {
+      assertSameDistribution(expressionDistribution(parseExpression("4d6kh3")), bruteKeep(4, 6, 3, true), "4d6kh3");
+      assertSameDistribution(expressionDistribution(parseExpression("3d8kl2")), bruteKeep(3, 8, 2, false), "3d8kl2");
+      assertSameDistribution(expressionDistribution(parseExpression("2d20kh1")), bruteKeep(2, 20, 1, true), "2d20kh1 (advantage)");
+    },
+  },
+  {
+    name: "expression: probability compares the total under every target form",
+    fn: () => {
+      assertEqual(expressionProbability(parseExpression("2d6"), 7, "exact"), 16.67, "P(2d6 = 7) = 6/36");
+      assertEqual(expressionProbability(parseExpression("2d6+1"), 12, "gte"), 8.33, "P(2d6+1 >= 12) = 3/36");
+      assertEqual(expressionProbability(parseExpression("1d20-2"), 0, "lte"), 10, "P(d20-2 <= 0) = 2/20");
+      assertEqual(expressionProbability(parseExpression("4d6kh3"), 18, "exact"), 1.62, "P(4d6kh3 = 18) = 21/1296");
+      assertEqual(expressionProbability(parseExpression("2d6"), [2, 12], "exact"), 5.56, "snake eyes or boxcars");
+      assertEqual(expressionProbability(parseExpression("2d6"), { min: 6, max: 8 }, "exact"), 44.44, "6..8 = 16/36");
+    },
+  },
+  {
+    name: "expression: slots roll after the shared pools, leaving pool rolls unchanged",
+    fn: async () => {
+      const pool = [
+        slot({ name: "g_a", type: "single", die: 20, target: 20, cooldown: "none" }),
+        slot({ name: "g_c", type: "fixed", die: 6, fixedCount: 2, target: 6, targetMode: "gte", cooldown: "none" }),
+      ];
+      const expr = slot({ name: "e", type: "expression", expression: "2d6+1", target: 8, targetMode: "gte", cooldown: "none" });
+      const without = await checkAllSlots(makeMemoryHost(pool, { rng: makeRng(777) }), coreCtx("s"));
+      const withExpr = await checkAllSlots(makeMemoryHost([expr, ...pool], { rng: makeRng(777) }), coreCtx("s"));
+      assertEqual(withExpr.filter((r) => r.slotName !== "e"), without, "pool results identical with an expression slot listed first");
+      const e = withExpr.find((r) => r.slotName === "e");
+      assertEqual(e?.rolls.length, 2, "expression rolled its two dice");
+      assertEqual(e?.total, (e?.rolls ?? []).reduce((a, b) => a + b, 0) + 1, "total reported");
+      assertEqual(e?.probability, 58.33, "exact odds of 2d6+1 >= 8 (21/36)");
+      assertEqual(e?.triggered, (e?.total ?? 0) >= 8, "trigger compares the total");
+    },
+  },
+  {
+    name: "expression: status reports the notation and exact odds; malformed config rolls nothing",
+    fn: async () => {
+      const host = makeMemoryHost([
+        slot({ name: "e", type: "expression", expression: "4d6kh3", target: 18, cooldown: "none" }),
+        slot({ name: "broken", type: "expression", expression: "4d6kh9", cooldown: "none" }),
+      ], { rng: makeRng(1) });
+      const st = await getSlotStatus(host, "e", coreCtx("s"));
+      assertEqual(st?.expression, "4d6kh3", "notation surfaced");
+      assertEqual(st?.probability, 1.62, "exact odds surfaced");
+      const r = await checkAllSlots(host, coreCtx("s"));
+      assertEqual(r.find((x) => x.slotName === "broken")?.diceCount, 0, "malformed expression → 0 dice, no throw");
+    },
+  },
+];
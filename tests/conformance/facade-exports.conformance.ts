@@ -20,7 +20,9 @@ const EXPECTED_EXPORTS = [
   // cooldown
   "hasCooldown", "markTriggered", "clearCooldown",
   // roll
-  "rollDice", "checkTarget", "findTriggerValue", "calculateProbability",
+  "rollDice", "checkTarget", "matchesTarget", "isSumMode", "sumRolls", "countHits", "findTriggerValue", "calculateProbability",
+  "parseTarget", "formatTarget", "formatRolls", "targetError",
+  "rollFaces", "faceValues", "faceLabel", "parseFaces", "parseFaceTarget", "faceTargetError", "defaultFaceTarget",
   // transcript
   "getTranscriptPath", "countExchanges",
   // session
@@ -30,7 +32,15 @@ const EXPECTED_EXPORTS = [
   // accumulator
   "getAccumulatorDiceCount",
   // high-level API
-  "resetSlot", "clearSlot", "getSlotStatus", "checkAllSlots", "sessionStart",
+  "resetSlot", "clearSlot", "getSlotStatus", "checkAllSlots", "sessionStart", "pauseSlot", "resumeSlot", "slotPause", "explainCheck",
+  // rng
+  "seededRng", "mulberry32", "hashSeed", "resolveRngProvider",
+  // history
+  "readRollHistory", "formatRecord", "slotStats", "faceStats", "chiSquareP",
+  // simulation
+  "simulate", "memoryHost",
+  // odds
+  "slotOdds", "describeOdds",
 ] as const;
 
 export const checks: Check[] = [
@@ -0,0 +1,167 @@
+/**
+ * Custom-face conformance: weighted face rolls, face-aware odds (Fate sums and
+ * loaded dice checked against brute-force enumeration), label dice with
+ * per-face messages, and pool identity for custom dice.
+ */
+
+import { type Check, assert, assertEqual } from "./harness";
+import { coreCtx, makeMemoryHost, makeRng, slot } from "./fixtures";
+import {
+  rollFaces,
+  faceDistribution,
+  faceValues,
+  calculateProbability,
+  parseFaces,
+  parseFaceTarget,
+  faceTargetError,
+  defaultFaceTarget,
+} from "../../src/roll";
+import { checkAllSlots, getSlotStatus } from "../../src/core/engine";
+import { applyPlaceholders, renderTrigger, triggerMessage } from "../../src/adapters/claude-renderer";
+
+/** Brute-force P(sum of count weighted faces matches), as 0-100. */
+function bruteFaces(count: number, values: number[], weights: number[], match: (sum: number) => boolean): number {
+  const totalWeight = weights.reduce((a, b) => a + b, 0);
+  let p = 0;
+  const outcomes = Math.pow(values.length, count);
+  for (let i = 0; i < outcomes; i++) {
+    let x = i;
+    let sum = 0;
+    let w = 1;
+    for (let d = 0; d < count; d++) {
+      const face = x % values.length;
+      sum += values[face];
+      w *= weights[face] / totalWeight;
+      x = Math.floor(x / values.length);
+    }
+    if (match(sum)) p += w;
+  }
+  return Math.round(p * 10000) / 100;
+}
+
+/** RNG that replays a fixed sequence and counts its calls. */
+function scripted(values: number[]): { rng: () => number; calls: () => number } {
+  let i = 0;
+  return { rng: () => values[i++ % values.length], calls: () => i };
+}
+
+const FATE = [-1, 0, 0, 1];
+const TOPICS = ["refactor", "test", "docs"];
+
+export const checks: Check[] = [
+  {
+    name: "faces: rollFaces honors weights with one RNG call per die",
+    fn: () => {
+      const r = scripted([0.1, 0.6, 0.99]);
+      assertEqual(rollFaces(3, [1, 2, 3], [1, 1, 2], r.rng), [1, 3, 3], "weight 2 covers the top half of the draw");
+      assertEqual(r.calls(), 3, "one call per die");
+      assertEqual(rollFaces(2, FATE, undefined, scripted([0.3, 0.6]).rng), [0, 0], "repeated faces are separate slots");
+      assertEqual(rollFaces(0, FATE), [], "no dice, no rolls");
+    },
+  },
+  {
+    name: "faces: distributions merge repeated faces and normalize weights",
+    fn: () => {
+      assertEqual([...faceDistribution(FATE)], [[-1, 0.25], [0, 0.5], [1, 0.25]], "Fate die");
+      assertEqual([...faceDistribution([1, 2, 3], [1, 1, 2])], [[1, 0.25], [2, 0.25], [3, 0.5]], "loaded die");
+      assertEqual(faceValues(TOPICS), [1, 2, 3], "label dice use 1-based positions");
+      assertEqual(faceValues(FATE), FATE, "numeric faces are their own values");
+    },
+  },
+  {
+    name: "faces: odds use the faces and weights, matching brute force",
+    fn: () => {
+      const fate = { face: faceDistribution(FATE) };
+      assertEqual(calculateProbability(4, 4, 3, "sum-gte", fate), 3.52, "4dF >= +3 is 9/256");
+      assertEqual(calculateProbability(4, 4, 0, "sum-exact", fate), bruteFaces(4, FATE, [1, 1, 1, 1], (s) => s === 0), "4dF = 0");
+      const loaded = { face: faceDistribution([1, 2, 3, 4, 5, 6], [1, 1, 1, 1, 1, 5]) };
+      assertEqual(calculateProbability(1, 6, 6, "exact", loaded), 50, "a loaded six lands half the time");
+      assertEqual(calculateProbability(2, 6, 6, "exact", loaded), 75, "1 - 0.5^2 over two dice");
+      assertEqual(
+        calculateProbability(3, 6, 12, "sum-gte", loaded),
+        bruteFaces(3, [1, 2, 3, 4, 5, 6], [1, 1, 1, 1, 1, 5], (s) => s >= 12),
+        "loaded 3d6 >= 12"
+      );
+      assertEqual(calculateProbability(2, 3, 3, "exact", { face: faceDistribution([1, 2, 3], [1, 1, 2]), minHits: 2 }), 25, "minHits on a weighted die");
+    },
+  },
+  {
+    name: "faces: label dice report labels, the triggering face, and its message",
+    fn: async () => {
+      const config = slot({
+        name: "topic",
+        type: "single",
+        die: 3,
+        faces: TOPICS,
+        weights: [1, 1, 2],
+        target: [1, 2, 3],
+        cooldown: "none",
+        onTrigger: { message: "look at {face} ({rolls})" },
+        faceMessages: { docs: "write the {face}" },
+      });
+      const [r] = await checkAllSlots(makeMemoryHost([config], { rng: () => 0.9 }), coreCtx("s"));
+      assertEqual(r.rolls, [3], "position of the rolled face");
+      assertEqual(r.labels, ["docs"], "labels surfaced");
+      assertEqual(r.face, "docs", "triggering face");
+      assertEqual(r.probability, 100, "every face is a target");
+      assertEqual(triggerMessage(r, config), "write the docs", "faceMessages override the default message");
+      assertEqual(renderTrigger(r, config), "🎲 docs! write the docs", "flavor names the face");
+
+      const [t] = await checkAllSlots(makeMemoryHost([config], { rng: () => 0.3 }), coreCtx("s"));
+      assertEqual(t.face, "test", "0.3 of weight 4 lands on the second face");
+      assertEqual(triggerMessage(t, config), "look at test (test)", "faces without a message use the default");
+      assertEqual(applyPlaceholders("{face}", t, config), "test", "{face} placeholder");
+    },
+  },
+  {
+    name: "faces: numeric custom dice keep numbers and leave labels unset",
+    fn: async () => {
+      const fate = slot({ name: "fate", type: "fixed", die: 4, fixedCount: 4, faces: FATE, target: 2, targetMode: "sum-gte", cooldown: "none" });
+      const [r] = await checkAllSlots(makeMemoryHost([fate], { rng: makeRng(3) }), coreCtx("s"));
+      assert(r.rolls.every((v) => FATE.includes(v)), "every roll is a Fate face");
+      assertEqual(r.labels, undefined, "no labels on numeric faces");
+      assertEqual(r.total, r.rolls.reduce((a, b) => a + b, 0), "sum modes total the face values");
+      assertEqual(r.probability, calculateProbability(4, 4, 2, "sum-gte", { face: faceDistribution(FATE) }), "status odds use the faces");
+      assertEqual((await getSlotStatus(makeMemoryHost([fate]), "fate", coreCtx("s")))?.probability, r.probability, "status agrees");
+    },
+  },
+  {
+    name: "faces: identical custom dice share a pool; other dice keep theirs",
+    fn: async () => {
+      const a = slot({ name: "a", type: "single", die: 4, faces: FATE, target: 1, cooldown: "none" });
+      const b = slot({ name: "b", type: "single", die: 4, faces: FATE, target: -1, cooldown: "none" });
+      const [ra, rb] = await checkAllSlots(makeMemoryHost([a, b], { rng: makeRng(9) }), coreCtx("s"));
+      assertEqual(ra.rolls, rb.rolls, "same faces and weights → shared base roll");
+
+      const loaded = slot({ name: "c", type: "single", die: 4, faces: FATE, weights: [1, 1, 1, 5], target: 1, cooldown: "none" });
+      const pool = [
+        slot({ name: "g_a", type: "single", die: 20, target: 20, cooldown: "none" }),
+        slot({ name: "g_b", type: "fixed", die: 20, fixedCount: 3, target: 18, targetMode: "gte", cooldown: "none" }),
+      ];
+      const without = await checkAllSlots(makeMemoryHost(pool, { rng: makeRng(777) }), coreCtx("s"));
+      const withCustom = await checkAllSlots(makeMemoryHost([...pool, a, loaded], { rng: makeRng(777) }), coreCtx("s"));
+      assertEqual(withCustom.slice(0, 2), without, "d20 pool unchanged by custom dice listed after it");
+      const scriptedRng = scripted([0.1, 0.99]);
+      const [x, y] = await checkAllSlots(makeMemoryHost([a, loaded], { rng: scriptedRng.rng }), coreCtx("s"));
+      assertEqual(scriptedRng.calls(), 2, "different weights → separate pools, one base roll each");
+      assertEqual([x.rolls, y.rolls], [[-1], [1]], "each pool rolled its own die");
+    },
+  },
+  {
+    name: "faces: parsing and validation of faces and face targets",
+    fn: () => {
+      assertEqual(parseFaces("-1, 0, 0, 1"), FATE, "numeric faces");
+      assertEqual(parseFaces("refactor,test,docs"), TOPICS, "label faces");
+      assertEqual(parseFaces("1,two,3"), ["1", "two", "3"], "mixed faces are all labels");
+      assertEqual(parseFaces(" , "), null, "empty list rejected");
+      assertEqual(parseFaceTarget("docs,refactor", TOPICS), [3, 1], "labels map to positions");
+      assertEqual(parseFaceTarget("0", FATE), 0, "numeric dice use target syntax");
+      assertEqual(parseFaceTarget("lint", TOPICS), null, "unknown label");
+      assertEqual(faceTargetError(2, FATE, "exact"), "2 is not a face of this die", "exact target must be a face");
+      assertEqual(faceTargetError(2, FATE, "sum-gte"), null, "sum targets are totals");
+      assertEqual(faceTargetError({ min: 2, max: 5 }, FATE, "exact"), "range covers no face of this die", "range must cover a face");
+      assertEqual(defaultFaceTarget(TOPICS), [1, 2, 3], "label dice default to every face");
+      assertEqual(defaultFaceTarget(FATE), 1, "numeric dice default to the highest face");
+    },
+  },
+];
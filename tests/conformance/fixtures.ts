@@ -5,7 +5,7 @@
  */
 
 import type { CoreCheckContext, DiceHost } from "../../src/core/contracts";
-import type { DiceSlotConfig, DiceState } from "../../src/types";
+import type { CooldownMarker, DiceSlotConfig, DiceState } from "../../src/types";
 
 /** Build a CoreCheckContext with an eager (already-known) depth, for tests. */
 export function coreCtx(sessionId: string, depth?: number): CoreCheckContext {
@@ -27,7 +27,7 @@ const FIXED_RESET = "1970-01-01T00:00:00.000Z";
 
 export type MemoryHost = DiceHost & {
   _state: Map<string, DiceState>;
-  _cooldown: Set<string>;
+  _cooldown: Map<string, CooldownMarker>;
 };
 
 /** In-memory DiceHost with zero Claude/file/Bun dependencies. */
@@ -37,7 +37,7 @@ export function makeMemoryHost(
 ): MemoryHost {
   const slotMap = new Map(slots.map((s) => [s.name, s]));
   const state = new Map<string, DiceState>();
-  const cooldown = new Set<string>();
+  const cooldown = new Map<string, CooldownMarker>();
   const key = (slot: string, session: string) => `${slot}::${session}`;
   if (opts.state) for (const [k, v] of Object.entries(opts.state)) state.set(k, v);
 
@@ -62,8 +62,11 @@ export function makeMemoryHost(
     async hasCooldown(slot, session) {
       return cooldown.has(key(slot, session));
     },
-    async markTriggered(slot, session) {
-      cooldown.add(key(slot, session));
+    async loadCooldown(slot, session) {
+      return cooldown.get(key(slot, session)) ?? null;
+    },
+    async markTriggered(slot, session, marker) {
+      cooldown.set(key(slot, session), marker ?? { triggeredAt: FIXED_RESET, count: 1 });
     },
     clearCooldown(slot, session) {
       cooldown.delete(key(slot, session));
@@ -0,0 +1,75 @@
+/**
+ * Exclusion-group conformance: at most one slot per group triggers per check —
+ * highest priority, then registry order — the rest come back `suppressedBy`
+ * the winner and commit no reset or cooldown; rolls are unchanged by grouping.
+ */
+
+import { type Check, assertEqual } from "./harness";
+import { coreCtx, makeMemoryHost, makeRng, slot } from "./fixtures";
+import { checkAllSlots, getSlotStatus } from "../../src/core/engine";
+import type { DiceSlotConfig } from "../../src/types";
+
+/** A single d1 slot: always hits. */
+const sure = (name: string, extra: Partial<DiceSlotConfig> = {}) =>
+  slot({ name, type: "single", die: 1, target: 1, ...extra });
+
+export const checks: Check[] = [
+  {
+    name: "group: the highest-priority hit wins; the rest are suppressed and commit nothing",
+    fn: async () => {
+      const host = makeMemoryHost([
+        sure("a", { group: "g", priority: 1 }),
+        sure("b", { group: "g", priority: 3 }),
+        sure("c", { group: "g" }),
+      ]);
+      const r = await checkAllSlots(host, coreCtx("s"));
+      assertEqual(r.map((x) => [x.slotName, x.triggered, x.suppressedBy]), [
+        ["a", false, "b"],
+        ["b", true, undefined],
+        ["c", false, "b"],
+      ], "b wins");
+      assertEqual([...host._cooldown.keys()], ["b::s"], "only the winner is marked");
+      assertEqual(r[0].rolls, [1], "suppressed results keep their rolls");
+    },
+  },
+  {
+    name: "group: equal priorities go to the earliest registered; groups are independent",
+    fn: async () => {
+      const host = makeMemoryHost([sure("x1", { group: "x" }), sure("y1", { group: "y" }), sure("x2", { group: "x" }), sure("free")]);
+      const r = await checkAllSlots(host, coreCtx("s"));
+      assertEqual(r.map((x) => x.triggered), [true, true, false, true], "one per group, ungrouped untouched");
+      assertEqual(r[2].suppressedBy, "x1", "registry order breaks the tie");
+    },
+  },
+  {
+    name: "group: a suppressed accumulator keeps building instead of resetting",
+    fn: async () => {
+      const acc = slot({ name: "acc", die: 1, target: 1, accumulationRate: 1, group: "g", cooldown: "none" });
+      const host = makeMemoryHost([acc, sure("boss", { group: "g", priority: 9, cooldown: "none" })], {
+        state: { "acc::s": { depth_at_last_trigger: 2, last_reset: "" } },
+      });
+      const [r] = await checkAllSlots(host, coreCtx("s", 10));
+      assertEqual([r.triggered, r.suppressedBy], [false, "boss"], "suppressed");
+      assertEqual((await host.loadState("acc", "s")).depth_at_last_trigger, 2, "no reset");
+      assertEqual((await getSlotStatus(host, "acc", coreCtx("s", 10)))?.group, { name: "g", priority: 0 }, "status shows the group");
+    },
+  },
+  {
+    name: "group: grouping never changes the rolls; a miss by the favourite lets the next hit stand",
+    fn: async () => {
+      const pool = (group?: string) => [
+        slot({ name: "g_a", type: "single", die: 20, target: 20, targetMode: "lte", cooldown: "none", group, priority: 1 }),
+        slot({ name: "g_b", type: "accumulator", die: 20, target: 1, targetMode: "gte", cooldown: "none", group }),
+        slot({ name: "g_c", type: "fixed", die: 6, fixedCount: 2, target: 7, cooldown: "none", group, priority: 5 }),
+      ];
+      const plain = await checkAllSlots(makeMemoryHost(pool(), { rng: makeRng(777) }), coreCtx("s", 30));
+      const grouped = await checkAllSlots(makeMemoryHost(pool("g"), { rng: makeRng(777) }), coreCtx("s", 30));
+      assertEqual(grouped.map((r) => r.rolls), plain.map((r) => r.rolls), "identical rolls");
+      assertEqual(grouped.map((r) => [r.triggered, r.suppressedBy]), [
+        [true, undefined],
+        [false, "g_a"],
+        [false, undefined],
+      ], "g_c (priority 5) cannot hit a 7 on a d6, so g_a wins over g_b");
+    },
+  },
+];
@@ -0,0 +1,101 @@
+/**
+ * Roll history conformance: a host with appendHistory gets one record per slot
+ * after every check, with why a slot did not trigger (vetoed, suppressed, or
+ * skipped before rolling) and the depth when the check read it; replays record nothing; the JSONL
+ * store filters by session and slot, keeps the last records, and skips torn
+ * lines; and the Claude host logs each check under the base dir.
+ */
+
+import { type Check, assert, assertEqual, withTempBase } from "./harness";
+import { coreCtx, makeMemoryHost, slot } from "./fixtures";
+import { checkAllSlots, dryRunHost } from "../../src/core/engine";
+import { formatRecord, historyRecords } from "../../src/core/history";
+import { appendRollHistory, readRollHistory } from "../../src/history";
+import { checkAllSlots as facadeCheck, registerSlot } from "../../src/index";
+import type { DiceSlotConfig, RollRecord } from "../../src/types";
+import { appendFileSync, existsSync } from "fs";
+import { join } from "path";
+
+function recordingHost(slots: DiceSlotConfig[]) {
+  const log: { sessionId: string; records: RollRecord[] }[] = [];
+  const host = { ...makeMemoryHost(slots), appendHistory: async (sessionId: string, records: RollRecord[]) => void log.push({ sessionId, records }) };
+  return { host, log };
+}
+
+const record = (slotName: string, at: string): RollRecord => ({ at, depth: 1, slot: slotName, diceCount: 1, rolls: [4], probability: 5, triggered: false });
+
+export const checks: Check[] = [
+  {
+    name: "history: each check appends one record per slot, with depth and reasons",
+    fn: async () => {
+      const { host, log } = recordingHost([
+        slot({ name: "hit", type: "single", die: 1, target: 1, cooldown: "none", group: "g", priority: 1 }),
+        slot({ name: "lost", type: "single", die: 1, target: 1, cooldown: "none", group: "g" }),
+        slot({ name: "off", type: "single", die: 1, target: 1, enabled: false }),
+      ]);
+      const results = await checkAllSlots(host, coreCtx("s", 9));
+      assertEqual(log.length, 1, "one append per check");
+      assertEqual(log[0].sessionId, "s", "session");
+      const bySlot = new Map(log[0].records.map((r) => [r.slot, r]));
+      assertEqual(log[0].records.map((r) => r.depth), [undefined, undefined, undefined], "depth left out when nothing read it");
+      assertEqual([bySlot.get("hit")!.triggered, bySlot.get("hit")!.reason, bySlot.get("hit")!.rolls], [true, undefined, [1]], "the hit");
+      assertEqual([bySlot.get("lost")!.triggered, bySlot.get("lost")!.reason], [false, "suppressed by hit"], "suppressed");
+      assertEqual([bySlot.get("off")!.diceCount, bySlot.get("off")!.reason], [0, "paused"], "skipped before rolling");
+      assertEqual(results.find((r) => r.slotName === "off")!.skipped, "paused", "the result says why too");
+      assert(!Number.isNaN(Date.parse(log[0].records[0].at)), "ISO timestamp");
+    },
+  },
+  {
+    name: "history: records the depth only when the check read it",
+    fn: async () => {
+      let reads = 0;
+      const single = recordingHost([slot({ name: "a", type: "single", die: 20, target: 20, cooldown: "none" })]);
+      await checkAllSlots(single.host, { sessionId: "s", getCurrentDepth: async () => (reads++, 9) });
+      assertEqual([reads, single.log[0].records[0].depth], [0, undefined], "a single slot never reads the transcript");
+      const acc = recordingHost([slot({ name: "acc", cooldown: "none" }), slot({ name: "b", type: "single", cooldown: "none" })]);
+      await checkAllSlots(acc.host, { sessionId: "s", getCurrentDepth: async () => (reads++, 9) });
+      assertEqual([reads, acc.log[0].records.map((r) => r.depth)], [1, [9, 9]], "read once by the accumulator, recorded for every slot");
+    },
+  },
+  {
+    name: "history: replays and hosts without appendHistory record nothing",
+    fn: async () => {
+      const { host, log } = recordingHost([slot({ name: "a", type: "single", die: 1, target: 1 })]);
+      await checkAllSlots(dryRunHost(host), coreCtx("s", 2));
+      assertEqual(log.length, 0, "dry run");
+      let reads = 0;
+      const plain = makeMemoryHost([slot({ name: "a", type: "single", die: 1, target: 1 })]);
+      await checkAllSlots(plain, { sessionId: "s", getCurrentDepth: async () => (reads++, 2) });
+      assertEqual(reads, 0, "no history, no depth read for a single slot");
+      assertEqual(historyRecords([], "t", 0), [], "no results, no records");
+    },
+  },
+  {
+    name: "history: the JSONL store filters by session and slot and keeps the last records",
+    fn: () =>
+      withTempBase(async (base) => {
+        appendRollHistory(base, "s1", [record("a", "2026-01-01T00:00:01.000Z"), record("b", "2026-01-01T00:00:03.000Z")]);
+        appendRollHistory(base, "s2", [record("a", "2026-01-01T00:00:02.000Z")]);
+        appendRollHistory(base, "../escape", [record("a", "2026-01-01T00:00:04.000Z")]);
+        appendFileSync(join(base, "history", "s1.jsonl"), '{"at": "2026-01-01T00:0');
+        assertEqual(readRollHistory(base).map((r) => `${r.session}/${r.slot}`), ["s1/a", "s2/a", "s1/b"], "every session, oldest first, torn line skipped");
+        assertEqual(readRollHistory(base, { session: "s1" }).map((r) => r.slot), ["a", "b"], "one session");
+        assertEqual(readRollHistory(base, { slot: "a" }).map((r) => r.session), ["s1", "s2"], "one slot");
+        assertEqual(readRollHistory(base, { limit: 1 }).map((r) => r.slot), ["b"], "last records");
+        assertEqual(readRollHistory(base, { session: "none" }), [], "unknown session");
+        assertEqual(formatRecord(record("a", "T")), "T depth 1 a: 1 die [4] (5%)", "formatted");
+      }),
+  },
+  {
+    name: "history: the Claude host logs each check under <base>/history",
+    fn: () =>
+      withTempBase(async (base) => {
+        await registerSlot(slot({ name: "sure", type: "single", die: 1, target: 1 }));
+        await facadeCheck({ sessionId: "s" });
+        await facadeCheck({ sessionId: "s" });
+        assert(existsSync(join(base, "history", "s.jsonl")), "file per session");
+        const records = readRollHistory(base, { session: "s" });
+        assertEqual(records.map((r) => [r.triggered, r.reason]), [[true, undefined], [false, "cooldown"]], "hit, then cooled down");
+      }),
+  },
+];
@@ -0,0 +1,77 @@
+/**
+ * Success-counting conformance: minHits triggering, the binomial-tail odds
+ * (checked against brute-force enumeration), and hits in results and status.
+ */
+
+import { type Check, assert, assertEqual } from "./harness";
+import { coreCtx, makeMemoryHost, makeRng, slot } from "./fixtures";
+import { calculateProbability, checkTarget, countHits } from "../../src/roll";
+import { checkAllSlots, getSlotStatus } from "../../src/core/engine";
+import { applyPlaceholders, renderTrigger } from "../../src/adapters/claude-renderer";
+
+/** Brute-force P(at least k of count dN meet >= target), as 0-100. */
+function bruteTail(count: number, die: number, target: number, k: number): number {
+  const total = Math.pow(die, count);
+  let ok = 0;
+  for (let i = 0; i < total; i++) {
+    let x = i;
+    let hits = 0;
+    for (let d = 0; d < count; d++) {
+      if ((x % die) + 1 >= target) hits++;
+      x = Math.floor(x / die);
+    }
+    if (hits >= k) ok++;
+  }
+  return Math.round((ok / total) * 10000) / 100;
+}
+
+export const checks: Check[] = [
+  {
+    name: "hits: minHits requires K matching dice; 1 keeps any-match behaviour",
+    fn: () => {
+      assertEqual(countHits([8, 3, 10, 9], 8, "gte"), 3, "three dice >= 8");
+      assert(checkTarget([8, 3, 10, 9], 8, "gte", 3), "3 hits meet minHits 3");
+      assert(!checkTarget([8, 3, 10, 1], 8, "gte", 3), "2 hits miss minHits 3");
+      assertEqual(checkTarget([1, 20], [1, 20], "exact", 2), true, "face sets count each matching die");
+      assertEqual(checkTarget([8, 3], 8, "gte", 1), checkTarget([8, 3], 8, "gte"), "minHits 1 is the default");
+    },
+  },
+  {
+    name: "hits: odds are the binomial tail, matching brute force",
+    fn: () => {
+      assertEqual(calculateProbability(5, 10, 8, "gte", { minHits: 3 }), bruteTail(5, 10, 8, 3), "5d10, 3+ of >= 8");
+      assertEqual(calculateProbability(4, 6, 6, "exact", { minHits: 2 }), bruteTail(4, 6, 6, 2), "4d6, two or more sixes");
+      assertEqual(calculateProbability(3, 20, 20, "exact", { minHits: 3 }), 0.01, "three nat 20s: 1/8000");
+      assertEqual(calculateProbability(2, 6, 6, "exact", { minHits: 3 }), 0, "more hits than dice is impossible");
+      assertEqual(calculateProbability(4, 6, 5, "gte", { minHits: 1 }), calculateProbability(4, 6, 5, "gte"), "minHits 1 = any-match");
+    },
+  },
+  {
+    name: "hits: exploding chains can add hits",
+    fn: () => {
+      // A d2 that explodes on 2, target 2: each chain is 1, or 2 then more.
+      const p = calculateProbability(1, 2, 2, "exact", { explodeDepth: 1, minHits: 2 });
+      assertEqual(p, 25, "2 then 2 (depth cap 1): 1/2 x 1/2");
+    },
+  },
+  {
+    name: "hits: engine reports hits; status, {hits}, and flavor surface them",
+    fn: async () => {
+      const config = slot({ name: "wod", type: "fixed", die: 10, fixedCount: 6, target: 6, targetMode: "gte", minHits: 2, cooldown: "none" });
+      const host = makeMemoryHost([config], { rng: makeRng(4) });
+      const [r] = await checkAllSlots(host, coreCtx("s"));
+      assertEqual(r.hits, countHits(r.rolls, 6, "gte"), "hits counted");
+      assertEqual(r.triggered, (r.hits ?? 0) >= 2, "trigger needs two hits");
+      assertEqual(r.probability, bruteTail(6, 10, 6, 2), "result odds are the tail");
+      const st = await getSlotStatus(host, "wod", coreCtx("s"));
+      assertEqual(st?.minHits, 2, "status reports minHits");
+      assertEqual(applyPlaceholders("{hits} hits", r), `${r.hits} hits`, "{hits} placeholder");
+      if (r.triggered) assert(renderTrigger(r, config).startsWith(`🎲 ${r.hits} hits on 6d10!`), "hits flavor");
+
+      const plain = slot({ name: "p", type: "fixed", die: 6, fixedCount: 3, target: 4, targetMode: "gte", cooldown: "none" });
+      const [q] = await checkAllSlots(makeMemoryHost([plain], { rng: makeRng(4) }), coreCtx("s"));
+      assertEqual(q.hits, undefined, "plain slots leave hits unset");
+      assertEqual(applyPlaceholders("{hits}", q, plain), String(countHits(q.rolls, 4, "gte")), "{hits} recounts with the slot");
+    },
+  },
+];
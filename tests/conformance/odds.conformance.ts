@@ -0,0 +1,75 @@
+/**
+ * Odds conformance: slotOdds reproduces the accumulator's closed-form curve,
+ * applies reset-on-trigger and cooldowns to later turns, is exact for pity
+ * timers, schedules, and decks, agrees with simulating the real engine, and
+ * describeOdds phrases the median and 90th percentile.
+ */
+
+import { type Check, assert, assertEqual } from "./harness";
+import { slot } from "./fixtures";
+import { describeOdds, slotOdds } from "../../src/core/odds";
+import { simulate } from "../../src/core/simulate";
+
+const near = (a: number, b: number, tol: number, what: string) => assert(Math.abs(a - b) <= tol, `${what}: ${a} vs ${b}`);
+
+export const checks: Check[] = [
+  {
+    name: "odds: a default accumulator's dice, chances, and percentiles",
+    fn: () => {
+      const odds = slotOdds(slot({ name: "acc" }), 40);
+      assertEqual([6, 7, 13, 14].map((d) => odds.rows[d - 1].dice), [0, 1, 1, 2], "dice from computeAccumulator");
+      near(odds.rows[6].chance, 5, 1e-9, "one d20 at depth 7");
+      near(odds.rows[12].cumulative, 100 * (1 - 0.95 ** 7), 1e-9, "by depth 13");
+      near(odds.rows[13].chance, 9.75, 1e-9, "two dice at depth 14");
+      assertEqual([odds.median, odds.p90], [17, 28], "percentiles");
+      assertEqual(describeOdds(odds), "about 50% by turn 17, 90% by turn 28", "described");
+      assertEqual(describeOdds(slotOdds(slot({ name: "acc" }), 10)), "19% within 10 turns", "out of reach");
+    },
+  },
+  {
+    name: "odds: resets and cooldowns shape later turns, not the first trigger",
+    fn: () => {
+      const once = slotOdds(slot({ name: "once", type: "single" }), 60);
+      const again = slotOdds(slot({ name: "again", type: "single", cooldown: "none" }), 60);
+      assertEqual(once.rows.map((r) => r.cumulative), again.rows.map((r) => r.cumulative), "same first trigger");
+      near(once.expectedTriggers, once.rows[59].cumulative / 100, 1e-9, "per-session: at most one");
+      near(again.expectedTriggers, 3, 1e-9, "none: 5% of 60 turns");
+      const capped = slotOdds(slot({ name: "capped", type: "single", cooldown: "max:2" }), 200);
+      assert(capped.expectedTriggers < 2 && capped.expectedTriggers > 1.99, `max:2 caps triggers: ${capped.expectedTriggers}`);
+      const spaced = slotOdds(slot({ name: "spaced", type: "single", die: 1, target: 1, cooldown: "turns:2" }), 7);
+      assertEqual(spaced.rows.map((r) => r.turnChance), [100, 0, 0, 100, 0, 0, 100], "turns:2 silences the next two depths");
+      const kept = slotOdds(slot({ name: "kept", cooldown: "none", resetOnTrigger: false }), 30);
+      const reset = slotOdds(slot({ name: "reset", cooldown: "none" }), 30);
+      assert(kept.rows[29].turnChance > reset.rows[29].turnChance, "without reset the dice keep piling up");
+    },
+  },
+  {
+    name: "odds: pity timers, schedules, and decks are exact",
+    fn: () => {
+      const pity = slotOdds(slot({ name: "pity", type: "single", guaranteeAfter: 10 }), 12);
+      assertEqual([pity.rows[9].chance, pity.rows[9].cumulative, pity.rows[10].turnChance], [100, 100, 0], "forced at 10, then cooled down");
+      const refractory = { shape: "linear" as const, slope: 10 };
+      const held = slotOdds(slot({ name: "held", type: "single", die: 1, target: 1, cooldown: "none", guaranteeAfter: 1, refractory }), 4);
+      assertEqual(held.rows.map((r) => r.turnChance), [100, 100, 100, 100], "pity overrides a dropped refractory hit");
+      const every = slotOdds(slot({ name: "every", type: "scheduled", every: 10, cooldown: "none" }), 21);
+      assertEqual([9, 10, 11, 20].map((d) => every.rows[d - 1].turnChance), [0, 100, 0, 100], "fires on schedule");
+      const deck = slotOdds(slot({ name: "deck", type: "deck", deckSize: 10, deckHits: 2, cooldown: "none" }), 10);
+      near(deck.rows[0].chance, 20, 1e-9, "2 hits in 10 cards");
+      near(deck.rows[8].cumulative, 100, 1e-9, "a hit within 9 draws");
+      near(deck.expectedTriggers, 2, 1e-9, "both hits in one pass");
+    },
+  },
+  {
+    name: "odds: agree with simulating the engine",
+    fn: async () => {
+      const config = slot({ name: "acc", cooldown: "turns:5", guaranteeAfter: 25 });
+      const odds = slotOdds(config, 40);
+      const [sim] = (await simulate([config], { turns: 40, runs: 3000, seed: "odds" })).slots;
+      near(sim.triggersPerRun, odds.expectedTriggers, 0.08, "expected triggers");
+      for (const d of [10, 20, 30, 40]) near(sim.cumulative[d - 1], odds.rows[d - 1].cumulative, 3, `cumulative at ${d}`);
+      const soft = slot({ name: "soft", type: "single", cooldown: "none", guaranteeAfter: 6, refractory: { shape: "linear", slope: 10 } });
+      const [softSim] = (await simulate([soft], { turns: 40, runs: 3000, seed: "odds" })).slots;
+      near(softSim.triggersPerRun, slotOdds(soft, 40).expectedTriggers, 0.1, "pity with a refractory curve");
+    },
+  },
+];
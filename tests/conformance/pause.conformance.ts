@@ -0,0 +1,77 @@
+/**
+ * Pause conformance: disabling or snoozing a slot (for a time, or for one
+ * session) rewrites its config; a paused slot gets 0 dice and draws no RNG, so
+ * the slots it shares a check with roll exactly as if it were gone; an expired
+ * or other-session snooze is inert; resume strips it; the facade saves it.
+ */
+
+import { type Check, assertEqual, withTempBase } from "./harness";
+import { coreCtx, makeMemoryHost, makeRng, slot } from "./fixtures";
+import { pausedConfig, resumedConfig, pauseStatus, formatPause } from "../../src/core/pause";
+import { checkAllSlots, getSlotStatus } from "../../src/core/engine";
+import { registerSlot, getSlot } from "../../src/registry";
+import { pauseSlot, resumeSlot } from "../../src/index";
+
+const NOW = Date.parse("2026-01-01T00:00:00.000Z");
+const HOUR = 3_600_000;
+
+export const checks: Check[] = [
+  {
+    name: "pause: off, for a time, for a session; resume strips it",
+    fn: () => {
+      const base = slot({ name: "p" });
+      const off = pausedConfig(base, { kind: "off" }, "s", NOW);
+      assertEqual([off.enabled, pauseStatus(off, "s", NOW)], [false, { disabled: true }], "off");
+      const snoozed = pausedConfig(off, { kind: "for", ms: 2 * HOUR }, "s", NOW);
+      assertEqual([snoozed.enabled, snoozed.paused], [undefined, { until: "2026-01-01T02:00:00.000Z" }], "for replaces off");
+      assertEqual([pauseStatus(snoozed, "s", NOW + HOUR), pauseStatus(snoozed, "s", NOW + 2 * HOUR)], [{ until: "2026-01-01T02:00:00.000Z" }, undefined], "expires");
+      const session = pausedConfig(base, { kind: "session" }, "s", NOW);
+      assertEqual([pauseStatus(session, "s", NOW), pauseStatus(session, "other", NOW)], [{ session: "s" }, undefined], "this session only");
+      assertEqual(resumedConfig(snoozed), base, "resume");
+      assertEqual(
+        [formatPause({ disabled: true }), formatPause({ until: "2026-01-01T02:00:00.000Z" }), formatPause({ session: "s" })],
+        ["disabled", "paused until 2026-01-01T02:00:00.000Z", "paused this session"],
+        "formatPause"
+      );
+    },
+  },
+  {
+    name: "pause: a paused slot draws no RNG, so the others roll as if it were gone",
+    fn: async () => {
+      const others = [
+        slot({ name: "a", type: "single", die: 20, target: 20, targetMode: "lte", cooldown: "none" }),
+        slot({ name: "b", type: "accumulator", die: 20, target: 19, targetMode: "gte", cooldown: "none" }),
+      ];
+      const quiet = pausedConfig(slot({ name: "q", type: "fixed", fixedCount: 3, cooldown: "none" }), { kind: "off" }, "s", NOW);
+      const plain = await checkAllSlots(makeMemoryHost(others, { rng: makeRng(777) }), coreCtx("s", 30));
+      const host = makeMemoryHost([quiet, ...others], { rng: makeRng(777) });
+      const results = await checkAllSlots(host, coreCtx("s", 30));
+      const byName = (n: string) => results.find((r) => r.slotName === n)!;
+      assertEqual(["a", "b"].map((n) => byName(n).rolls), plain.map((r) => r.rolls), "identical rolls");
+      assertEqual([byName("q").diceCount, byName("q").triggered], [0, false], "paused: 0 dice");
+      const status = await getSlotStatus(host, "q", coreCtx("s", 30));
+      assertEqual([status?.paused, status?.probability], [{ disabled: true }, 0], "status");
+    },
+  },
+  {
+    name: "pause: a session snooze silences only that session",
+    fn: async () => {
+      const config = pausedConfig(slot({ name: "q", type: "fixed", fixedCount: 2, cooldown: "none" }), { kind: "session" }, "s", NOW);
+      const host = makeMemoryHost([config]);
+      assertEqual((await checkAllSlots(host, coreCtx("s")))[0].diceCount, 0, "snoozed here");
+      assertEqual((await checkAllSlots(host, coreCtx("other")))[0].diceCount, 2, "live elsewhere");
+    },
+  },
+  {
+    name: "pause: pauseSlot / resumeSlot save through the registry",
+    fn: () =>
+      withTempBase(async () => {
+        await registerSlot(slot({ name: "p" }));
+        const paused = await pauseSlot("p", { kind: "session" }, { sessionId: "s" });
+        assertEqual([paused?.paused, (await getSlot("p"))?.paused], [{ session: "s" }, { session: "s" }], "saved");
+        await resumeSlot("p");
+        assertEqual((await getSlot("p"))?.paused, undefined, "snooze gone");
+        assertEqual([await pauseSlot("ghost", { kind: "off" }), await resumeSlot("ghost")], [null, null], "missing slot");
+      }),
+  },
+];
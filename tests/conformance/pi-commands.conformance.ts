@@ -43,10 +43,10 @@ export const checks: Check[] = [
       withTempBase(async () => {
         const dice = capture();
         const out: Array<{ text: string; type?: string }> = [];
-        await dice('register t --die 1 --target 1 --type single --message "go {best}"', ctx("s", out));
-        assert(out.at(-1)?.text.includes("Registered: t (single, d1, target=1 exact)"), `register: ${out.at(-1)?.text}`);
+        await dice('register t --die 2 --target 1,2 --type single --message "go {best}"', ctx("s", out));
+        assert(out.at(-1)?.text.includes("Registered: t (single, d2, target=1,2 exact)"), `register: ${out.at(-1)?.text}`);
         await dice("list", ctx("s", out));
-        assert(out.at(-1)?.text.includes("t (single, 1-sided"), `list: ${out.at(-1)?.text}`);
+        assert(out.at(-1)?.text.includes("t (single, 2-sided"), `list: ${out.at(-1)?.text}`);
         await dice("status t", ctx("s", out));
         assert(out.at(-1)?.text.includes("Slot: t (single)"), `status: ${out.at(-1)?.text}`);
       }),
@@ -57,9 +57,9 @@ export const checks: Check[] = [
       withTempBase(async () => {
         const dice = capture();
         const out: Array<{ text: string; type?: string }> = [];
-        await dice('register t --die 1 --target 1 --type single --message "m"', ctx("s", out));
+        await dice('register t --die 2 --target 1,2 --type single --message "m"', ctx("s", out));
         await dice("roll t", ctx("s", out));
-        assert(out.at(-1)?.text.includes("t: 1d1 = [1] (best: 1, 100%) TRIGGERED!"), `roll: ${out.at(-1)?.text}`);
+        assert(/t: 1d2 = \[([12])\] \(best: \1, 100%\) TRIGGERED!/.test(out.at(-1)!.text), `roll: ${out.at(-1)?.text}`);
         await dice("reset ghost", ctx("s", out));
         assertEqual(out.at(-1)?.text, "Slot not found: ghost", "reset missing → not-found");
         assertEqual(out.at(-1)?.type, "error", "reported as error");
@@ -67,6 +67,125 @@ export const checks: Check[] = [
         assertEqual(out.at(-1)?.text, "Slot not found: ghost", "clear missing → not-found");
       }),
   },
+  {
+    name: "/dice register: face-set and range targets persist and list",
+    fn: () =>
+      withTempBase(async () => {
+        const { getSlot } = await import("../../src/adapters/pi/store");
+        const dice = capture();
+        const out: Array<{ text: string; type?: string }> = [];
+        await dice("register edge --type single --target 1,20", ctx("s", out));
+        assert(out.at(-1)?.text.includes("target=1,20 exact"), `register: ${out.at(-1)?.text}`);
+        assertEqual((await getSlot("edge"))?.target, [1, 20], "face set persisted as an array");
+        await dice("register mid --type single --target 12..14", ctx("s", out));
+        assertEqual((await getSlot("mid"))?.target, { min: 12, max: 14 }, "range persisted as min/max");
+        await dice("list", ctx("s", out));
+        assert(out.at(-1)?.text.includes("mid (single, 20-sided, target=12..14"), `list: ${out.at(-1)?.text}`);
+      }),
+  },
+  {
+    name: "/dice register: sum modes accept totals past the die size and roll a sum",
+    fn: () =>
+      withTempBase(async () => {
+        const dice = capture();
+        const out: Array<{ text: string; type?: string }> = [];
+        await dice("register press --type fixed --fixed-count 3 --die 2 --target 3 --target-mode sum-gte", ctx("s", out));
+        assert(out.at(-1)?.text.includes("target=3 sum-gte"), `register: ${out.at(-1)?.text}`);
+        await dice("roll press", ctx("s", out));
+        assert(/press: 3d2 = \[[12], [12], [12]\] \(sum: [3-6], 100%\) TRIGGERED!/.test(out.at(-1)!.text), `roll: ${out.at(-1)?.text}`);
+        await dice("register nope --target-mode sum-most", ctx("s", out));
+        assert(out.at(-1)?.type === "error" && /Invalid target mode "sum-most"/.test(out.at(-1)!.text), `bad mode rejected: ${out.at(-1)?.text}`);
+      }),
+  },
+  {
+    name: "/dice register: --min-hits counts hits in roll and status",
+    fn: () =>
+      withTempBase(async () => {
+        const dice = capture();
+        const out: Array<{ text: string; type?: string }> = [];
+        await dice("register wod --type fixed --fixed-count 3 --die 2 --target 1..2 --min-hits 2", ctx("s", out));
+        await dice("roll wod", ctx("s", out));
+        assert(/wod: 3d2 = \[[12], [12], [12]\] \(hits: 3\/2, 100%\) TRIGGERED!/.test(out.at(-1)!.text), `roll: ${out.at(-1)?.text}`);
+        await dice("status wod", ctx("s", out));
+        assert(out.at(-1)?.text.includes("Min hits:      2 of 3 dice"), `status: ${out.at(-1)?.text}`);
+        await dice("register one --type single --min-hits 2", ctx("s", out));
+        assert(out.at(-1)?.type === "error" && /Invalid --min-hits/.test(out.at(-1)!.text), `single rejected: ${out.at(-1)?.text}`);
+      }),
+  },
+  {
+    name: "/dice register: --faces rolls labels and picks the face's message",
+    fn: () =>
+      withTempBase(async () => {
+        const { getSlot } = await import("../../src/adapters/pi/store");
+        const dice = capture();
+        const out: Array<{ text: string; type?: string }> = [];
+        await dice('register topic --type single --faces docs,docs --face-message "docs=write the docs"', ctx("s", out));
+        assert(out.at(-1)?.text.includes("d[docs,docs]"), `register: ${out.at(-1)?.text}`);
+        assertEqual((await getSlot("topic"))?.faceMessages, { docs: "write the docs" }, "face message persisted");
+        await dice("roll topic", ctx("s", out));
+        assert(out.at(-1)?.text.includes("topic: 1d[docs,docs] = [docs] (face: docs, 100%) TRIGGERED!"), `roll: ${out.at(-1)?.text}`);
+        await dice("register bad --faces a,b --weights 1", ctx("s", out));
+        assert(out.at(-1)?.type === "error" && /Invalid --weights/.test(out.at(-1)!.text), `weights: ${out.at(-1)?.text}`);
+        await dice("register bad --faces a,b --target c", ctx("s", out));
+        assert(out.at(-1)?.type === "error" && /Invalid --target/.test(out.at(-1)!.text), `target: ${out.at(-1)?.text}`);
+        await dice("register bad --faces a,b --face-message c=x", ctx("s", out));
+        assert(out.at(-1)?.type === "error" && /Invalid --face-message/.test(out.at(-1)!.text), `message: ${out.at(-1)?.text}`);
+        assertEqual(await getSlot("bad"), null, "invalid custom dice not persisted");
+      }),
+  },
+  {
+    name: "/dice register: --type deck shows cards left and next-draw odds",
+    fn: () =>
+      withTempBase(async () => {
+        const { getSlot } = await import("../../src/adapters/pi/store");
+        const dice = capture();
+        const out: Array<{ text: string; type?: string }> = [];
+        await dice("register bag --type deck --deck-size 10 --deck-hits 2", ctx("s", out));
+        assert(out.at(-1)?.text.includes("deck 2/10"), `register: ${out.at(-1)?.text}`);
+        assertEqual((await getSlot("bag"))?.cooldown, "none", "deck slots default to no cooldown");
+        await dice("status bag", ctx("s", out));
+        assert(out.at(-1)?.text.includes("Cards left:    10 (2 hits)") && out.at(-1)?.text.includes("20%"), `status: ${out.at(-1)?.text}`);
+        await dice("roll bag", ctx("s", out));
+        assert(/^bag: drew a (hit|miss), 9 cards left \(20%\)/.test(out.at(-1)?.text ?? ""), `roll: ${out.at(-1)?.text}`);
+        await dice("register bad --type deck --deck-size 2 --deck-hits 3", ctx("s", out));
+        assert(out.at(-1)?.type === "error" && /Invalid --deck-hits/.test(out.at(-1)!.text), `hits > size: ${out.at(-1)?.text}`);
+        await dice("register bad --type single --deck-size 5", ctx("s", out));
+        assert(out.at(-1)?.type === "error" && /needs --type deck/.test(out.at(-1)!.text), `non-deck: ${out.at(-1)?.text}`);
+      }),
+  },
+  {
+    name: "/dice register: --curve shows the curve and its crossings in status",
+    fn: () =>
+      withTempBase(async () => {
+        const dice = capture();
+        const out: Array<{ text: string; type?: string }> = [];
+        await dice("register ramp --curve linear:slope=2,ceiling=40 --curve-marks 10,50", ctx("s", out));
+        assert(out.at(-1)?.text.includes("curve linear:ceiling=40,slope=2"), `register: ${out.at(-1)?.text}`);
+        await dice("status ramp", ctx("s", out));
+        const status = out.at(-1)?.text ?? "";
+        assert(status.includes("Reaches 10%:   depth 5") && status.includes("Reaches 50%:   never"), `status: ${status}`);
+        await dice("register bad --type fixed --curve linear", ctx("s", out));
+        assert(out.at(-1)?.type === "error" && /accumulator slots only/.test(out.at(-1)!.text), `fixed: ${out.at(-1)?.text}`);
+        await dice("register bad --curve cubic", ctx("s", out));
+        assert(out.at(-1)?.type === "error" && /Invalid curve/.test(out.at(-1)!.text), `shape: ${out.at(-1)?.text}`);
+      }),
+  },
+  {
+    name: "/dice register: --guarantee-after shows the pity depth in status",
+    fn: () =>
+      withTempBase(async () => {
+        const dice = capture();
+        const out: Array<{ text: string; type?: string }> = [];
+        await dice("register pity --type single --guarantee-after 3", ctx("s", out));
+        assert(out.at(-1)?.type !== "error", `register: ${out.at(-1)?.text}`);
+        await dice("status pity", ctx("s", out));
+        assert(out.at(-1)?.text.includes("Guaranteed at: depth 3"), `status: ${out.at(-1)?.text}`);
+        await dice("register bad --type fixed --guarantee-after 3", ctx("s", out));
+        assert(out.at(-1)?.type === "error" && /accumulator or single/.test(out.at(-1)!.text), `fixed: ${out.at(-1)?.text}`);
+        await dice("register bad --guarantee-after 3 --no-reset-on-trigger", ctx("s", out));
+        assert(out.at(-1)?.type === "error" && /--no-reset-on-trigger/.test(out.at(-1)!.text), `no reset: ${out.at(-1)?.text}`);
+      }),
+  },
   {
     name: "/dice: missing name and unknown subcommand are handled",
     fn: () =>
@@ -87,13 +206,23 @@ export const checks: Check[] = [
         const dice = capture();
         const out: Array<{ text: string; type?: string }> = [];
         await dice("register bad1 --die abc", ctx("s", out));
-        assert(out.at(-1)?.type === "error" && /Invalid --die/.test(out.at(-1)!.text), `NaN die rejected: ${out.at(-1)?.text}`);
+        assert(out.at(-1)?.type === "error" && /Invalid die size NaN/.test(out.at(-1)!.text), `NaN die rejected: ${out.at(-1)?.text}`);
         assertEqual(await getSlot("bad1"), null, "corrupt slot not persisted");
+        for (const size of ["0", "-3", "1"]) {
+          await dice(`register bad1 --die ${size} --target 1`, ctx("s", out));
+          assert(out.at(-1)?.type === "error" && out.at(-1)!.text.includes(`Invalid die size ${size}`), `--die ${size} rejected: ${out.at(-1)?.text}`);
+        }
+        assertEqual(await getSlot("bad1"), null, "undersized die not persisted");
         await dice("register bad2 --cooldown bogus", ctx("s", out));
         assert(out.at(-1)?.type === "error" && /Invalid --cooldown/.test(out.at(-1)!.text), `bad enum rejected: ${out.at(-1)?.text}`);
         assertEqual(await getSlot("bad2"), null, "bad-enum slot not persisted");
         await dice("register bad3 --die 6 --target 20", ctx("s", out));
         assert(out.at(-1)?.type === "error" && /exceeds die size/.test(out.at(-1)!.text), `target>die rejected: ${out.at(-1)?.text}`);
+        await dice("register bad4 --die 6 --target 1..9", ctx("s", out));
+        assert(out.at(-1)?.type === "error" && /9 exceeds die size 6/.test(out.at(-1)!.text), `range past die rejected: ${out.at(-1)?.text}`);
+        await dice("register bad5 --target 1,x", ctx("s", out));
+        assert(out.at(-1)?.type === "error" && /Invalid --target/.test(out.at(-1)!.text), `malformed face list rejected: ${out.at(-1)?.text}`);
+        assertEqual(await getSlot("bad5"), null, "malformed-target slot not persisted");
       }),
   },
 ];
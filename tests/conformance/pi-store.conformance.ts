@@ -18,9 +18,11 @@ import {
   clearState,
   getStateFile,
   hasCooldown,
+  loadCooldown,
   markTriggered,
   clearCooldown,
 } from "../../src/adapters/pi/store";
+import { loadCooldown as claudeLoadCooldown } from "../../src/cooldown";
 import { createPiHost, piContext } from "../../src/adapters/pi/host";
 import * as engine from "../../src/core/engine";
 import { SLOT_DEFAULTS as PI_DEFAULTS } from "../../src/adapters/pi/store";
@@ -62,6 +64,20 @@ export const checks: Check[] = [
         assert(!(await hasCooldown("p1", "sessA")), "clearCooldown removes it");
       }),
   },
+  {
+    name: "pi-store: cooldown markers are JSON both stores read alike; legacy bare timestamps still load",
+    fn: () =>
+      withTempBase(async (base) => {
+        const marker = { triggeredAt: "2026-01-01T00:00:00.000Z", depth: 12, count: 3 };
+        await markTriggered("p1", "sessA", marker);
+        assertEqual(JSON.parse(await Bun.file(join(base, "state", "triggered-p1-sessA")).text()), marker, "JSON on disk");
+        assertEqual(await claudeLoadCooldown("p1", "sessA"), marker, "the Claude store reads the Pi marker");
+
+        await Bun.write(join(base, "state", "triggered-p2-sessA"), "2025-01-01");
+        assertEqual(await loadCooldown("p2", "sessA"), { triggeredAt: "2025-01-01", count: 1 }, "legacy marker = one trigger");
+        assertEqual(await loadCooldown("p3", "sessA"), null, "no marker → null");
+      }),
+  },
   {
     name: "pi-store: corrupted slots.json / state fall back (registry → {}, state → default)",
     fn: () =>
@@ -62,6 +62,97 @@ export const checks: Check[] = [
         assertEqual(await getSlot("bad"), null, "invalid slot not persisted");
       }),
   },
+  {
+    name: "register_dice: a die under two sides is rejected before its target",
+    fn: () =>
+      withTempBase(async () => {
+        const tools = captureTools();
+        for (const die of [0, 1, -3]) {
+          const r = await tools.register_dice.execute("1", { name: "bad", message: "m", die, target: 1 }, undefined, undefined, ctx());
+          assert(out(r).includes(`invalid die size ${die}: must be a whole number >= 2`), `die ${die}: ${out(r)}`);
+        }
+        assertEqual(await getSlot("bad"), null, "invalid slot not persisted");
+      }),
+  },
+  {
+    name: "register_dice: face-set targets are accepted and validated against the die",
+    fn: () =>
+      withTempBase(async () => {
+        const tools = captureTools();
+        const ok = await tools.register_dice.execute("1", { name: "edge", message: "m", type: "single", target: [1, 20] }, undefined, undefined, ctx());
+        assert(/target 1,20 exact/.test(out(ok)), `result: ${out(ok)}`);
+        assertEqual((await getSlot("edge"))?.target, [1, 20], "face set persisted");
+        const bad = await tools.register_dice.execute("2", { name: "bad", message: "m", die: 6, target: { min: 5, max: 8 } }, undefined, undefined, ctx());
+        assert(/exceeds die size/.test(out(bad)), `result: ${out(bad)}`);
+        assertEqual(await getSlot("bad"), null, "invalid range not persisted");
+      }),
+  },
+  {
+    name: "register_dice: advantage persists and is refused for expression slots",
+    fn: () =>
+      withTempBase(async () => {
+        const tools = captureTools();
+        const ok = await tools.register_dice.execute("1", { name: "lucky", message: "m", type: "single", advantage: "advantage" }, undefined, undefined, ctx());
+        assert(/d20 advantage/.test(out(ok)), `result: ${out(ok)}`);
+        assertEqual((await getSlot("lucky"))?.advantage, "advantage", "advantage persisted");
+        const bad = await tools.register_dice.execute(
+          "2",
+          { name: "bad", message: "m", type: "expression", expression: "2d6", advantage: "disadvantage" },
+          undefined,
+          undefined,
+          ctx()
+        );
+        assert(/does not apply to expression/.test(out(bad)), `result: ${out(bad)}`);
+        assertEqual(await getSlot("bad"), null, "advantage expression not persisted");
+      }),
+  },
+  {
+    name: "register_dice: label faces map targets and faceMessages; stray labels are refused",
+    fn: () =>
+      withTempBase(async () => {
+        const tools = captureTools();
+        const ok = await tools.register_dice.execute(
+          "1",
+          { name: "topic", message: "m", type: "single", faces: ["refactor", "test", "docs"], weights: [1, 1, 2], target: ["docs"], faceMessages: { docs: "write docs" } },
+          undefined,
+          undefined,
+          ctx()
+        );
+        assert(/d\[refactor,test,docs\]/.test(out(ok)), `result: ${out(ok)}`);
+        const saved = await getSlot("topic");
+        assertEqual([saved?.die, saved?.target, saved?.weights], [3, [3], [1, 1, 2]], "die size, label target, and weights persisted");
+        const bad = await tools.register_dice.execute("2", { name: "bad", message: "m", faces: ["a", "b"], target: ["c"] }, undefined, undefined, ctx());
+        assert(/must name faces/.test(out(bad)), `result: ${out(bad)}`);
+        const stray = await tools.register_dice.execute("3", { name: "bad", message: "m", faces: ["a"], faceMessages: { z: "?" } }, undefined, undefined, ctx());
+        assert(/not a face/.test(out(stray)), `result: ${out(stray)}`);
+        assertEqual(await getSlot("bad"), null, "invalid custom dice not persisted");
+      }),
+  },
+  {
+    name: "register_dice: scheduled slots default to no cooldown and list their next depth",
+    fn: () =>
+      withTempBase(async () => {
+        const tools = captureTools();
+        await tools.register_dice.execute("1", { name: "sync", message: "m", type: "scheduled", every: 10 }, undefined, undefined, ctx());
+        const slot = await getSlot("sync");
+        assertEqual([slot?.every, slot?.cooldown], [10, "none"], "schedule persisted, cooldown none");
+        const listed = out(await tools.list_dice.execute("2", {}, undefined, undefined, ctx()));
+        assert(listed.includes("sync: scheduled every 10 — next at depth 10"), `list: ${listed}`);
+        const bad = await tools.register_dice.execute("3", { name: "bad", message: "m", type: "scheduled" }, undefined, undefined, ctx());
+        assert(/needs every or atDepths/.test(out(bad)) && !(await getSlot("bad")), `empty schedule: ${out(bad)}`);
+      }),
+  },
+  {
+    name: "register_dice: a refractory curve replaces the per-session lockout by default",
+    fn: () =>
+      withTempBase(async () => {
+        const tools = captureTools();
+        const refractory = { shape: "linear" as const, slope: 10 };
+        await tools.register_dice.execute("1", { name: "soft", message: "m", type: "single", refractory }, undefined, undefined, ctx());
+        await tools.register_dice.execute("2", { name: "both", message: "m", type: "single", refractory, cooldown: "turns:3" }, undefined, undefined, ctx());
+        assertEqual([(await getSlot("soft"))?.cooldown, (await getSlot("both"))?.cooldown], ["none", "turns:3"], "default none, explicit kept");
+      }),
+  },
   {
     name: "register_dice: an invalid slot name fails gracefully (no throw)",
     fn: () =>
@@ -79,7 +170,11 @@ export const checks: Check[] = [
         await tools.register_dice.execute("1", { name: "rf", message: "m", type: "single", die: 20, target: 1 }, undefined, undefined, ctx());
         const listed = await tools.list_dice.execute("2", {}, undefined, undefined, ctx());
         assert(/rf:/.test(out(listed)) && /dice/.test(out(listed)), `list: ${out(listed)}`);
-        const removed = await tools.remove_dice.execute("3", { name: "rf" }, undefined, undefined, ctx());
+        assert(/about 50% by turn 14, 90% by turn 45 from a fresh session/.test(out(listed)), `odds: ${out(listed)}`);
+        await tools.register_dice.execute("3", { name: "slow", message: "m", type: "single", die: 100, target: 1 }, undefined, undefined, ctx());
+        const slow = await tools.list_dice.execute("4", {}, undefined, undefined, ctx());
+        assert(/slow:.*39% within 50 turns from a fresh session/.test(out(slow)), `short horizon: ${out(slow)}`);
+        const removed = await tools.remove_dice.execute("5", { name: "rf" }, undefined, undefined, ctx());
         assert(/Removed dice slot "rf"/.test(out(removed)), `remove: ${out(removed)}`);
         assertEqual(await getSlot("rf"), null, "slot gone after remove_dice");
       }),
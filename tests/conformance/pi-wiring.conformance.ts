@@ -55,6 +55,36 @@ export const checks: Check[] = [
         assert(await hasCooldown("t", "s"), "trigger wrote a cooldown marker");
       }),
   },
+  {
+    name: "pi-wiring: agent_end delivers nudges in priority order, one per exclusion group",
+    fn: () =>
+      withTempBase(async () => {
+        const d1 = { die: 1, target: 1, targetMode: "exact" as const, type: "single" as const };
+        registerSlot({ name: "low", ...d1, onTrigger: { message: "low" } });
+        registerSlot({ name: "high", ...d1, priority: 5, onTrigger: { message: "high" } });
+        registerSlot({ name: "g_a", ...d1, group: "g", priority: 1, onTrigger: { message: "g_a" } });
+        registerSlot({ name: "g_b", ...d1, group: "g", priority: 2, onTrigger: { message: "g_b" } });
+        const m = mockPi();
+        ccDice(m.pi);
+        await m.handlers["agent_end"]({ messages: [] }, ctx("s"));
+        assertEqual(m.sent.map((x) => String(x.content).replace("🎲 Nat 1! ", "")), ["high", "g_b", "low"], "priority order, g_a suppressed");
+        assert(!(await hasCooldown("g_a", "s")), "the suppressed slot wrote no cooldown");
+      }),
+  },
+  {
+    name: "pi-wiring: a veto hit delivers nothing — neither its own message nor the ones it blocked",
+    fn: () =>
+      withTempBase(async () => {
+        const d1 = { die: 1, target: 1, targetMode: "exact" as const, type: "single" as const };
+        registerSlot({ name: "nudge", ...d1, onTrigger: { message: "nudge" } });
+        registerSlot({ name: "hold", ...d1, cooldown: "none", veto: true, onTrigger: { message: "hold" } });
+        const m = mockPi();
+        ccDice(m.pi);
+        await m.handlers["agent_end"]({ messages: [] }, ctx("s"));
+        assertEqual(m.sent.length, 0, "nothing sent");
+        assert(!(await hasCooldown("nudge", "s")), "the vetoed slot wrote no cooldown");
+      }),
+  },
   {
     name: "pi-wiring: depth comes from session user-message count (NOT per-prompt turnIndex) — review #1",
     fn: () =>
@@ -0,0 +1,111 @@
+/**
+ * Pity-timer conformance: `guaranteeAfter` forces a trigger once a slot has gone
+ * N depth units without one, without changing RNG consumption or pool rolls;
+ * cooldown still wins, single slots track their own trigger depth, and forced
+ * triggers render without dice flavor.
+ */
+
+import { type Check, assertEqual } from "./harness";
+import { coreCtx, makeMemoryHost, makeRng, slot } from "./fixtures";
+import { checkAllSlots, getSlotStatus, previewSlot } from "../../src/core/engine";
+import { renderTrigger } from "../../src/adapters/claude-renderer";
+
+/** An RNG that always rolls a 1 and counts its calls. */
+function ones(): { rng: () => number; calls: () => number } {
+  let n = 0;
+  return { rng: () => (n++, 0), calls: () => n };
+}
+
+export const checks: Check[] = [
+  {
+    name: "pity: an accumulator is forced to trigger once guaranteeAfter turns pass",
+    fn: async () => {
+      const config = slot({ name: "p", accumulationRate: 1, guaranteeAfter: 5, cooldown: "none" });
+      const early = await checkAllSlots(makeMemoryHost([config], { rng: () => 0 }), coreCtx("s", 4));
+      assertEqual([early[0].triggered, early[0].forced], [false, undefined], "4 quiet turns: still rolling");
+
+      const host = makeMemoryHost([config], { rng: () => 0 });
+      const [r] = await checkAllSlots(host, coreCtx("s", 5));
+      assertEqual([r.triggered, r.forced, r.probability, r.diceCount], [true, "pity", 100, 5], "5 quiet turns: forced");
+      assertEqual(r.rolls, [1, 1, 1, 1, 1], "the dice were still rolled");
+      assertEqual((await host.loadState("p", "s")).depth_at_last_trigger, 5, "a pity trigger resets like any trigger");
+    },
+  },
+  {
+    name: "pity: a natural hit is not marked forced; zero-dice turns can still be forced",
+    fn: async () => {
+      const config = slot({ name: "p", accumulationRate: 1, guaranteeAfter: 3, cooldown: "none" });
+      const [hit] = await checkAllSlots(makeMemoryHost([config], { rng: () => 0.99 }), coreCtx("s", 3));
+      assertEqual([hit.triggered, hit.forced], [true, undefined], "rolled a 20 on its own");
+
+      const slow = slot({ name: "q", accumulationRate: 7, guaranteeAfter: 3, cooldown: "none" });
+      const r = ones();
+      const [forced] = await checkAllSlots(makeMemoryHost([slow], { rng: r.rng }), coreCtx("s", 3));
+      assertEqual([forced.triggered, forced.forced, forced.diceCount, forced.rolls], [true, "pity", 0, []], "forced with no dice");
+      assertEqual(r.calls(), 0, "nothing rolled");
+    },
+  },
+  {
+    name: "pity: shared-pool rolls and RNG draws are unchanged by a due pity timer",
+    fn: async () => {
+      const pool = (guaranteeAfter?: number) => [
+        slot({ name: "g_a", type: "single", die: 20, target: 20, cooldown: "none", guaranteeAfter }),
+        slot({ name: "g_b", type: "accumulator", die: 20, target: 19, targetMode: "gte", cooldown: "none", guaranteeAfter }),
+        slot({ name: "g_c", type: "fixed", die: 6, fixedCount: 2, target: 6, cooldown: "none" }),
+      ];
+      const plain = await checkAllSlots(makeMemoryHost(pool(), { rng: makeRng(777) }), coreCtx("s", 30));
+      const pity = await checkAllSlots(makeMemoryHost(pool(1), { rng: makeRng(777) }), coreCtx("s", 30));
+      assertEqual(pity.map((r) => r.rolls), plain.map((r) => r.rolls), "identical rolls");
+      assertEqual(pity.map((r) => r.triggered), [true, true, plain[2].triggered], "both pity slots fire");
+    },
+  },
+  {
+    name: "pity: a cooled-down slot is never forced",
+    fn: async () => {
+      const config = slot({ name: "p", type: "single", guaranteeAfter: 1 });
+      const host = makeMemoryHost([config], { rng: () => 0 });
+      await host.markTriggered("p", "s");
+      const [r] = await checkAllSlots(host, coreCtx("s", 50));
+      assertEqual([r.triggered, r.forced, r.diceCount], [false, undefined, 0], "cooldown gate wins");
+    },
+  },
+  {
+    name: "pity: single slots count quiet turns from their own last trigger",
+    fn: async () => {
+      const config = slot({ name: "p", type: "single", guaranteeAfter: 3, cooldown: "none" });
+      const host = makeMemoryHost([config], { rng: () => 0.99, state: { "p::s": { depth_at_last_trigger: -1, last_reset: "" } } });
+      const [natural] = await checkAllSlots(host, coreCtx("s", 10));
+      assertEqual([natural.triggered, natural.forced], [true, undefined], "a natural 20 after calibration");
+      assertEqual((await host.loadState("p", "s")).depth_at_last_trigger, 10, "the trigger depth is saved");
+
+      host.rng = () => 0;
+      assertEqual((await checkAllSlots(host, coreCtx("s", 12)))[0].triggered, false, "2 quiet turns");
+      const [forced] = await checkAllSlots(host, coreCtx("s", 13));
+      assertEqual([forced.triggered, forced.forced], [true, "pity"], "3 quiet turns");
+      assertEqual((await host.loadState("p", "s")).depth_at_last_trigger, 13, "the forced trigger restarts the count");
+    },
+  },
+  {
+    name: "pity: status reports the pity depth and certain odds once due; preview agrees",
+    fn: async () => {
+      const config = slot({ name: "p", type: "single", guaranteeAfter: 8 });
+      const host = makeMemoryHost([config], { state: { "p::s": { depth_at_last_trigger: 4, last_reset: "" } } });
+      const before = await getSlotStatus(host, "p", coreCtx("s", 10));
+      assertEqual([before?.guaranteeAt, before?.probability], [12, 5], "due at depth 12, 1d20 odds until then");
+      const due = await getSlotStatus(host, "p", coreCtx("s", 12));
+      assertEqual([due?.guaranteeAt, due?.probability], [12, 100], "due now");
+      assertEqual(previewSlot(config, 1, () => 0, { depthSinceTrigger: 8 }).forced, "pity", "preview forces when due");
+      assertEqual((await getSlotStatus(host, "p", coreCtx("s", 12)))?.depthSinceTrigger, 8, "status does not trigger");
+      assertEqual((await getSlotStatus(makeMemoryHost([slot({ name: "f", type: "fixed" })]), "f", coreCtx("s")))?.guaranteeAt, undefined, "unset without guaranteeAfter");
+    },
+  },
+  {
+    name: "pity: forced triggers render the message without dice flavor",
+    fn: async () => {
+      const config = slot({ name: "p", type: "single", guaranteeAfter: 1, cooldown: "none", onTrigger: { message: "take a break" } });
+      const [r] = await checkAllSlots(makeMemoryHost([config], { rng: () => 0 }), coreCtx("s", 1));
+      assertEqual(renderTrigger(r, config), "take a break", "no 'Nat 1' for a pity trigger");
+      assertEqual(renderTrigger({ ...r, forced: undefined, best: 20 }, config), "🎲 Nat 20! take a break", "natural triggers keep the flavor");
+    },
+  },
+];
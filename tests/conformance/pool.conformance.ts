@@ -0,0 +1,68 @@
+/**
+ * Pool conformance: by default every slot rolling the same die shares one base
+ * roll (unchanged grouping and RNG order for existing configs); `pool` names a
+ * pool that shares only within itself, or makes a slot `independent`. Named
+ * pools must agree on the die, and `list` shows who shares with whom.
+ */
+
+import { type Check, assert, assertEqual } from "./harness";
+import { coreCtx, makeMemoryHost, makeRng, slot } from "./fixtures";
+import { poolError, poolKey, poolLabel, poolMates } from "../../src/core/pool";
+import { checkAllSlots } from "../../src/core/engine";
+import type { DiceResult } from "../../src/types";
+
+const byName = (results: DiceResult[], name: string) => results.find((r) => r.slotName === name)!;
+
+/** Two single d20 slots claiming opposite faces; shared, they can never both hit. */
+const low = slot({ name: "low", type: "single", target: 10, targetMode: "lte", cooldown: "none" });
+const high = slot({ name: "high", type: "single", target: 11, targetMode: "gte", cooldown: "none" });
+
+export const checks: Check[] = [
+  {
+    name: "pool: keys default to the die; named pools and independent slots split off",
+    fn: () => {
+      assertEqual([poolKey(low), poolKey(slot({ name: "f", faces: [1, 2, 2] }))], ["d20", "faces:[[1,2,2],null]"], "default keys unchanged");
+      assertEqual(poolKey({ ...low, pool: "mine" }), "pool:mine:d20", "named pool");
+      assert(poolKey({ ...low, pool: "independent" }) !== poolKey({ ...high, pool: "independent" }), "independent slots never share");
+      const slots = [low, high, { ...low, name: "solo", pool: "independent" }, { ...low, name: "n1", pool: "mine" }, { ...high, name: "n2", pool: "mine" }];
+      assertEqual(Object.fromEntries(poolMates(slots)), { low: ["high"], high: ["low"], solo: [], n1: ["n2"], n2: ["n1"] }, "mates");
+      assertEqual([poolLabel(low), poolLabel(slots[2]), poolLabel(slots[3])], ["d20", "independent", "mine"], "labels");
+    },
+  },
+  {
+    name: "pool: validation",
+    fn: () => {
+      const d6 = slot({ name: "six", die: 6, target: 6, pool: "mine" });
+      assertEqual(poolError({ ...low, pool: "mine" }, [d6]), `pool "mine" already rolls d6 (slot six); this slot rolls d20`, "one die per named pool");
+      assertEqual(poolError({ ...low, pool: "mine" }, [{ ...d6, die: 20 }]), null, "same die");
+      assertEqual(poolError({ ...low, pool: "independent" }, [d6]), null, "independent");
+      assertEqual(poolError(slot({ name: "e", type: "expression", expression: "2d6", pool: "x" }), []), "pool applies to dice slots (not expression, deck, scheduled, or curve slots)", "not a dice slot");
+      assertEqual(poolError({ ...low, pool: "../x" }, []), `pool "../x" must start with alphanumeric, contain only [a-zA-Z0-9_-]`, "path-safe");
+    },
+  },
+  {
+    name: "pool: shared slots see one base roll; independent ones each draw their own",
+    fn: async () => {
+      let calls = 0;
+      const counting = (rng: () => number) => () => (calls++, rng());
+      const shared = await checkAllSlots(makeMemoryHost([low, high], { rng: counting(makeRng(777)) }), coreCtx("s"));
+      assertEqual([calls, byName(shared, "low").rolls[0] === byName(shared, "high").rolls[0]], [1, true], "one draw, one roll");
+      assertEqual(shared.filter((r) => r.triggered).length, 1, "mutually exclusive");
+
+      calls = 0;
+      const split = [low, { ...high, pool: "independent" }];
+      const results = await checkAllSlots(makeMemoryHost(split, { rng: counting(makeRng(777)) }), coreCtx("s"));
+      assertEqual([calls, byName(results, "low").rolls], [2, byName(shared, "low").rolls], "two draws; the first pool's roll unchanged");
+    },
+  },
+  {
+    name: "pool: slots in a named pool share only with each other",
+    fn: async () => {
+      const slots = [low, { ...low, name: "a", pool: "mine" }, { ...high, name: "b", pool: "mine" }, high];
+      const results = await checkAllSlots(makeMemoryHost(slots, { rng: makeRng(3) }), coreCtx("s"));
+      assertEqual(byName(results, "a").rolls, byName(results, "b").rolls, "pool members agree");
+      assertEqual(byName(results, "low").rolls, byName(results, "high").rolls, "the d20 default pool agrees");
+      assertEqual(results.map((r) => r.slotName), ["low", "high", "a", "b"], "pools roll in first-seen order");
+    },
+  },
+];
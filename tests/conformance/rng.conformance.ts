@@ -0,0 +1,77 @@
+/**
+ * RNG provider conformance: the seeded PRNG is deterministic and exported; a
+ * seeded host draws each pool and unpooled slot from its own stream keyed by
+ * session, depth, and stream name, so a stop replays exactly and unrelated
+ * slots do not disturb each other; the provider is chosen by AGENT_DICE_RNG,
+ * then config.json, then math; and explainCheck replays without saving.
+ */
+
+import { type Check, assert, assertEqual, withTempBase } from "./harness";
+import { coreCtx, makeMemoryHost, makeRng, slot } from "./fixtures";
+import { hashSeed, mulberry32, parseRngProvider, rngSeed, seededRng } from "../../src/core/rng";
+import { cryptoRandom, providerRng, resolveRngProvider, saveRngProvider } from "../../src/rng";
+import { checkAllSlots } from "../../src/core/engine";
+import { explainCheck, registerSlot, hasCooldown } from "../../src/index";
+import { readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+
+const draws = (rng: () => number, n: number) => Array.from({ length: n }, rng);
+
+export const checks: Check[] = [
+  {
+    name: "rng: the seeded PRNG is deterministic per seed",
+    fn: () => {
+      assertEqual(draws(mulberry32(777), 5), draws(makeRng(777), 5), "mulberry32");
+      assertEqual(draws(seededRng("s:3:pool:d20"), 4), draws(seededRng("s:3:pool:d20"), 4), "same seed, same stream");
+      assert(seededRng("s:3:pool:d20")() !== seededRng("s:4:pool:d20")(), "depth changes the stream");
+      assertEqual([hashSeed(""), hashSeed("a")], [0x811c9dc5, 0xe40c292c], "FNV-1a");
+      assertEqual(rngSeed("s", 3, "pool:d20"), "s:3:pool:d20", "seed layout");
+      assertEqual([parseRngProvider(" Seeded "), parseRngProvider("dev/urandom")], ["seeded", null], "providers");
+      assert(draws(cryptoRandom, 20).every((x) => x >= 0 && x < 1), "crypto floats in [0, 1)");
+    },
+  },
+  {
+    name: "rng: a seeded check replays exactly, and streams keep slots apart",
+    fn: async () => {
+      const acc = slot({ name: "acc", accumulationRate: 2, cooldown: "none" });
+      const six = slot({ name: "six", type: "fixed", die: 6, fixedCount: 3, target: 6, cooldown: "none" });
+      const seeded = (slots: typeof acc[]) => ({ ...makeMemoryHost(slots), ...providerRng("seeded") });
+      const first = await checkAllSlots(seeded([acc, six]), coreCtx("s", 12));
+      const again = await checkAllSlots(seeded([acc, six]), coreCtx("s", 12));
+      assertEqual(again.map((r) => r.rolls), first.map((r) => r.rolls), "same session and depth: same dice");
+      const alone = await checkAllSlots(seeded([six]), coreCtx("s", 12));
+      assertEqual(alone[0].rolls, first.find((r) => r.slotName === "six")!.rolls, "other pools don't shift a slot's dice");
+      const later = await checkAllSlots(seeded([acc, six]), coreCtx("s", 13));
+      assert(JSON.stringify(later.map((r) => r.rolls)) !== JSON.stringify(first.map((r) => r.rolls)), "the next depth rolls anew");
+    },
+  },
+  {
+    name: "rng: AGENT_DICE_RNG, then config.json, then math",
+    fn: () =>
+      withTempBase(async (base) => {
+        assertEqual(resolveRngProvider(base, {}), { provider: "math", source: "default" }, "default");
+        writeFileSync(join(base, "config.json"), JSON.stringify({ other: 1 }));
+        saveRngProvider(base, "seeded");
+        assertEqual(JSON.parse(readFileSync(join(base, "config.json"), "utf-8")), { other: 1, rng: "seeded" }, "saved beside other settings");
+        assertEqual(resolveRngProvider(base, {}), { provider: "seeded", source: "config" }, "config");
+        assertEqual(resolveRngProvider(base, { AGENT_DICE_RNG: "crypto" }), { provider: "crypto", source: "env" }, "env wins");
+        assertEqual(resolveRngProvider(base, { AGENT_DICE_RNG: "nope" }).provider, "math", "a typo falls back to math");
+        assertEqual([Object.keys(providerRng("math")), Object.keys(providerRng("crypto")), Object.keys(providerRng("seeded"))], [[], ["rng"], ["rngFor"]], "host members");
+      }),
+  },
+  {
+    name: "rng: explainCheck replays the seeded stop without saving anything",
+    fn: () =>
+      withTempBase(async (base) => {
+        await registerSlot(slot({ name: "sure", type: "single", die: 1, target: 1 }));
+        let threw = false;
+        await explainCheck({ sessionId: "s", depth: 3 }).catch(() => (threw = true));
+        assert(threw, "math provider: nothing to replay");
+
+        saveRngProvider(base, "seeded");
+        const replay = await explainCheck({ sessionId: "s", depth: 3 });
+        assertEqual([replay.sessionId, replay.depth, replay.results[0].triggered], ["s", 3, true], "replayed");
+        assertEqual(await hasCooldown("sure", "s"), false, "nothing committed");
+      }),
+  },
+];
@@ -0,0 +1,151 @@
+/**
+ * Roll math conformance: target matching, trigger values, and the probability
+ * formulas behind `calculateProbability`. Sum-mode slots are also checked through
+ * the engine and renderer. No fs.
+ */
+
+import { type Check, assert, assertEqual } from "./harness";
+import { coreCtx, makeMemoryHost, makeRng, slot } from "./fixtures";
+import { checkAllSlots } from "../../src/core/engine";
+import { applyPlaceholders, renderTrigger } from "../../src/adapters/claude-renderer";
+import {
+  checkTarget,
+  findTriggerValue,
+  calculateProbability,
+  parseTarget,
+  formatTarget,
+  targetError,
+} from "../../src/roll";
+
+/** Brute-force P(sum of count dN matches) by enumerating every outcome, as 0-100. */
+function bruteSum(count: number, die: number, match: (sum: number) => boolean): number {
+  const total = Math.pow(die, count);
+  let hits = 0;
+  for (let i = 0; i < total; i++) {
+    let x = i;
+    let sum = 0;
+    for (let d = 0; d < count; d++) {
+      sum += (x % die) + 1;
+      x = Math.floor(x / die);
+    }
+    if (match(sum)) hits++;
+  }
+  return Math.round((hits / total) * 10000) / 100;
+}
+
+export const checks: Check[] = [
+  {
+    name: "targets: face set matches any listed face, ignoring targetMode",
+    fn: () => {
+      assert(checkTarget([7, 1], [1, 20], "exact"), "1 is in {1, 20}");
+      assert(checkTarget([20], [1, 20], "gte"), "20 is in {1, 20} (mode ignored)");
+      assert(!checkTarget([2, 19], [1, 20], "exact"), "neither 2 nor 19 is in {1, 20}");
+      assertEqual(findTriggerValue([1, 9, 20], [1, 20], "exact"), 20, "highest qualifying face");
+    },
+  },
+  {
+    name: "targets: closed range matches inclusively",
+    fn: () => {
+      const range = { min: 12, max: 14 };
+      assert(checkTarget([3, 12], range, "exact"), "12 is in 12..14");
+      assert(checkTarget([14], range, "exact"), "14 is in 12..14");
+      assert(!checkTarget([11, 15], range, "exact"), "11 and 15 are outside 12..14");
+      assertEqual(findTriggerValue([13, 12, 20], range, "exact"), 13, "highest qualifying face in range");
+      assertEqual(findTriggerValue([20], range, "exact"), undefined, "no qualifying face");
+    },
+  },
+  {
+    name: "targets: probability counts the matching faces (sets dedupe, ranges clip to the die)",
+    fn: () => {
+      assertEqual(calculateProbability(1, 20, [1, 20], "exact"), 10, "2 of 20 faces");
+      assertEqual(calculateProbability(1, 20, [1, 1, 20], "exact"), 10, "duplicate faces count once");
+      assertEqual(calculateProbability(1, 20, { min: 12, max: 14 }, "exact"), 15, "3 of 20 faces");
+      assertEqual(calculateProbability(2, 20, [1, 20], "exact"), 19, "1 - 0.9^2");
+      assertEqual(calculateProbability(1, 6, { min: 5, max: 9 }, "exact"), 33.33, "range clipped to faces 5-6");
+    },
+  },
+  {
+    name: "targets: single-number probability is unchanged",
+    fn: () => {
+      assertEqual(calculateProbability(1, 20, 20, "exact"), 5, "1d20 exact");
+      assertEqual(calculateProbability(1, 20, 15, "gte"), 30, "1d20 >= 15");
+      assertEqual(calculateProbability(1, 20, 2, "lte"), 10, "1d20 <= 2");
+    },
+  },
+  {
+    name: "targets: parseTarget / formatTarget round-trip the CLI syntax",
+    fn: () => {
+      assertEqual(parseTarget("20"), 20, "single face");
+      assertEqual(parseTarget("1,20"), [1, 20], "face list");
+      assertEqual(parseTarget(" 12..14 "), { min: 12, max: 14 }, "range");
+      for (const bad of ["abc", "", "1,x", "14..12", "1.5"]) {
+        assertEqual(parseTarget(bad), null, `"${bad}" is rejected`);
+      }
+      for (const text of ["20", "1,20", "12..14"]) {
+        assertEqual(formatTarget(parseTarget(text)!), text, `${text} round-trips`);
+      }
+    },
+  },
+  {
+    name: "targets: targetError flags faces off the die",
+    fn: () => {
+      assertEqual(targetError(20, 20), null, "20 on a d20 is fine");
+      assertEqual(targetError([1, 20], 20), null, "face set on the die is fine");
+      assertEqual(targetError(20, 6), "20 exceeds die size 6", "single face too large");
+      assertEqual(targetError({ min: 5, max: 9 }, 6), "9 exceeds die size 6", "range end too large");
+      assertEqual(targetError([0, 3], 6), "faces must be integers >= 1", "face 0 rejected");
+    },
+  },
+  {
+    name: "sum modes: compare the pool total, not any single die",
+    fn: () => {
+      assert(checkTarget([3, 4, 5], 12, "sum-gte"), "3+4+5 = 12 >= 12");
+      assert(!checkTarget([6, 5], 12, "sum-gte"), "6+5 = 11 < 12, though a die is high");
+      assert(checkTarget([1, 2], 3, "sum-lte"), "1+2 <= 3");
+      assert(checkTarget([2, 5], 7, "sum-exact"), "2+5 = 7");
+      assert(checkTarget([7], 7, "sum-exact"), "one die sums to itself");
+      assert(checkTarget([4, 5], { min: 8, max: 10 }, "sum-exact"), "sum 9 is in 8..10");
+      assertEqual(findTriggerValue([3, 4, 5], 10, "sum-gte"), 12, "trigger value is the total");
+      assertEqual(findTriggerValue([1, 1], 10, "sum-gte"), undefined, "no trigger value on a miss");
+    },
+  },
+  {
+    name: "sum modes: convolution probability matches brute-force enumeration",
+    fn: () => {
+      assertEqual(calculateProbability(2, 6, 7, "sum-exact"), bruteSum(2, 6, (s) => s === 7), "2d6 = 7");
+      assertEqual(calculateProbability(2, 6, 7, "sum-exact"), 16.67, "2d6 = 7 is 6/36");
+      assertEqual(calculateProbability(3, 6, 15, "sum-gte"), bruteSum(3, 6, (s) => s >= 15), "3d6 >= 15");
+      assertEqual(calculateProbability(4, 4, 6, "sum-lte"), bruteSum(4, 4, (s) => s <= 6), "4d4 <= 6");
+      assertEqual(calculateProbability(3, 8, [3, 24], "sum-exact"), bruteSum(3, 8, (s) => s === 3 || s === 24), "3d8 in {3, 24}");
+      assertEqual(calculateProbability(1, 20, 15, "sum-gte"), calculateProbability(1, 20, 15, "gte"), "one die: sum == face");
+      assert(
+        calculateProbability(4, 6, 18, "sum-gte") > calculateProbability(3, 6, 18, "sum-gte"),
+        "sum-gte odds rise with dice count"
+      );
+    },
+  },
+  {
+    name: "sum modes: targetError without a die size only checks face validity",
+    fn: () => {
+      assertEqual(targetError(40), null, "a total past any one face is fine");
+      assertEqual(targetError(0), "faces must be integers >= 1", "still rejects 0");
+    },
+  },
+  {
+    name: "sum modes: engine reports the total; {sum} and flavor render it",
+    fn: async () => {
+      const config = slot({ name: "press", type: "fixed", die: 6, fixedCount: 4, target: 4, targetMode: "sum-gte", cooldown: "none" });
+      const [r] = await checkAllSlots(makeMemoryHost([config], { rng: makeRng(5) }), coreCtx("s"));
+      assertEqual(r.total, r.rolls.reduce((a, b) => a + b, 0), "total = sum of rolls");
+      assert(r.triggered, "4d6 always sums to >= 4");
+      assertEqual(r.triggerValue, r.total, "trigger value is the total");
+      assertEqual(applyPlaceholders("sum={sum}", r), `sum=${r.total}`, "{sum} placeholder");
+      assertEqual(renderTrigger(r, { ...config, onTrigger: { message: "m" } }), `🎲 4d6 → ${r.total}! m`, "sum flavor");
+
+      const perDie = slot({ name: "face", type: "fixed", die: 6, fixedCount: 2, target: 6, cooldown: "none" });
+      const [p] = await checkAllSlots(makeMemoryHost([perDie], { rng: makeRng(5) }), coreCtx("s"));
+      assertEqual(p.total, undefined, "per-die modes leave total unset");
+      assertEqual(applyPlaceholders("{sum}", p), String(p.rolls[0] + p.rolls[1]), "{sum} still sums the rolls");
+    },
+  },
+];
@@ -0,0 +1,116 @@
+/**
+ * Schedule conformance: `scheduled` slots fire deterministically every N turns
+ * or at listed depths, once per scheduled depth (skipped depths catch up on the
+ * next check), draw no RNG, report the next scheduled depth in status, and
+ * default to no cooldown from every entry point.
+ */
+
+import { type Check, assertEqual, withTempBase } from "./harness";
+import { coreCtx, makeMemoryHost, makeRng, slot } from "./fixtures";
+import { scheduleDue, nextScheduledDepth, parseDepthList, scheduleError, formatSchedule } from "../../src/core/schedule";
+import { checkAllSlots, getSlotStatus, previewSlot } from "../../src/core/engine";
+import { renderTrigger } from "../../src/adapters/claude-renderer";
+import { registerSlot } from "../../src/registry";
+import { registerSlot as piRegisterSlot } from "../../src/adapters/pi/store";
+
+/** An RNG that counts its calls. */
+function counted(): { rng: () => number; calls: () => number } {
+  let n = 0;
+  return { rng: () => (n++, 0.5), calls: () => n };
+}
+
+export const checks: Check[] = [
+  {
+    name: "schedule: due once per scheduled depth since the last fire; next depth after any depth",
+    fn: () => {
+      const every = { every: 10 };
+      assertEqual([scheduleDue(every, 0, 9), scheduleDue(every, 0, 10), scheduleDue(every, 10, 10)], [false, true, false], "fires at 10, once");
+      assertEqual(scheduleDue(every, 10, 25), true, "20 was skipped between checks: fires at 25");
+      assertEqual([nextScheduledDepth(every, 10), nextScheduledDepth(every, 25)], [20, 30], "next multiple");
+
+      const list = { atDepths: [10, 25, 50] };
+      assertEqual([scheduleDue(list, 0, 24), scheduleDue(list, 10, 24), scheduleDue(list, 10, 25)], [true, false, true], "listed depths");
+      assertEqual([nextScheduledDepth(list, 25), nextScheduledDepth(list, 50)], [50, null], "the list runs out");
+
+      const both = { every: 20, atDepths: [5] };
+      assertEqual([nextScheduledDepth(both, 0), nextScheduledDepth(both, 5)], [5, 20], "every and atDepths combine");
+    },
+  },
+  {
+    name: "schedule: parsing, validation, and formatting",
+    fn: () => {
+      assertEqual(parseDepthList(" 50,10, 25,10 "), [10, 25, 50], "sorted and de-duplicated");
+      for (const bad of ["", "0", "10,x", "2.5", "-3"]) assertEqual(parseDepthList(bad), null, `"${bad}" is rejected`);
+      assertEqual(scheduleError({}), "needs every or atDepths", "empty schedule");
+      assertEqual(scheduleError({ every: 0 }), "every must be an integer >= 1", "every 0");
+      assertEqual(scheduleError({ atDepths: [3, 1.5] }), "atDepths must be integers >= 1", "fractional depth");
+      assertEqual(scheduleError({ every: 7 }), null, "valid");
+      assertEqual([formatSchedule({ every: 10 }), formatSchedule({ atDepths: [10, 25] }), formatSchedule({ every: 20, atDepths: [5] })], [
+        "every 10",
+        "at 10,25",
+        "every 20 + at 5",
+      ], "formatSchedule");
+    },
+  },
+  {
+    name: "schedule: the engine fires at scheduled depths without drawing any RNG",
+    fn: async () => {
+      const config = slot({ name: "sync", type: "scheduled", every: 10, cooldown: "none", onTrigger: { message: "sync up" } });
+      const r = counted();
+      const host = makeMemoryHost([config], { rng: r.rng });
+      const [quiet] = await checkAllSlots(host, coreCtx("s", 9));
+      assertEqual([quiet.triggered, quiet.diceCount, quiet.probability], [false, 0, 0], "depth 9: nothing");
+      const [fired] = await checkAllSlots(host, coreCtx("s", 10));
+      assertEqual([fired.triggered, fired.forced, fired.probability, fired.rolls], [true, "scheduled", 100, []], "depth 10: fires");
+      assertEqual(renderTrigger(fired, config), "sync up", "no dice flavor");
+      assertEqual((await checkAllSlots(host, coreCtx("s", 10)))[0].triggered, false, "a second check at depth 10 does not re-fire");
+      assertEqual((await checkAllSlots(host, coreCtx("s", 23)))[0].triggered, true, "skipped 20 fires at 23");
+      assertEqual(r.calls(), 0, "no RNG drawn");
+    },
+  },
+  {
+    name: "schedule: scheduled slots leave shared-pool rolls unchanged; cooldown still gates them",
+    fn: async () => {
+      const pool = [
+        slot({ name: "g_a", type: "single", die: 20, target: 20, cooldown: "none" }),
+        slot({ name: "g_b", type: "accumulator", die: 20, target: 19, targetMode: "gte", cooldown: "none" }),
+      ];
+      const scheduled = slot({ name: "sync", type: "scheduled", atDepths: [30], cooldown: "none" });
+      const without = await checkAllSlots(makeMemoryHost(pool, { rng: makeRng(777) }), coreCtx("s", 30));
+      const withSchedule = await checkAllSlots(makeMemoryHost([scheduled, ...pool], { rng: makeRng(777) }), coreCtx("s", 30));
+      assertEqual(withSchedule.filter((r) => r.slotName !== "sync"), without, "pool results identical");
+
+      const once = slot({ name: "once", type: "scheduled", every: 5, cooldown: "per-session" });
+      const host = makeMemoryHost([once]);
+      assertEqual((await checkAllSlots(host, coreCtx("s", 5)))[0].triggered, true, "first fire");
+      assertEqual((await checkAllSlots(host, coreCtx("s", 10)))[0].triggered, false, "per-session cooldown holds it back");
+    },
+  },
+  {
+    name: "schedule: status reports the schedule and next depth; preview agrees",
+    fn: async () => {
+      const config = slot({ name: "m", type: "scheduled", atDepths: [10, 25], cooldown: "none" });
+      const host = makeMemoryHost([config], { state: { "m::s": { depth_at_last_trigger: 10, last_reset: "" } } });
+      const before = await getSlotStatus(host, "m", coreCtx("s", 12));
+      assertEqual([before?.schedule, before?.probability], [{ spec: "at 10,25", nextAt: 25 }, 0], "next at 25");
+      const due = await getSlotStatus(host, "m", coreCtx("s", 26));
+      assertEqual([due?.schedule?.nextAt, due?.probability], [26, 100], "overdue: fires on the next check");
+      assertEqual(previewSlot(config, 0, undefined, { currentDepth: 26, depthSinceTrigger: 16 }).forced, "scheduled", "preview fires");
+      assertEqual(previewSlot(config, 0, undefined, { currentDepth: 12, depthSinceTrigger: 2 }).triggered, false, "preview waits");
+
+      await checkAllSlots(host, coreCtx("s", 26));
+      assertEqual((await getSlotStatus(host, "m", coreCtx("s", 30)))?.schedule?.nextAt, null, "schedule finished");
+    },
+  },
+  {
+    name: "schedule: the library registries default scheduled slots to no cooldown",
+    fn: () =>
+      withTempBase(async () => {
+        const base = { die: 20, target: 20, onTrigger: { message: "m" } };
+        assertEqual((await registerSlot({ ...base, name: "sync", type: "scheduled", every: 10 })).cooldown, "none", "registerSlot");
+        assertEqual(piRegisterSlot({ ...base, name: "pisync", type: "scheduled", every: 10 }).cooldown, "none", "Pi store");
+        assertEqual((await registerSlot({ ...base, name: "plain" })).cooldown, "per-session", "other slots keep per-session");
+        assertEqual((await registerSlot({ ...base, name: "kept", type: "scheduled", every: 10, cooldown: "max:2" })).cooldown, "max:2", "explicit kept");
+      }),
+  },
+];
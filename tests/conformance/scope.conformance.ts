@@ -0,0 +1,118 @@
+/**
+ * Scope conformance: project/global slots keep state and cooldowns under the
+ * adapter-resolved scope key, accumulate depth continuously across sessions
+ * (each turn once, even when sessions resume or interleave), survive session
+ * start, and fall back to the session when no key is resolved.
+ */
+
+import { type Check, assertEqual } from "./harness";
+import { coreCtx, makeMemoryHost, slot } from "./fixtures";
+import { carryDepth } from "../../src/core/accumulator";
+import { checkAllSlots, getSlotStatus, clearSlot, sessionStart } from "../../src/core/engine";
+import type { CoreCheckContext } from "../../src/core/contracts";
+import { resolveCoreContext } from "../../src/adapters/claude-code";
+import { piContext } from "../../src/adapters/pi/host";
+import type { DiceState } from "../../src/types";
+
+const KEYS = { project: "project-abc123", global: "global" };
+
+/** A check context for `session` at `depth` with both scope keys resolved. */
+function scoped(session: string, depth?: number): CoreCheckContext {
+  return { ...coreCtx(session, depth), scopeKeys: KEYS };
+}
+
+export const checks: Check[] = [
+  {
+    name: "scope: carryDepth continues depth across sessions",
+    fn: () => {
+      const fresh = { depth_at_last_trigger: 0, last_reset: "" };
+      const a = carryDepth(fresh, "A", 10);
+      assertEqual([a.depth, a.state?.carry], [10, { depth: 10, last_depth: { A: 10 } }], "first session starts at 0");
+      assertEqual(carryDepth(a.state!, "A", 10), { depth: 10 }, "unchanged depth: nothing to save");
+      const b = carryDepth(a.state!, "B", 4);
+      assertEqual([b.depth, b.state?.carry], [14, { depth: 14, last_depth: { A: 10, B: 4 } }], "session B picks up at 10");
+      assertEqual(carryDepth(b.state!, "B", 6).depth, 16, "and keeps counting");
+    },
+  },
+  {
+    name: "scope: carryDepth counts each turn once when sessions resume or interleave",
+    fn: () => {
+      let state = { depth_at_last_trigger: 0, last_reset: "" } as DiceState;
+      const read = (session: string, depth: number) => {
+        const r = carryDepth(state, session, depth);
+        if (r.state) state = r.state;
+        return r.depth;
+      };
+      assertEqual([read("A", 10), read("B", 4), read("A", 12)], [10, 14, 16], "A resumed after B adds only its 2 new turns");
+      assertEqual([read("B", 5), read("A", 13), read("B", 6)], [17, 18, 19], "concurrent sessions: one per turn");
+      const legacy = { depth_at_last_trigger: 0, last_reset: "", carry: { session: "A", offset: 5, last_depth: 3 } } as unknown as DiceState;
+      assertEqual(carryDepth(legacy, "A", 4), { depth: 9, state: { ...legacy, carry: { depth: 9, last_depth: { A: 4 } } } }, "old single-session carry upgraded");
+    },
+  },
+  {
+    name: "scope: a project accumulator keeps building across sessions under the project key",
+    fn: async () => {
+      const config = slot({ name: "acc", accumulationRate: 7, scope: "project", cooldown: "none" });
+      const host = makeMemoryHost([config], { rng: () => 0 });
+      assertEqual((await checkAllSlots(host, scoped("A", 10)))[0].diceCount, 1, "session A: 10 turns → 1 die");
+      assertEqual((await checkAllSlots(host, scoped("B", 4)))[0].diceCount, 2, "session B at depth 4: 14 turns → 2 dice");
+      assertEqual([...host._state.keys()], ["acc::project-abc123"], "state lives under the project key only");
+
+      const st = await getSlotStatus(host, "acc", scoped("B", 5));
+      assertEqual([st?.scope, st?.currentDepth, st?.depthSinceTrigger, st?.sessionId], ["project", 15, 15, "B"], "status");
+    },
+  },
+  {
+    name: "scope: a trigger resets at the continuous depth and keeps the carry",
+    fn: async () => {
+      const config = slot({ name: "acc", accumulationRate: 1, scope: "global", cooldown: "none" });
+      const host = makeMemoryHost([config], { rng: () => 0.99 });
+      await checkAllSlots(host, scoped("A", 8));
+      assertEqual((await checkAllSlots(host, scoped("B", 3)))[0].triggered, true, "fires in session B");
+      const state = await host.loadState("acc", "global");
+      assertEqual([state.depth_at_last_trigger, state.carry?.depth], [11, 11], "reset at continuous depth 11");
+      assertEqual((await getSlotStatus(host, "acc", scoped("B", 5)))?.depthSinceTrigger, 2, "2 turns since");
+    },
+  },
+  {
+    name: "scope: a global cooldown spans sessions; session slots are unaffected",
+    fn: async () => {
+      const retro = slot({ name: "retro", type: "single", die: 1, target: 1, scope: "global", cooldown: "duration:7d" });
+      const local = slot({ name: "local", type: "single", die: 1, target: 1 });
+      const host = makeMemoryHost([retro, local]);
+      assertEqual((await checkAllSlots(host, scoped("A"))).map((r) => r.triggered), [true, true], "both fire in A");
+      assertEqual((await checkAllSlots(host, scoped("B"))).map((r) => r.triggered), [false, true], "retro waits a week");
+      assertEqual([...host._cooldown.keys()], ["retro::global", "local::A", "local::B"], "marker keys");
+    },
+  },
+  {
+    name: "scope: session start skips scoped slots; clear targets the scope key",
+    fn: async () => {
+      const host = makeMemoryHost([slot({ name: "p", scope: "project" }), slot({ name: "s" })]);
+      await host.markTriggered("p", "project-abc123");
+      assertEqual(await sessionStart(host, scoped("B")), ["s"], "only the session slot is cleared");
+      assertEqual(await host.hasCooldown("p", "project-abc123"), true, "project cooldown survives");
+      await clearSlot(host, "p", scoped("B"));
+      assertEqual(await host.hasCooldown("p", "project-abc123"), false, "clear removes the project marker");
+    },
+  },
+  {
+    name: "scope: without a resolved key a scoped slot stays per-session",
+    fn: async () => {
+      const host = makeMemoryHost([slot({ name: "p", scope: "project", accumulationRate: 1 })], { rng: () => 0.99 });
+      assertEqual((await checkAllSlots(host, coreCtx("A", 5)))[0].triggered, true, "fires");
+      assertEqual([[...host._state.keys()], [...host._cooldown.keys()]], [["p::A"], ["p::A"]], "keyed by session");
+      assertEqual((await host.loadState("p", "A")).carry, undefined, "no carry");
+    },
+  },
+  {
+    name: "scope: Claude and Pi adapters resolve the same project key for a directory",
+    fn: () => {
+      const claude = resolveCoreContext({ sessionId: "s" }).scopeKeys;
+      const pi = piContext("s", 0, process.env.PWD || process.cwd()).scopeKeys;
+      assertEqual(claude?.project, pi?.project, "project key parity");
+      assertEqual([claude?.global, pi?.global], ["global", "global"], "one global key");
+      assertEqual(piContext("s", 0).scopeKeys?.project, undefined, "no cwd → no project key");
+    },
+  },
+];
@@ -0,0 +1,64 @@
+/**
+ * Simulation conformance: simulate drives the real engine, so one slot's curve
+ * matches its odds, a shared pool shows up as correlated triggers that an
+ * independent pool removes, exclusion groups never co-trigger, per-session
+ * cooldowns cap a run at one trigger, paused and windowed slots are simulated
+ * as live, and a seed reproduces its result.
+ */
+
+import { type Check, assert, assertEqual } from "./harness";
+import { slot } from "./fixtures";
+import { simulate, simulationSlots } from "../../src/core/simulate";
+
+const near = (a: number, b: number, tol: number, what: string) => assert(Math.abs(a - b) <= tol, `${what}: ${a} vs ${b}`);
+
+export const checks: Check[] = [
+  {
+    name: "simulate: a flat slot's curves match its odds, and a seed reproduces them",
+    fn: async () => {
+      const d20 = [slot({ name: "flat", type: "single", cooldown: "none" })];
+      const result = await simulate(d20, { turns: 20, runs: 2000, seed: "t" });
+      const [flat] = result.slots;
+      near(flat.triggersPerRun, 1, 0.1, "5% for 20 turns");
+      near(flat.cumulative[19], 100 * (1 - 0.95 ** 20), 3, "at least one by turn 20");
+      near(flat.perTurn[9], 5, 1.5, "per turn");
+      assert(flat.cumulative.every((c, i) => i === 0 || c >= flat.cumulative[i - 1]), "cumulative never falls");
+      assertEqual((await simulate(d20, { turns: 20, runs: 2000, seed: "t" })).slots, result.slots, "same seed, same result");
+    },
+  },
+  {
+    name: "simulate: a shared pool correlates triggers; independent pools do not",
+    fn: async () => {
+      const pair = (pool?: string) => [
+        slot({ name: "a", type: "single", cooldown: "none", ...(pool ? { pool } : {}) }),
+        slot({ name: "b", type: "single", cooldown: "none", ...(pool ? { pool } : {}) }),
+      ];
+      const [shared] = (await simulate(pair(), { turns: 10, runs: 1000 })).coTriggers;
+      assertEqual([shared.a, shared.b, shared.givenA, shared.givenB], ["a", "b", 100, 100], "one base d20: always together");
+      const [apart] = (await simulate(pair("independent"), { turns: 10, runs: 1000 })).coTriggers;
+      near(apart.givenA!, 5, 3, "independent: 5% overlap");
+    },
+  },
+  {
+    name: "simulate: groups never co-trigger and per-session cooldowns allow one trigger a run",
+    fn: async () => {
+      const grouped = [
+        slot({ name: "hi", type: "single", die: 2, target: 2, cooldown: "none", group: "g", priority: 1 }),
+        slot({ name: "lo", type: "single", die: 2, target: 2, cooldown: "none", group: "g", pool: "independent" }),
+      ];
+      assertEqual((await simulate(grouped, { turns: 10, runs: 200 })).coTriggers[0].together, 0, "one per group");
+      const [once] = (await simulate([slot({ name: "once", type: "single", die: 2, target: 2 })], { turns: 10, runs: 500 })).slots;
+      assert(once.triggersPerRun <= 1 && once.triggersPerRun > 0.99, `one trigger per run: ${once.triggersPerRun}`);
+      near(once.meanFirstTrigger!, 2, 0.2, "geometric mean first trigger");
+    },
+  },
+  {
+    name: "simulate: paused and windowed slots are simulated as live",
+    fn: async () => {
+      const configs = simulationSlots([slot({ name: "p", enabled: false, paused: { session: "s" }, active: { days: "sat" } })]);
+      assertEqual(["enabled", "paused", "active"].map((k) => k in configs[0]), [false, false, false], "stripped");
+      const [p] = (await simulate([slot({ name: "p", type: "single", die: 1, target: 1, enabled: false, active: { days: "sat" } })], { turns: 1, runs: 5 })).slots;
+      assertEqual(p.perTurn, [100], "rolls anyway");
+    },
+  },
+];
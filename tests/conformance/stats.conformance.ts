@@ -0,0 +1,118 @@
+/**
+ * Stats conformance: observed hits are compared with the recorded odds of the
+ * checks that rolled (skips and pity or scheduled triggers left out, vetoed
+ * and suppressed hits counted); face counts leave out biased
+ * dice and count a pool's shared base once per check; the chi-square p-value
+ * matches table values; and the engine's own history passes both tests.
+ */
+
+import { type Check, assert, assertEqual } from "./harness";
+import { coreCtx, makeMemoryHost, makeRng, slot } from "./fixtures";
+import { checkAllSlots } from "../../src/core/engine";
+import { chiSquareP, faceStats, slotStats } from "../../src/core/stats";
+import type { RollRecord } from "../../src/types";
+
+type Rec = RollRecord & { session: string };
+
+const rec = (fields: Partial<Rec> & { slot: string }): Rec => ({
+  at: "2026-01-01T00:00:00.000Z",
+  session: "s",
+  depth: 1,
+  diceCount: 1,
+  rolls: [1],
+  probability: 50,
+  triggered: false,
+  ...fields,
+});
+
+const close = (a: number, b: number, what: string) => assert(Math.abs(a - b) < 1e-3, `${what}: ${a} vs ${b}`);
+
+export const checks: Check[] = [
+  {
+    name: "stats: hits against expected odds, per slot",
+    fn: () => {
+      const [a] = slotStats([
+        rec({ slot: "a", triggered: true, depth: 4 }),
+        rec({ slot: "a", reason: "suppressed by b" }),
+        rec({ slot: "a", session: "t" }),
+        rec({ slot: "a", session: "t" }),
+        rec({ slot: "a", triggered: true, reason: "pity", probability: 100, depth: 10, session: "t" }),
+        rec({ slot: "a", diceCount: 0, rolls: [], probability: 0, reason: "cooldown", session: "t" }),
+      ]);
+      assertEqual([a.sessions, a.checks, a.hits, a.expectedHits, a.observedRate, a.expectedRate], [2, 4, 2, 2, 50, 50], "counts and rates");
+      assertEqual([a.z, a.triggers, a.triggersPerSession, a.avgTriggerDepth], [0, 2, 1, 7], "z, triggers, depth");
+      const [sure] = slotStats([rec({ slot: "sure", probability: 100, triggered: true })]);
+      assertEqual(sure.z, null, "no variance, no z");
+    },
+  },
+  {
+    name: "stats: faces count independent plain dice only",
+    fn: () => {
+      const slots = [
+        slot({ name: "a", type: "fixed", fixedCount: 2 }),
+        slot({ name: "b", type: "fixed", fixedCount: 1 }),
+        slot({ name: "adv", type: "single", advantage: "advantage" }),
+        slot({ name: "six", type: "single", die: 6, pool: "independent" }),
+      ];
+      const faces = faceStats(
+        [
+          rec({ slot: "a", rolls: [5, 7], diceCount: 2 }),
+          rec({ slot: "b", rolls: [5] }),
+          rec({ slot: "adv", rolls: [20] }),
+          rec({ slot: "six", rolls: [9] }),
+          rec({ slot: "gone", rolls: [3] }),
+          rec({ slot: "a", rolls: [5, 2], diceCount: 2 }),
+        ],
+        slots
+      );
+      assertEqual(faces.map((f) => [f.die, f.rolls]), [[20, 4]], "shared base once per check; biased, unknown, out-of-range left out");
+      assertEqual([faces[0].counts[4], faces[0].counts[6], faces[0].counts[1]], [2, 1, 1], "tally");
+      assertEqual(faces[0].enough, false, "too few to judge");
+    },
+  },
+  {
+    name: "stats: chi-square p-values match table values",
+    fn: () => {
+      close(chiSquareP(3.841, 1), 0.05, "df 1");
+      close(chiSquareP(18.307, 10), 0.05, "df 10");
+      close(chiSquareP(36.191, 19), 0.01, "df 19");
+      assertEqual(chiSquareP(0, 5), 1, "zero statistic");
+    },
+  },
+  {
+    name: "stats: the engine's pooled rolls pass the rate and fairness tests",
+    fn: async () => {
+      const records: Rec[] = [];
+      const host = {
+        ...makeMemoryHost(
+          [
+            slot({ name: "a", type: "fixed", fixedCount: 3, target: 20, cooldown: "none" }),
+            slot({ name: "b", type: "fixed", fixedCount: 1, target: [1, 2], cooldown: "none" }),
+          ],
+          { rng: makeRng(777) }
+        ),
+        appendHistory: async (session: string, rs: RollRecord[]) => void records.push(...rs.map((r) => ({ ...r, session }))),
+      };
+      for (let i = 0; i < 600; i++) await checkAllSlots(host, coreCtx("s", i));
+      const stats = slotStats(records);
+      assert(stats.every((s) => s.checks === 600 && Math.abs(s.z!) < 3), `rates within 3 sd: ${stats.map((s) => s.z!.toFixed(2))}`);
+      const [d20] = faceStats(records, await host.listSlots());
+      assertEqual(d20.rolls, 600 * 3, "three independent dice per check");
+      assert(d20.enough && d20.p > 0.001, `fair d20 (p = ${d20.p})`);
+    },
+  },
+  {
+    name: "stats: pity-forced triggers do not skew a fair slot's rate",
+    fn: async () => {
+      const records: Rec[] = [];
+      const host = {
+        ...makeMemoryHost([slot({ name: "p", type: "single", guaranteeAfter: 5, cooldown: "none" })], { rng: makeRng(31) }),
+        appendHistory: async (session: string, rs: RollRecord[]) => void records.push(...rs.map((r) => ({ ...r, session }))),
+      };
+      for (let i = 1; i <= 600; i++) await checkAllSlots(host, coreCtx("s", i));
+      assert(records.some((r) => r.reason === "pity"), "pity fired");
+      const [p] = slotStats(records);
+      assert(p.checks < 600 && Math.abs(p.z!) < 3, `rate within 3 sd: z = ${p.z}`);
+    },
+  },
+];
@@ -0,0 +1,78 @@
+/**
+ * Veto conformance: a veto slot's trigger cancels every other trigger in the
+ * check without spending their cooldown or reset, records who blocked whom on
+ * the results, leaves the dice themselves unchanged, and does nothing when the
+ * veto misses or its condition does not hold. The library registries default
+ * veto slots to no cooldown.
+ */
+
+import { type Check, assertEqual, withTempBase } from "./harness";
+import { coreCtx, makeMemoryHost, makeRng, slot } from "./fixtures";
+import { checkAllSlots, getSlotStatus } from "../../src/core/engine";
+import { registerSlot } from "../../src/registry";
+import { registerSlot as piRegisterSlot } from "../../src/adapters/pi/store";
+import type { DiceResult, SlotCondition } from "../../src/types";
+
+const byName = (results: DiceResult[], name: string) => results.find((r) => r.slotName === name)!;
+
+export const checks: Check[] = [
+  {
+    name: "veto: a veto hit cancels the other triggers, which commit nothing",
+    fn: async () => {
+      const acc = slot({ name: "acc", die: 1, target: 1, accumulationRate: 1 });
+      const once = slot({ name: "once", type: "single", die: 1, target: 1 });
+      const veto = slot({ name: "hold", type: "single", die: 1, target: 1, cooldown: "none", veto: true });
+      const host = makeMemoryHost([acc, once, veto]);
+      const results = await checkAllSlots(host, coreCtx("s", 10));
+      assertEqual(["acc", "once"].map((n) => [byName(results, n).triggered, byName(results, n).vetoedBy]), [[false, "hold"], [false, "hold"]], "both vetoed");
+      assertEqual([byName(results, "hold").triggered, byName(results, "hold").vetoed], [true, ["acc", "once"]], "the veto records whom it blocked");
+      assertEqual([await host.hasCooldown("once", "s"), host._state.has("acc::s")], [false, false], "no cooldown, no reset spent");
+    },
+  },
+  {
+    name: "veto: a veto that misses, or whose condition fails, blocks nothing",
+    fn: async () => {
+      const once = slot({ name: "once", type: "single", die: 1, target: 1, cooldown: "none" });
+      const missing = slot({ name: "never", type: "single", die: 20, target: 21, cooldown: "none", veto: true });
+      const missHost = makeMemoryHost([once, missing]);
+      assertEqual(byName(await checkAllSlots(missHost, coreCtx("s")), "once").triggered, true, "veto missed");
+
+      const gated = slot({ name: "debugging", type: "single", die: 1, target: 1, cooldown: "none", veto: true, when: { toolFailed: "Bash" } });
+      const host = makeMemoryHost([once, gated]);
+      const failing = (met: boolean) => ({ ...coreCtx("s"), matchesCondition: async (_: SlotCondition) => met });
+      assertEqual(byName(await checkAllSlots(host, failing(true)), "once").vetoedBy, "debugging", "condition holds: vetoed");
+      assertEqual(byName(await checkAllSlots(host, failing(false)), "once").triggered, true, "condition fails: fires");
+    },
+  },
+  {
+    name: "veto: the dice are unchanged; the earliest registered veto is credited; status flags it",
+    fn: async () => {
+      const pool = [
+        slot({ name: "g_a", type: "single", die: 20, target: 20, targetMode: "lte", cooldown: "none" }),
+        slot({ name: "g_b", type: "accumulator", die: 20, target: 19, targetMode: "gte", cooldown: "none" }),
+      ];
+      const vetoes = [
+        slot({ name: "v1", type: "single", die: 1, target: 1, cooldown: "none", veto: true }),
+        slot({ name: "v2", type: "single", die: 1, target: 1, cooldown: "none", veto: true }),
+      ];
+      const plain = await checkAllSlots(makeMemoryHost(pool, { rng: makeRng(777) }), coreCtx("s", 30));
+      const host = makeMemoryHost([...pool, ...vetoes], { rng: makeRng(777) });
+      const vetoed = await checkAllSlots(host, coreCtx("s", 30));
+      assertEqual(["g_a", "g_b"].map((n) => byName(vetoed, n).rolls), plain.map((r) => r.rolls), "identical rolls");
+      assertEqual(plain[0].triggered, true, "g_a hits under this seed");
+      assertEqual(["g_a", "g_b"].map((n) => byName(vetoed, n).vetoedBy), plain.map((r) => (r.triggered ? "v1" : undefined)), "hits credited to v1");
+      assertEqual([byName(vetoed, "v2").triggered, byName(vetoed, "v2").vetoed], [true, undefined], "other vetoes still stand");
+      assertEqual((await getSlotStatus(host, "v1", coreCtx("s")))?.veto, true, "status");
+    },
+  },
+  {
+    name: "veto: the library registries default veto slots to no cooldown",
+    fn: () =>
+      withTempBase(async () => {
+        const base = { die: 2, target: 1, onTrigger: { message: "m" } };
+        assertEqual((await registerSlot({ ...base, name: "hold", type: "single", veto: true })).cooldown, "none", "registerSlot");
+        assertEqual(piRegisterSlot({ ...base, name: "pihold", type: "single", veto: true }).cooldown, "none", "Pi store");
+        assertEqual((await registerSlot({ ...base, name: "kept", type: "single", veto: true, cooldown: "turns:3" })).cooldown, "turns:3", "explicit kept");
+      }),
+  },
+];